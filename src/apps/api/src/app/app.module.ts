@@ -1,16 +1,26 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
-import { BackendConfigModule } from '@libs/backend-config';
+import { BackendConfigModule, ImportConfig } from '@libs/backend-config';
 import { CommonModule } from '@libs/backend-common';
 import { UsersController } from '../controllers/users.controller';
+import { AuditController } from '../controllers/audit.controller';
 
 @Module({
   imports: [
     BackendConfigModule.forRoot(),
     CommonModule.forRoot(),
+    // Uploads are kept in memory, up to the largest file an import accepts
+    MulterModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        limits: { fileSize: configService.get<ImportConfig>('import')?.maxFileBytes },
+      }),
+    }),
   ],
-  controllers: [AppController, UsersController],
+  controllers: [AppController, UsersController, AuditController],
   providers: [AppService],
 })
 export class AppModule {}
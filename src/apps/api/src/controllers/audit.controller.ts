@@ -0,0 +1,39 @@
+import { Controller, Get, Query, Req } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import {
+  AuditLog,
+  AuditService,
+  QueryOptionsLimits,
+  parseQueryOptionsFromQuery,
+} from '@libs/backend-config';
+import { QueryResponse } from '@libs/shared';
+
+@ApiTags('audit')
+@Controller('audit')
+export class AuditController {
+  constructor(
+    private readonly auditService: AuditService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List audit records (newest first) of the entities the @Policy() read rules grant' })
+  @ApiQuery({ name: 'entity', required: false, description: 'Entity name, e.g. User' })
+  @ApiQuery({ name: 'id', required: false, description: 'Entity id' })
+  @ApiQuery({ name: '$filter', required: false, description: "e.g. action eq 'update' and createdAt ge 2026-01-01T00:00:00Z" })
+  @ApiQuery({ name: '$orderby', required: false, description: 'e.g. createdAt asc' })
+  @ApiQuery({ name: '$top', required: false, type: Number })
+  @ApiQuery({ name: '$skip', required: false, type: Number })
+  @ApiQuery({ name: '$count', required: false, type: Boolean })
+  async findAll(@Query() query: Record<string, any>, @Req() request: Request): Promise<QueryResponse<AuditLog>> {
+    const options = parseQueryOptionsFromQuery(query, this.configService.get<QueryOptionsLimits>('query'));
+    return await this.auditService.findHistory(
+      typeof query['entity'] === 'string' ? query['entity'] : undefined,
+      typeof query['id'] === 'string' ? query['id'] : undefined,
+      options,
+      request.originalUrl.split('?')[0],
+    );
+  }
+}
@@ -1,16 +1,121 @@
-import { Controller, Get, Post, Put, Delete, Body, Param } from '@nestjs/common';
-import { ApiOperation, ApiTags } from '@nestjs/swagger';
-import { UserService, CreateUserDto, UpdateUserDto, User } from '@libs/backend-config';
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Query,
+  Req,
+  Res,
+  UploadedFile,
+  UseInterceptors,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ConfigService } from '@nestjs/config';
+import {
+  ApiBody,
+  ApiConsumes,
+  ApiHeader,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { ETagInterceptor, parseIfMatch } from '@libs/backend-common';
+import {
+  UserService,
+  CreateUserDto,
+  UpdateUserDto,
+  CreateUsersBatchDto,
+  UpsertUsersBatchDto,
+  User,
+  ImportFile,
+  ImportService,
+  createCrudController,
+  parseQueryOptionsFromQuery,
+} from '@libs/backend-config';
+import { BulkOperationResponse, CursorPaginatedResponse, ImportJob, ImportReport, QueryResponse } from '@libs/shared';
 
 @ApiTags('users')
 @Controller('users')
-export class UsersController {
-  constructor(private readonly userService: UserService) {}
+export class UsersController extends createCrudController(UserService, {
+  create: CreateUserDto,
+  update: UpdateUserDto,
+}) {
+  constructor(
+    private readonly userService: UserService,
+    configService: ConfigService,
+    private readonly importService: ImportService,
+  ) {
+    super(userService, configService);
+  }
 
+  // Overrides the generated list to document $highlight
   @Get()
-  @ApiOperation({ summary: 'List all users' })
-  async findAll(): Promise<User[]> {
-    return await this.userService.findAll();
+  @ApiOperation({ summary: 'List users' })
+  @ApiQuery({ name: '$filter', required: false, description: "e.g. isActive eq true and email endswith '@test.com'" })
+  @ApiQuery({ name: '$orderby', required: false, description: 'e.g. lastName asc,createdAt desc' })
+  @ApiQuery({ name: '$select', required: false, description: 'e.g. firstName,lastName,email' })
+  @ApiQuery({ name: '$expand', required: false, description: 'e.g. orders($filter=total gt 10;$orderby=createdAt desc)' })
+  @ApiQuery({ name: '$search', required: false, description: 'Full-text search, e.g. "ana garcia" -test' })
+  @ApiQuery({ name: '$highlight', required: false, type: Boolean, description: 'Return highlighted $search matches' })
+  @ApiQuery({
+    name: '$apply',
+    required: false,
+    description: 'e.g. filter(isActive eq true)/groupby((isActive),aggregate($count as total))',
+  })
+  @ApiQuery({ name: '$top', required: false, type: Number })
+  @ApiQuery({ name: '$skip', required: false, type: Number })
+  @ApiQuery({ name: '$count', required: false, type: Boolean })
+  async findAll(
+    @Query() query: Record<string, any>,
+    @Req() request: Request,
+  ): Promise<QueryResponse<User> | QueryResponse<Record<string, unknown>>> {
+    const options = parseQueryOptionsFromQuery(query, this.queryLimits);
+    const path = request.originalUrl.split('?')[0];
+    if (options.apply) {
+      return await this.userService.aggregate(options, path);
+    }
+    return await this.userService.findWithQueryOptions(options, path);
+  }
+
+  @Get('cursor')
+  @ApiOperation({ summary: 'List users with cursor pagination' })
+  @ApiQuery({ name: '$filter', required: false, description: 'e.g. isActive eq true' })
+  @ApiQuery({ name: '$orderby', required: false, description: 'e.g. createdAt desc (id is appended)' })
+  @ApiQuery({ name: '$top', required: false, type: Number })
+  @ApiQuery({ name: 'cursor', required: false, description: 'nextCursor or prevCursor of a previous page' })
+  async findAllByCursor(@Query() query: Record<string, any>): Promise<CursorPaginatedResponse<User>> {
+    const options = parseQueryOptionsFromQuery(query, this.queryLimits);
+    return await this.userService.findAllByCursor({
+      filter: options.filter,
+      sort: options.orderBy,
+      limit: options.top,
+      cursor: typeof query['cursor'] === 'string' ? query['cursor'] : undefined,
+      secret: this.configService.getOrThrow<string>('CURSOR_SECRET'),
+    });
+  }
+
+  @Get('deleted')
+  @ApiOperation({ summary: 'List soft-deleted users' })
+  @ApiQuery({ name: '$filter', required: false, description: 'e.g. deletedAt gt 2026-01-01T00:00:00Z' })
+  @ApiQuery({ name: '$orderby', required: false, description: 'e.g. deletedAt desc' })
+  @ApiQuery({ name: '$select', required: false, description: 'e.g. firstName,lastName,email' })
+  @ApiQuery({ name: '$top', required: false, type: Number })
+  @ApiQuery({ name: '$skip', required: false, type: Number })
+  @ApiQuery({ name: '$count', required: false, type: Boolean })
+  async findDeleted(@Query() query: Record<string, any>, @Req() request: Request): Promise<QueryResponse<User>> {
+    const options = parseQueryOptionsFromQuery(query, this.queryLimits);
+    return await this.userService.findDeleted(options, request.originalUrl.split('?')[0]);
   }
 
   @Get('active')
@@ -19,30 +124,108 @@ export class UsersController {
     return await this.userService.findActiveUsers();
   }
 
-  @Get(':id')
-  @ApiOperation({ summary: 'Get user by id' })
-  async findOne(@Param('id') id: string): Promise<User> {
-    return await this.userService.findById(id);
+  @Post('batch')
+  @ApiOperation({ summary: 'Create users in bulk' })
+  @ApiResponse({ status: 201, description: 'Per-item results; valid users are created even when others fail' })
+  async createMany(@Body() batch: CreateUsersBatchDto): Promise<BulkOperationResponse<User>> {
+    return await this.userService.createMany(batch.items);
+  }
+
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({ summary: 'Import users from a CSV or XLSX file, matching its header to the create fields' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: { type: 'object', required: ['file'], properties: { file: { type: 'string', format: 'binary' } } },
+  })
+  @ApiQuery({
+    name: 'mode',
+    required: false,
+    enum: ['dry-run', 'commit'],
+    description: 'dry-run (default) only reports the errors of each row; commit creates the valid rows',
+  })
+  @ApiQuery({ name: 'background', required: false, type: Boolean, description: 'Run as a job (see GET import/:jobId)' })
+  @ApiResponse({ status: 200, description: 'Import report with the errors of each invalid row' })
+  @ApiResponse({ status: 202, description: 'Background import started' })
+  @ApiResponse({ status: 413, description: 'File too large' })
+  async import(
+    @UploadedFile() file: ImportFile,
+    @Query('mode') mode: string | undefined,
+    @Query('background') background: string | undefined,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<ImportReport | ImportJob> {
+    if (mode !== undefined && mode !== 'dry-run' && mode !== 'commit') {
+      throw new BadRequestException("mode must be 'dry-run' or 'commit'");
+    }
+    const options = { dryRun: mode !== 'commit' };
+    if (background === 'true') {
+      response.status(HttpStatus.ACCEPTED);
+      return this.importService.start(this.userService, CreateUserDto, file, options);
+    }
+    return await this.importService.import(this.userService, CreateUserDto, file, options);
+  }
+
+  @Get('import/:jobId')
+  @ApiOperation({ summary: 'Progress of a background import, with its report once completed' })
+  @ApiParam({ name: 'jobId', description: 'Job id returned when the import started' })
+  @ApiResponse({ status: 404, description: 'Unknown or expired job' })
+  getImportJob(@Param('jobId') jobId: string): ImportJob {
+    return this.importService.getJob(jobId);
+  }
+
+  @Put('batch')
+  @ApiOperation({ summary: 'Create or update users in bulk, matching existing users by conflictPaths (default email)' })
+  async upsert(@Body() batch: UpsertUsersBatchDto): Promise<BulkOperationResponse<User>> {
+    return await this.userService.upsert(batch.items, batch.conflictPaths ?? ['email']);
+  }
+
+  @Patch('batch')
+  @ApiOperation({ summary: 'Update the users matching $filter' })
+  @ApiQuery({ name: '$filter', required: true, description: 'e.g. isActive eq false' })
+  async updateWhere(
+    @Query() query: Record<string, any>,
+    @Body() updateUserDto: UpdateUserDto,
+  ): Promise<BulkOperationResponse<User>> {
+    const options = parseQueryOptionsFromQuery(query, this.queryLimits);
+    return await this.userService.updateWhere(options.filter, updateUserDto);
   }
 
-  @Post()
-  @ApiOperation({ summary: 'Create user' })
-  async create(@Body() createUserDto: CreateUserDto): Promise<User> {
-    return await this.userService.create(createUserDto);
+  @Delete('batch')
+  @ApiOperation({ summary: 'Delete (soft delete) the users matching $filter' })
+  @ApiQuery({ name: '$filter', required: true, description: "e.g. email endswith '@test.com'" })
+  async deleteWhere(@Query() query: Record<string, any>): Promise<BulkOperationResponse<User>> {
+    const options = parseQueryOptionsFromQuery(query, this.queryLimits);
+    return await this.userService.deleteWhere(options.filter);
   }
 
+  // Overrides the generated PUT :id to update through updateProfile, which never writes the id, timestamps or version
   @Put(':id')
+  @UseInterceptors(ETagInterceptor)
   @ApiOperation({ summary: 'Update user' })
+  @ApiParam({ name: 'id', description: 'Entity id' })
+  @ApiHeader({ name: 'If-Match', required: false, description: 'ETag of the version being updated, e.g. "3"' })
+  @ApiResponse({ status: 412, description: 'The user was modified since the given ETag' })
+  @ApiResponse({ status: 428, description: 'If-Match is required' })
   async update(
     @Param('id') id: string,
     @Body() updateUserDto: UpdateUserDto,
+    @Headers('if-match') ifMatch?: string,
   ): Promise<User> {
-    return await this.userService.updateProfile(id, updateUserDto);
+    return await this.userService.updateProfile(id, updateUserDto, parseIfMatch(ifMatch, this.requireIfMatch));
+  }
+
+  @Post(':id/restore')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(ETagInterceptor)
+  @ApiOperation({ summary: 'Restore a soft-deleted user' })
+  async restore(@Param('id') id: string): Promise<User> {
+    return await this.userService.restore(id);
   }
 
-  @Delete(':id')
-  @ApiOperation({ summary: 'Delete user' })
-  async remove(@Param('id') id: string): Promise<void> {
-    return await this.userService.remove(id);
+  @Delete(':id/purge')
+  @ApiOperation({ summary: 'Permanently delete user' })
+  async purge(@Param('id') id: string): Promise<void> {
+    return await this.userService.purge(id);
   }
 }
\ No newline at end of file
@@ -5,14 +5,22 @@
 
 import { Logger } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
+import { JSON_PATCH_CONTENT_TYPE, MERGE_PATCH_CONTENT_TYPE } from '@libs/backend-config';
 import { AppModule } from './app/app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     bufferLogs: true,
   });
 
+  // Bulk endpoints accept up to thousands of items per request; PATCH also takes merge patches and JSON Patches
+  app.useBodyParser('json', {
+    limit: process.env['BODY_LIMIT'] ?? '5mb',
+    type: ['application/json', MERGE_PATCH_CONTENT_TYPE, JSON_PATCH_CONTENT_TYPE],
+  });
+
   app.enableShutdownHooks();
 
   const corsOrigin = process.env['CORS_ORIGIN'];
@@ -0,0 +1,86 @@
+/**
+ * Schema migration commands, run against the database of the environment (bundled as migrate.js):
+ *
+ *   node dist/src/apps/api/migrate.js run | revert | baseline | status | pending | check | generate <Name>
+ */
+
+import { NestFactory } from '@nestjs/core';
+import { MigrationService, MigrationsModule } from '@libs/backend-config';
+
+const USAGE = 'Usage: migrate run | revert | baseline | status | pending | check | generate <Name>';
+
+const COMMANDS = ['run', 'revert', 'baseline', 'status', 'pending', 'check', 'generate'] as const;
+
+type Command = (typeof COMMANDS)[number];
+
+/**
+ * Run a command
+ * @returns Exit code: 1 when the command fails, or when check finds the schema out of sync
+ */
+async function migrate(migrations: MigrationService, command: Command, name: string): Promise<number> {
+  switch (command) {
+    case 'run': {
+      const executed = await migrations.run();
+      console.log(executed.length > 0 ? `Applied ${executed.join(', ')}` : 'No pending migrations');
+      return 0;
+    }
+    case 'revert': {
+      const reverted = await migrations.revert();
+      console.log(reverted ? `Reverted ${reverted}` : 'No migration to revert');
+      return 0;
+    }
+    case 'baseline': {
+      const baseline = await migrations.baseline();
+      console.log(baseline ? `Recorded ${baseline} as run` : 'No migrations');
+      return 0;
+    }
+    case 'status':
+      (await migrations.status()).forEach(({ name, executed }) => console.log(`${executed ? '[X]' : '[ ]'} ${name}`));
+      return 0;
+    case 'pending': {
+      const pending = await migrations.pending();
+      console.log(pending.length > 0 ? pending.join('\n') : 'No pending migrations');
+      return 0;
+    }
+    case 'check': {
+      const { pending, drift } = await migrations.check();
+      if (pending.length > 0) {
+        console.error(`Pending migrations: ${pending.join(', ')}`);
+        return 1;
+      }
+      if (drift.length > 0) {
+        console.error(`The entities need schema changes no migration makes (run generate):\n${drift.join('\n')}`);
+        return 1;
+      }
+      console.log('Entities and migrations are in sync');
+      return 0;
+    }
+    case 'generate': {
+      const path = await migrations.generate(name);
+      console.log(path ? `Generated ${path}` : 'No schema changes to migrate');
+      return 0;
+    }
+  }
+}
+
+async function main(): Promise<number> {
+  const [command, name = ''] = process.argv.slice(2);
+  if (!COMMANDS.includes(command as Command) || (command === 'generate' && !name)) {
+    console.error(USAGE);
+    return 1;
+  }
+  const app = await NestFactory.createApplicationContext(MigrationsModule, { logger: ['error', 'warn'] });
+  try {
+    return await migrate(app.get(MigrationService), command as Command, name);
+  } finally {
+    await app.close();
+  }
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  },
+);
@@ -1,7 +1,11 @@
 export * from './lib/common.module';
+export * from './lib/context/request-context';
+export * from './lib/context/request-context.middleware';
 export * from './lib/exceptions/all-exceptions.filter';
 export * from './lib/exceptions/custom-exceptions';
 export * from './lib/interceptors/logging.interceptor';
+export * from './lib/interceptors/etag.interceptor';
 export * from './lib/pipes/validation.pipe';
 export * from './lib/logger/logger.service';
 export * from './lib/logger/logger.module';
+export * from './lib/utils/etag.utils';
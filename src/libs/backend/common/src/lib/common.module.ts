@@ -1,10 +1,11 @@
-import { Module, Global } from '@nestjs/common';
+import { Module, Global, MiddlewareConsumer, NestModule, RequestMethod } from '@nestjs/common';
 import { APP_FILTER, APP_INTERCEPTOR, APP_PIPE } from '@nestjs/core';
 import { AllExceptionsFilter } from './exceptions/all-exceptions.filter';
 import { LoggingInterceptor } from './interceptors/logging.interceptor';
 import { ValidationPipe } from './pipes/validation.pipe';
 import { LoggerModule } from './logger/logger.module';
 import { LoggerService } from './logger/logger.service';
+import { RequestContextMiddleware } from './context/request-context.middleware';
 
 @Global()
 @Module({
@@ -31,7 +32,11 @@ import { LoggerService } from './logger/logger.service';
   ],
   exports: [LoggerModule],
 })
-export class CommonModule {
+export class CommonModule implements NestModule {
+  configure(consumer: MiddlewareConsumer): void {
+    consumer.apply(RequestContextMiddleware).forRoutes({ path: '{*path}', method: RequestMethod.ALL });
+  }
+
   static forRoot() {
     return {
       module: CommonModule,
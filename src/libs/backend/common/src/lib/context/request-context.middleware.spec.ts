@@ -0,0 +1,44 @@
+import { Request, Response } from 'express';
+import { RequestContext, RequestContextData } from './request-context';
+import { RequestContextMiddleware } from './request-context.middleware';
+
+describe('RequestContextMiddleware', () => {
+  const handle = (headers: Record<string, string>, user?: Record<string, unknown>) => {
+    const request = { user, get: (name: string) => headers[name] } as unknown as Request;
+    const response = { setHeader: jest.fn() } as unknown as Response;
+    let context: RequestContextData | undefined;
+    new RequestContextMiddleware().use(request, response, () => (context = RequestContext.current()));
+    return context;
+  };
+
+  afterEach(() => {
+    delete process.env['TRUST_USER_ID_HEADER'];
+    delete process.env['TRUST_TENANT_ID_HEADER'];
+  });
+
+  it('should take the user from request.user', () => {
+    expect(handle({ 'X-User-Id': 'mallory' }, { id: 42 })?.userId).toBe('42');
+  });
+
+  it('should ignore the X-User-Id header by default', () => {
+    expect(handle({ 'X-User-Id': 'mallory' })?.userId).toBeUndefined();
+  });
+
+  it('should accept the X-User-Id header only when trusted', () => {
+    process.env['TRUST_USER_ID_HEADER'] = 'true';
+
+    expect(handle({ 'X-User-Id': 'gateway-user' })?.userId).toBe('gateway-user');
+  });
+
+  it('should take the tenant from request.user and ignore the X-Tenant-Id header by default', () => {
+    expect(handle({ 'X-Tenant-Id': 'other' }, { id: 42, tenantId: 't1' })?.tenantId).toBe('t1');
+    expect(handle({ 'X-Tenant-Id': 'other' }, { id: 42 })?.tenantId).toBeUndefined();
+    expect(handle({ 'X-Tenant-Id': 'other' })?.tenantId).toBeUndefined();
+  });
+
+  it('should accept the X-Tenant-Id header only when trusted', () => {
+    process.env['TRUST_TENANT_ID_HEADER'] = 'true';
+
+    expect(handle({ 'X-Tenant-Id': 't2' })?.tenantId).toBe('t2');
+  });
+});
@@ -0,0 +1,41 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import { RequestContext } from './request-context';
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-Id';
+export const USER_ID_HEADER = 'X-User-Id';
+export const TENANT_ID_HEADER = 'X-Tenant-Id';
+
+// Incoming ids are echoed in responses and logs, so only plain tokens are accepted
+const ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Run each request within a RequestContext holding its correlation id, acting user and tenant.
+ * The user and tenant are taken from request.user (set by authentication middleware from the token) only.
+ * The X-User-Id and X-Tenant-Id headers are client-controlled, so they are ignored unless TRUST_USER_ID_HEADER=true
+ * and TRUST_TENANT_ID_HEADER=true respectively (e.g., behind a gateway that authenticates the caller and sets
+ * the headers itself).
+ */
+@Injectable()
+export class RequestContextMiddleware implements NestMiddleware {
+  private readonly trustUserIdHeader = process.env['TRUST_USER_ID_HEADER'] === 'true';
+  private readonly trustTenantIdHeader = process.env['TRUST_TENANT_ID_HEADER'] === 'true';
+
+  use(request: Request, response: Response, next: NextFunction): void {
+    const header = (name: string) => {
+      const value = request.get(name);
+      return value && ID_PATTERN.test(value) ? value : undefined;
+    };
+    const correlationId = header(CORRELATION_ID_HEADER) ?? header('X-Request-Id') ?? randomUUID();
+    const user = (request as Request & { user?: { id?: unknown; tenantId?: unknown } & Record<string, unknown> }).user;
+    const userId =
+      user?.id !== undefined ? String(user.id) : this.trustUserIdHeader ? header(USER_ID_HEADER) : undefined;
+    // The tenant of the token wins over the header
+    const tenantId =
+      user?.tenantId !== undefined ? String(user.tenantId) : this.trustTenantIdHeader ? header(TENANT_ID_HEADER) : undefined;
+
+    response.setHeader(CORRELATION_ID_HEADER, correlationId);
+    RequestContext.run({ correlationId, userId, tenantId, user }, next);
+  }
+}
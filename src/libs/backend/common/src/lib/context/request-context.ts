@@ -0,0 +1,40 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Data of the request being handled, available anywhere down its call chain
+ */
+export interface RequestContextData {
+  /** Correlation id of the request (X-Correlation-Id header, or generated) */
+  correlationId: string;
+  /** Id of the acting user; authentication guards may set it once the user is known */
+  userId?: string;
+  /** Tenant the request acts for; tenant-scoped entities are restricted to it */
+  tenantId?: string;
+  /** Authenticated user (request.user) when authentication middleware set one, e.g., roles and claims of the token */
+  user?: Record<string, unknown>;
+}
+
+/**
+ * Access to the context of the current request, kept in AsyncLocalStorage by RequestContextMiddleware
+ */
+export class RequestContext {
+  private static readonly storage = new AsyncLocalStorage<RequestContextData>();
+
+  /**
+   * Run a callback within a request context
+   * @param context Context data
+   * @param callback Callback to run
+   * @returns Result of the callback
+   */
+  static run<R>(context: RequestContextData, callback: () => R): R {
+    return RequestContext.storage.run(context, callback);
+  }
+
+  /**
+   * Get the context of the current request
+   * @returns Context data, or undefined outside of a request (e.g., in background jobs)
+   */
+  static current(): RequestContextData | undefined {
+    return RequestContext.storage.getStore();
+  }
+}
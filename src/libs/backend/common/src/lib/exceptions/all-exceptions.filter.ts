@@ -72,7 +72,7 @@ export class AllExceptionsFilter implements ExceptionFilter {
         if (Array.isArray(responseObj['message'])) {
           errors = (responseObj['message'] as string[]).map((msg: string, index: number) => {
             // Try to extract field name from validation message
-            const fieldMatch = msg.match(/^(\w+)\s/);
+            const fieldMatch = msg.match(/^([\w.]+)\s/);
             const field = fieldMatch ? fieldMatch[1] : `field${index}`;
             return {
               field,
@@ -81,10 +81,10 @@ export class AllExceptionsFilter implements ExceptionFilter {
           });
           message = 'Validation failed';
         }
-        // Handle validation errors from class-validator
+        // Handle structured errors (class-validator, query syntax errors with token positions)
         else if (responseObj['errors'] && Array.isArray(responseObj['errors'])) {
           errors = responseObj['errors'] as ValidationError[];
-          message = 'Validation failed';
+          message = typeof responseObj['message'] === 'string' ? message : 'Validation failed';
         }
       } else {
         message = exception.message || 'An error occurred';
@@ -36,6 +36,30 @@ export class DuplicateResourceException extends HttpException {
   }
 }
 
+/**
+ * Exception thrown when a resource was modified since the version the client based its changes on
+ */
+export class ConcurrencyConflictException extends HttpException {
+  constructor(resource: string, expectedVersion?: number, currentVersion?: number) {
+    const message =
+      expectedVersion !== undefined && currentVersion !== undefined
+        ? `${resource} was modified by another request (expected version ${expectedVersion}, current version ${currentVersion})`
+        : `${resource} was modified by another request`;
+    super(message, HttpStatus.PRECONDITION_FAILED);
+    this.name = 'ConcurrencyConflictException';
+  }
+}
+
+/**
+ * Exception thrown when the acting user is not allowed to perform an action on a resource
+ */
+export class AccessDeniedException extends HttpException {
+  constructor(action: string, resource: string) {
+    super(`Not allowed to ${action} ${resource}`, HttpStatus.FORBIDDEN);
+    this.name = 'AccessDeniedException';
+  }
+}
+
 /**
  * Exception thrown when an operation is invalid in the current state
  */
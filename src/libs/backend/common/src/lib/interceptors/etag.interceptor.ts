@@ -0,0 +1,29 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { tap } from 'rxjs/operators';
+import { Response } from 'express';
+import { formatETag } from '../utils/etag.utils';
+
+/**
+ * Set the ETag header of responses returning a single versioned entity
+ */
+@Injectable()
+export class ETagInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const response = context.switchToHttp().getResponse<Response>();
+
+    return next.handle().pipe(
+      tap((data) => {
+        const version = (data as { version?: unknown } | null | undefined)?.version;
+        if (typeof version === 'number' && !response.headersSent) {
+          response.setHeader('ETag', formatETag(version));
+        }
+      }),
+    );
+  }
+}
@@ -4,7 +4,7 @@ import {
   ArgumentMetadata,
   BadRequestException,
 } from '@nestjs/common';
-import { validate } from 'class-validator';
+import { validate, ValidationError } from 'class-validator';
 import { plainToInstance } from 'class-transformer';
 
 @Injectable()
@@ -25,19 +25,27 @@ export class ValidationPipe implements PipeTransform<any> {
     });
 
     if (errors.length > 0) {
-      const messages = errors.map((error) => {
-        if (error.constraints) {
-          return Object.values(error.constraints).join(', ');
-        }
-        return `${error.property} has invalid value`;
-      });
-
-      throw new BadRequestException(messages);
+      throw new BadRequestException(this.toMessages(errors));
     }
 
     return object;
   }
 
+  /**
+   * Messages of validation errors; errors of nested objects are prefixed with their path (e.g., items.3.email)
+   */
+  private toMessages(errors: ValidationError[], path = ''): string[] {
+    return errors.flatMap((error) => {
+      if (error.constraints) {
+        return [`${path}${Object.values(error.constraints).join(', ')}`];
+      }
+      if (error.children?.length) {
+        return this.toMessages(error.children, `${path}${error.property}.`);
+      }
+      return [`${path}${error.property} has invalid value`];
+    });
+  }
+
   private toValidate(metatype: Function): boolean {
     const types: Function[] = [String, Boolean, Number, Array, Object];
     return !types.includes(metatype);
@@ -0,0 +1,28 @@
+import { BadRequestException, HttpStatus } from '@nestjs/common';
+import { formatETag, parseIfMatch } from './etag.utils';
+
+describe('etag.utils', () => {
+  it('should round-trip entity tags', () => {
+    expect(parseIfMatch(formatETag(3), true)).toBe(3);
+    expect(parseIfMatch('W/"12"', true)).toBe(12);
+  });
+
+  it('should allow any version with "*" or, when optional, without the header', () => {
+    expect(parseIfMatch('*', true)).toBeUndefined();
+    expect(parseIfMatch(undefined, false)).toBeUndefined();
+  });
+
+  it('should require the header when configured', () => {
+    expect.assertions(1);
+    try {
+      parseIfMatch(undefined, true);
+    } catch (error) {
+      expect((error as { getStatus(): number }).getStatus()).toBe(HttpStatus.PRECONDITION_REQUIRED);
+    }
+  });
+
+  it('should reject malformed and multiple entity tags', () => {
+    expect(() => parseIfMatch('3', true)).toThrow(BadRequestException);
+    expect(() => parseIfMatch('"3", "4"', true)).toThrow(BadRequestException);
+  });
+});
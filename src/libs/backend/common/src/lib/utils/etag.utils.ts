@@ -0,0 +1,45 @@
+/**
+ * Entity Tag Utilities
+ * Entity tags carry the version column of an entity, for optimistic concurrency with If-Match
+ */
+
+import { BadRequestException, HttpException, HttpStatus } from '@nestjs/common';
+
+const ENTITY_TAG = /^(?:W\/)?"(\d+)"$/;
+
+/**
+ * Format the entity tag of an entity version
+ * @param version Version column value
+ * @returns Entity tag (e.g., "3")
+ */
+export function formatETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Parse the If-Match header of a request
+ * @param header If-Match header value
+ * @param required Whether requests without If-Match are rejected
+ * @returns Expected version, or undefined when any version may be modified (no header or "*")
+ * @throws HttpException 428 when the header is required but missing
+ * @throws BadRequestException when the header is not a single entity tag
+ */
+export function parseIfMatch(header: string | undefined, required: boolean): number | undefined {
+  const value = header?.trim();
+  if (!value) {
+    if (required) {
+      throw new HttpException('If-Match header is required', HttpStatus.PRECONDITION_REQUIRED);
+    }
+    return undefined;
+  }
+  if (value === '*') {
+    return undefined;
+  }
+
+  // Weak tags are accepted, since proxies weaken tags of compressed responses
+  const match = ENTITY_TAG.exec(value);
+  if (!match) {
+    throw new BadRequestException('If-Match must be a single entity tag (e.g., "3")');
+  }
+  return parseInt(match[1], 10);
+}
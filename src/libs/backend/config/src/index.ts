@@ -1,12 +1,61 @@
 export * from './lib/backend-config.module';
 export * from './lib/config/database.config';
+export * from './lib/controllers/crud-controller.factory';
+export { default as queryConfig } from './lib/config/query.config';
+export { default as concurrencyConfig } from './lib/config/concurrency.config';
+export type { ConcurrencyConfig } from './lib/config/concurrency.config';
+export { default as outboxConfig } from './lib/config/outbox.config';
+export type { OutboxConfig } from './lib/config/outbox.config';
+export { default as cacheConfig } from './lib/config/cache.config';
+export type { CacheConfig } from './lib/config/cache.config';
+export { default as importConfig } from './lib/config/import.config';
+export type { ImportConfig } from './lib/config/import.config';
+export { default as migrationsConfig } from './lib/config/migrations.config';
+export type { MigrationsConfig } from './lib/config/migrations.config';
+export * from './lib/decorators/query-field.decorators';
+export * from './lib/decorators/audited.decorator';
+export * from './lib/decorators/cacheable.decorator';
+export * from './lib/decorators/policy.decorator';
+export * from './lib/decorators/transactional.decorator';
+export * from './lib/transactions/transaction-manager';
+export * from './lib/tenancy/tenant-context';
+export * from './lib/policies/policy-engine';
+export * from './lib/cache/cache-store';
+export * from './lib/cache/memory-cache-store';
+export * from './lib/cache/redis-cache-store';
+export * from './lib/cache/entity-cache';
+export * from './lib/cache/entity-cache-entry';
+export * from './lib/events/domain-event';
+export * from './lib/events/entities/outbox-event.entity';
+export * from './lib/events/services/domain-event-bus';
+export * from './lib/events/services/outbox.poller';
+export * from './lib/imports/import-rows';
+export * from './lib/imports/services/import.service';
+export * from './lib/migrations/migration-files';
+export * from './lib/migrations/migrations.module';
+export * from './lib/migrations/services/migration.service';
+export * from './lib/migrations/services/migration-runner';
 export * from './lib/users/entities/base.entity';
+export * from './lib/users/entities/tenant-scoped.entity';
 export * from './lib/users/entities/user.entity';
 export * from './lib/users/services/base.service';
 export * from './lib/users/services/user.service';
+export * from './lib/users/services/search-index.service';
 export * from './lib/users/dto/user.dto';
+export * from './lib/audit/entities/audit-log.entity';
+export * from './lib/audit/services/audit.service';
+export * from './lib/audit/services/audit.subscriber';
+export * from './lib/utils/audit-diff';
+export * from './lib/utils/bulk-operations';
+export * from './lib/utils/cursor-pagination';
+export * from './lib/utils/export-backend';
+export * from './lib/utils/json-patch';
+export * from './lib/utils/odata-apply-backend';
 export * from './lib/utils/odata-filter-backend';
-export { Repository, Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, ManyToOne, OneToMany, JoinColumn } from 'typeorm';
+export * from './lib/utils/odata-query-backend';
+export * from './lib/utils/query-field-validation';
+export * from './lib/utils/search-backend';
+export { Repository, Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, VersionColumn, ManyToOne, OneToMany, JoinColumn } from 'typeorm';
 export { Injectable, Controller, Get, Post, Put, Delete, Body, Param, Query, UseGuards, UseInterceptors } from '@nestjs/common';
 export { IsEmail, IsNotEmpty, IsOptional, MinLength, MaxLength, IsString, IsNumber } from 'class-validator';
 export { Type } from 'class-transformer';
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { Entity, Column, CreateDateColumn, Index, PrimaryGeneratedColumn } from 'typeorm';
+import { FilterOperator } from '@libs/shared';
+import { Filterable, Sortable } from '../../decorators/query-field.decorators';
+
+/**
+ * Kind of change recorded in the audit trail
+ */
+export type AuditAction = 'create' | 'update' | 'delete' | 'soft-delete' | 'restore';
+
+/**
+ * Field-level diff: the value of each changed property before and after the change
+ */
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+/**
+ * Audit record of a change to an @Audited() entity (never updated or deleted by the application)
+ */
+@Entity('audit_logs')
+@Index(['entity', 'entityId', 'createdAt'])
+export class AuditLog {
+  @PrimaryGeneratedColumn('uuid')
+  @Filterable({ operators: [FilterOperator.EQ, FilterOperator.NE, FilterOperator.IN, FilterOperator.NOT_IN] })
+  id!: string;
+
+  /** Entity name (e.g., User) */
+  @Column({ length: 100 })
+  @Filterable()
+  @Sortable()
+  entity!: string;
+
+  @Column({ length: 100 })
+  @Filterable()
+  entityId!: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  @Filterable()
+  @Sortable()
+  action!: AuditAction;
+
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  changes!: AuditChanges;
+
+  /** Tenant of the entity, for tenant-scoped entities */
+  @Column({ type: 'varchar', length: 128, nullable: true })
+  @Index()
+  tenantId?: string | null;
+
+  /** Acting user, when known */
+  @Column({ type: 'varchar', length: 128, nullable: true })
+  @Filterable()
+  @Sortable()
+  userId?: string | null;
+
+  /** Correlation id of the request that made the change */
+  @Column({ type: 'varchar', length: 128, nullable: true })
+  @Filterable()
+  correlationId?: string | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  @Filterable()
+  @Sortable()
+  createdAt!: Date;
+}
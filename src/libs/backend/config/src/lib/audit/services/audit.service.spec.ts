@@ -0,0 +1,79 @@
+import { Column, DataSource, Entity, FindManyOptions, In, IsNull, Not } from 'typeorm';
+import { AccessDeniedException, RequestContext } from '@libs/backend-common';
+import { BaseEntityWithTimestamps } from '../../users/entities/base.entity';
+import { Audited } from '../../decorators/audited.decorator';
+import { Policy } from '../../decorators/policy.decorator';
+import { AuditLog } from '../entities/audit-log.entity';
+import { AuditService } from './audit.service';
+
+@Audited()
+@Policy([
+  { action: 'read', roles: ['admin'] },
+  { action: 'read', roles: ['member'], conditions: (user) => ({ ownerId: user.id }) },
+])
+@Entity('documents')
+class Document extends BaseEntityWithTimestamps {
+  @Column()
+  ownerId!: string;
+}
+
+@Audited()
+@Entity('notes')
+class Note extends BaseEntityWithTimestamps {
+  @Column()
+  title!: string;
+}
+
+describe('AuditService', () => {
+  // Metadata is built without connecting to a database
+  const dataSource = new DataSource({ type: 'postgres', entities: [AuditLog, Document, Note] });
+  let service: AuditService;
+  let find: jest.SpyInstance;
+
+  const asUser = <R>(user: Record<string, unknown>, work: () => R) =>
+    RequestContext.run({ correlationId: 'c1', userId: user['id'] as string, user }, work);
+  const member = { id: 'u1', roles: ['member'] };
+
+  beforeAll(async () => {
+    await (dataSource as unknown as { buildMetadatas(): Promise<void> }).buildMetadatas();
+  });
+
+  beforeEach(() => {
+    const repository = dataSource.getRepository(AuditLog);
+    find = jest.spyOn(repository, 'find').mockResolvedValue([]);
+    service = new AuditService(repository);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should deny the history of an entity type the read policy does not fully grant', async () => {
+    await expect(asUser(member, () => service.findHistory('Document', undefined, {}))).rejects.toThrow(
+      AccessDeniedException,
+    );
+    expect(find).not.toHaveBeenCalled();
+
+    await asUser({ id: 'a1', roles: ['admin'] }, () => service.findHistory('Document', undefined, {}));
+    expect(find).toHaveBeenCalled();
+  });
+
+  it('should check the history of one entity against the entity', async () => {
+    const findOne = jest
+      .spyOn(dataSource.manager, 'findOne')
+      .mockResolvedValueOnce(Object.assign(new Document(), { id: 'd1', ownerId: 'u1' }))
+      .mockResolvedValueOnce(Object.assign(new Document(), { id: 'd2', ownerId: 'u2' }));
+
+    await asUser(member, () => service.findHistory('Document', 'd1', {}));
+    await expect(asUser(member, () => service.findHistory('Document', 'd2', {}))).rejects.toThrow(
+      'Not allowed to read Document',
+    );
+    expect(findOne).toHaveBeenCalledWith(Document, { where: { id: 'd2' }, withDeleted: true });
+  });
+
+  it('should leave the entity types that are not fully granted out of listings', async () => {
+    await asUser(member, () => service.findHistory(undefined, undefined, {}));
+
+    expect((find.mock.calls[0][0] as FindManyOptions<AuditLog>).where).toEqual([
+      { entity: Not(In(['Document'])), tenantId: IsNull() },
+    ]);
+  });
+});
@@ -0,0 +1,126 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityMetadata, Equal, In, IsNull, Not, ObjectLiteral, Repository } from 'typeorm';
+import { AccessDeniedException } from '@libs/backend-common';
+import { ODataQueryOptions, QueryResponse } from '@libs/shared';
+import { AuditLog } from '../entities/audit-log.entity';
+import { buildNextLink, convertQueryOptionsToFindManyOptions } from '../../utils/odata-query-backend';
+import { addConditionToWhere } from '../../utils/odata-filter-backend';
+import { validateQueryOptions } from '../../utils/query-field-validation';
+import { TenantContext } from '../../tenancy/tenant-context';
+import { getAuditedOptions } from '../../decorators/audited.decorator';
+import { getPolicyRules } from '../../decorators/policy.decorator';
+import { compilePolicy, getCurrentSubject, isActionAllowed } from '../../policies/policy-engine';
+
+/**
+ * Reads the audit trail written by AuditSubscriber
+ */
+@Injectable()
+export class AuditService {
+  constructor(
+    @InjectRepository(AuditLog)
+    private readonly auditLogRepository: Repository<AuditLog>,
+  ) {}
+
+  /**
+   * Find the audit records of an entity type, or of one entity, matching OData query options.
+   * Records of tenant-scoped entities are only found within their tenant (or by system jobs), and records of
+   * entities with @Policy() only when their read rules allow it (see authorizeHistory).
+   * @param entity Entity name (e.g., User)
+   * @param entityId Entity id, to get the history of one entity
+   * @param options Parsed query options ($filter, $orderby, $select, $top, $skip, $count); newest first by default
+   * @param path Request path used to build the next page link
+   * @returns Audit records of the requested page, with the total count when $count=true
+   * @throws AccessDeniedException when the history of the entity type, or of the entity, may not be read
+   */
+  async findHistory(
+    entity: string | undefined,
+    entityId: string | undefined,
+    options: ODataQueryOptions,
+    path?: string,
+  ): Promise<QueryResponse<AuditLog>> {
+    const metadata = this.auditLogRepository.metadata;
+    options = validateQueryOptions(options, metadata);
+    const findOptions = convertQueryOptionsToFindManyOptions<AuditLog>(
+      { ...options, orderBy: options.orderBy?.length ? options.orderBy : [{ prop: 'createdAt', direction: 'desc' }] },
+      metadata,
+    );
+    if (entity) {
+      findOptions.where = addConditionToWhere(findOptions.where, 'entity', Equal(entity));
+    }
+    if (entityId) {
+      findOptions.where = addConditionToWhere(findOptions.where, 'entityId', Equal(entityId));
+    }
+    const denied = await this.authorizeHistory(entity, entityId);
+    if (denied.length > 0) {
+      findOptions.where = addConditionToWhere(findOptions.where, 'entity', Not(In(denied)));
+    }
+    if (!TenantContext.isSystem()) {
+      const tenantId = TenantContext.currentTenantId();
+      findOptions.where = addConditionToWhere(findOptions.where, 'tenantId', tenantId ? Equal(tenantId) : IsNull());
+    }
+
+    let items: AuditLog[];
+    let count: number | undefined;
+    if (options.count) {
+      [items, count] = await this.auditLogRepository.findAndCount(findOptions);
+    } else {
+      items = await this.auditLogRepository.find(findOptions);
+    }
+
+    // The next page keeps the entity and id parameters
+    const scope = new URLSearchParams({
+      ...(entity ? { entity } : {}),
+      ...(entityId ? { id: entityId } : {}),
+    }).toString();
+    const nextLink = path ? buildNextLink(path, options, items.length, count) : undefined;
+
+    return {
+      items,
+      ...(count !== undefined ? { count } : {}),
+      ...(nextLink ? { nextLink: scope ? `${nextLink}&${scope}` : nextLink } : {}),
+    };
+  }
+
+  /**
+   * Check the history requested against the @Policy() read rules of the audited entities: audit records hold
+   * the values of every audited property, so the history of an entity type may only be read by users granted
+   * every entity of the type, and the history of one entity by users granted that entity
+   * @param entity Entity name requested
+   * @param entityId Entity id requested
+   * @returns Names of the entity types whose records must be left out of a listing of every type
+   * @throws AccessDeniedException when the requested entity type or entity is not granted
+   */
+  private async authorizeHistory(entity: string | undefined, entityId: string | undefined): Promise<string[]> {
+    if (TenantContext.isSystem()) {
+      return [];
+    }
+    const subject = getCurrentSubject();
+    const audited = this.auditLogRepository.manager.connection.entityMetadatas.filter(
+      (metadata) => typeof metadata.target === 'function' && getAuditedOptions(metadata.target),
+    );
+    const isGrantedAll = (metadata: EntityMetadata) => {
+      const rules = getPolicyRules(metadata.target as object);
+      return !rules || compilePolicy(rules, 'read', subject).granted === 'all';
+    };
+
+    if (!entity) {
+      return audited.filter((metadata) => !isGrantedAll(metadata)).map((metadata) => metadata.name);
+    }
+    const metadata = audited.find((candidate) => candidate.name === entity);
+    if (!metadata || isGrantedAll(metadata)) {
+      return [];
+    }
+    if (entityId) {
+      // Soft-deleted entities keep their history readable; purged ones are no longer granted to anyone
+      const loaded = await this.auditLogRepository.manager.findOne<ObjectLiteral>(metadata.target, {
+        where: { [metadata.primaryColumns[0].propertyName]: entityId },
+        withDeleted: true,
+      });
+      if (loaded && isActionAllowed(getPolicyRules(metadata.target as object) ?? [], 'read', subject, loaded)) {
+        return [];
+      }
+    }
+    throw new AccessDeniedException('read', entity);
+  }
+}
@@ -0,0 +1,75 @@
+import { Column, DataSource, Entity, PrimaryGeneratedColumn, RemoveEvent, UpdateEvent, ObjectLiteral } from 'typeorm';
+import { RequestContext } from '@libs/backend-common';
+import { Audited } from '../../decorators/audited.decorator';
+import { AuditSubscriber } from './audit.subscriber';
+
+@Audited({ exclude: ['apiKey'] })
+@Entity('accounts')
+class Account {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column()
+  name!: string;
+
+  @Column({ nullable: true })
+  apiKey?: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  tenantId?: string | null;
+}
+
+describe('AuditSubscriber', () => {
+  // Metadata is built without connecting to a database
+  const dataSource = new DataSource({ type: 'postgres', entities: [Account] });
+  const subscriber = new AuditSubscriber({ subscribers: [] } as unknown as DataSource);
+  const insert = jest.fn();
+  const manager = { getRepository: () => ({ insert }) };
+
+  const event = <E>(values: Record<string, unknown>) =>
+    ({ manager, metadata: dataSource.getMetadata(Account), ...values }) as unknown as E;
+  const context = { correlationId: 'c1', userId: 'u1', tenantId: 't1' };
+
+  beforeAll(async () => {
+    await (dataSource as unknown as { buildMetadatas(): Promise<void> }).buildMetadatas();
+  });
+
+  beforeEach(() => insert.mockReset());
+
+  it('should record the diff with the tenant, user and correlation id of the request', async () => {
+    const before = { id: 'a1', name: 'Old', apiKey: 'k1', tenantId: 't1' };
+    const after = { ...before, name: 'New', apiKey: 'k2' };
+
+    await RequestContext.run(context, () =>
+      subscriber.afterUpdate(event<UpdateEvent<ObjectLiteral>>({ databaseEntity: before, entity: after })),
+    );
+    expect(insert).toHaveBeenCalledWith({
+      entity: 'Account',
+      entityId: 'a1',
+      action: 'update',
+      changes: { name: { before: 'Old', after: 'New' } },
+      tenantId: 't1',
+      userId: 'u1',
+      correlationId: 'c1',
+    });
+  });
+
+  it('should skip updates that change no audited property', async () => {
+    const before = { id: 'a1', name: 'Same', apiKey: 'k1', tenantId: null };
+
+    await subscriber.afterUpdate(
+      event<UpdateEvent<ObjectLiteral>>({ databaseEntity: before, entity: { ...before, apiKey: 'k2' } }),
+    );
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('should read the id of removed entities from the event', async () => {
+    // TypeORM clears the primary key of the entity once it is removed
+    const removed = { id: undefined, name: 'Gone', tenantId: 't1' };
+
+    await subscriber.afterRemove(event<RemoveEvent<ObjectLiteral>>({ entity: removed, entityId: { id: 'a1' } }));
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({ entityId: 'a1', action: 'delete', userId: null, correlationId: null }),
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import { Injectable } from '@nestjs/common';
+import {
+  DataSource,
+  EntityManager,
+  EntityMetadata,
+  EntitySubscriberInterface,
+  InsertEvent,
+  ObjectLiteral,
+  RecoverEvent,
+  RemoveEvent,
+  SoftRemoveEvent,
+  UpdateEvent,
+} from 'typeorm';
+import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+import { RequestContext } from '@libs/backend-common';
+import { getAuditedOptions } from '../../decorators/audited.decorator';
+import { diffEntity } from '../../utils/audit-diff';
+import { AuditAction, AuditChanges, AuditLog } from '../entities/audit-log.entity';
+
+/**
+ * Writes an AuditLog for every change to an @Audited() entity.
+ * Records are inserted with the manager of the change, so they are committed or rolled back with it.
+ */
+@Injectable()
+export class AuditSubscriber implements EntitySubscriberInterface {
+  constructor(dataSource: DataSource) {
+    dataSource.subscribers.push(this);
+  }
+
+  async afterInsert(event: InsertEvent<ObjectLiteral>): Promise<void> {
+    await this.record(event.manager, event.metadata, 'create', undefined, event.entity);
+  }
+
+  async afterUpdate(event: UpdateEvent<ObjectLiteral>): Promise<void> {
+    // Updates through the query builder have no loaded state: their previous values are unknown
+    await this.record(event.manager, event.metadata, 'update', event.databaseEntity, event.entity);
+  }
+
+  async afterRemove(event: RemoveEvent<ObjectLiteral>): Promise<void> {
+    // The primary key of removed entities is cleared, so it is read from the event
+    await this.record(event.manager, event.metadata, 'delete', event.databaseEntity ?? event.entity, undefined, event.entityId);
+  }
+
+  async afterSoftRemove(event: SoftRemoveEvent<ObjectLiteral>): Promise<void> {
+    await this.record(event.manager, event.metadata, 'soft-delete', event.databaseEntity, event.entity);
+  }
+
+  async afterRecover(event: RecoverEvent<ObjectLiteral>): Promise<void> {
+    await this.record(event.manager, event.metadata, 'restore', event.databaseEntity, event.entity);
+  }
+
+  private async record(
+    manager: EntityManager,
+    metadata: EntityMetadata,
+    action: AuditAction,
+    before: ObjectLiteral | undefined,
+    after: ObjectLiteral | undefined,
+    entityId?: unknown,
+  ): Promise<void> {
+    const options = typeof metadata.target === 'function' ? getAuditedOptions(metadata.target) : undefined;
+    if (!options) {
+      return;
+    }
+
+    const primaryColumn = metadata.primaryColumns[0];
+    const id =
+      (after && primaryColumn.getEntityValue(after)) ??
+      (before && primaryColumn.getEntityValue(before)) ??
+      (entityId && typeof entityId === 'object' ? primaryColumn.getEntityValue(entityId as ObjectLiteral) : entityId);
+    const changes = diffEntity(metadata, before, after, options.exclude);
+    if (action === 'update' && Object.keys(changes).length === 0) {
+      return;
+    }
+
+    const context = RequestContext.current();
+    const tenantId = (after?.['tenantId'] ?? before?.['tenantId']) as string | undefined;
+    await manager.getRepository(AuditLog).insert({
+      entity: metadata.name,
+      entityId: String(id),
+      action,
+      changes: changes as QueryDeepPartialEntity<AuditChanges>,
+      tenantId: tenantId ?? null,
+      userId: context?.userId ?? null,
+      correlationId: context?.correlationId ?? null,
+    });
+  }
+}
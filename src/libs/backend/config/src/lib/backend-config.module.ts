@@ -3,13 +3,41 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { User } from './users/entities/user.entity';
 import { UserService } from './users/services/user.service';
+import { SearchIndexService } from './users/services/search-index.service';
+import { AuditLog } from './audit/entities/audit-log.entity';
+import { AuditService } from './audit/services/audit.service';
+import { AuditSubscriber } from './audit/services/audit.subscriber';
+import { OutboxEvent } from './events/entities/outbox-event.entity';
+import { DomainEventBus } from './events/services/domain-event-bus';
+import { OutboxPoller } from './events/services/outbox.poller';
+import { TransactionManager } from './transactions/transaction-manager';
+import { CACHE_STORE, CacheStore } from './cache/cache-store';
+import { MemoryCacheStore } from './cache/memory-cache-store';
+import { EntityCache } from './cache/entity-cache';
+import { ImportService } from './imports/services/import.service';
+import { MigrationService } from './migrations/services/migration.service';
+import { MigrationRunner } from './migrations/services/migration-runner';
 import databaseConfig from './config/database.config';
+import queryConfig from './config/query.config';
+import concurrencyConfig from './config/concurrency.config';
+import outboxConfig from './config/outbox.config';
+import cacheConfig, { CacheConfig } from './config/cache.config';
+import importConfig from './config/import.config';
+import migrationsConfig from './config/migrations.config';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [databaseConfig],
+      load: [
+        databaseConfig,
+        queryConfig,
+        concurrencyConfig,
+        outboxConfig,
+        cacheConfig,
+        importConfig,
+        migrationsConfig,
+      ],
       envFilePath: ['.env.local', '.env'],
     }),
     TypeOrmModule.forRootAsync({
@@ -19,15 +47,47 @@ import databaseConfig from './config/database.config';
       }),
       inject: [ConfigService],
     }),
-    TypeOrmModule.forFeature([User]),
+    TypeOrmModule.forFeature([User, AuditLog, OutboxEvent]),
+  ],
+  providers: [
+    TransactionManager,
+    DomainEventBus,
+    OutboxPoller,
+    {
+      provide: CACHE_STORE,
+      useFactory: (configService: ConfigService) =>
+        new MemoryCacheStore(configService.get<CacheConfig>('cache')?.maxEntries ?? 10000),
+      inject: [ConfigService],
+    },
+    EntityCache,
+    ImportService,
+    MigrationService,
+    MigrationRunner,
+    UserService,
+    SearchIndexService,
+    AuditSubscriber,
+    AuditService,
+  ],
+  exports: [
+    ConfigModule,
+    TypeOrmModule,
+    TransactionManager,
+    DomainEventBus,
+    EntityCache,
+    ImportService,
+    MigrationService,
+    UserService,
+    AuditService,
   ],
-  providers: [UserService],
-  exports: [ConfigModule, TypeOrmModule, UserService],
 })
 export class BackendConfigModule {
-  static forRoot() {
+  /**
+   * @param options cacheStore replaces the in-memory cache store (e.g., with a RedisCacheStore)
+   */
+  static forRoot(options?: { cacheStore?: CacheStore }) {
     return {
       module: BackendConfigModule,
+      providers: options?.cacheStore ? [{ provide: CACHE_STORE, useValue: options.cacheStore }] : [],
       global: true,
     };
   }
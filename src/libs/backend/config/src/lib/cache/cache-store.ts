@@ -0,0 +1,24 @@
+/**
+ * Injection token of the CacheStore used by the EntityCache
+ */
+export const CACHE_STORE = Symbol('CACHE_STORE');
+
+/**
+ * Key-value store of serialized cache entries.
+ * Implementations: MemoryCacheStore (default) and RedisCacheStore.
+ */
+export interface CacheStore {
+  /**
+   * Get an entry
+   * @returns Value, or undefined when missing or expired
+   */
+  get(key: string): Promise<string | undefined>;
+
+  /**
+   * Set an entry
+   * @param ttlMs Time to live; entries without one are kept until evicted or deleted
+   */
+  set(key: string, value: string, ttlMs?: number): Promise<void>;
+
+  delete(keys: string[]): Promise<void>;
+}
@@ -0,0 +1,54 @@
+import { EntityMetadata, ObjectLiteral } from 'typeorm';
+
+/**
+ * Column values of an entity as stored in the cache (JSON)
+ */
+export interface EntityCacheEntry {
+  values: Record<string, unknown>;
+  /** Property paths of the values that are dates, stored as ISO strings */
+  dates: string[];
+}
+
+/**
+ * Get the cache entry of an entity: the values of its loaded columns (relations are not cached)
+ * @param metadata Entity metadata
+ * @param entity Entity
+ * @returns Cache entry
+ */
+export function toCacheEntry(metadata: EntityMetadata, entity: ObjectLiteral): EntityCacheEntry {
+  const entry: EntityCacheEntry = { values: {}, dates: [] };
+  metadata.columns.forEach((column) => {
+    const value = column.getEntityValue(entity);
+    if (value === undefined) {
+      return;
+    }
+    if (value instanceof Date) {
+      entry.dates.push(column.propertyPath);
+      entry.values[column.propertyPath] = value.toISOString();
+    } else {
+      entry.values[column.propertyPath] = value;
+    }
+  });
+  return entry;
+}
+
+/**
+ * Rebuild an entity from its cache entry
+ * @param metadata Entity metadata
+ * @param entry Cache entry
+ * @returns New instance of the entity class
+ */
+export function fromCacheEntry<T extends ObjectLiteral>(metadata: EntityMetadata, entry: EntityCacheEntry): T {
+  const entity = metadata.create(undefined, { fromDeserializer: true }) as T;
+  metadata.columns.forEach((column) => {
+    if (!(column.propertyPath in entry.values)) {
+      return;
+    }
+    const value = entry.values[column.propertyPath];
+    column.setEntityValue(
+      entity,
+      entry.dates.includes(column.propertyPath) ? new Date(value as string) : value,
+    );
+  });
+  return entity;
+}
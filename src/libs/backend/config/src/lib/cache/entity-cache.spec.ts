@@ -0,0 +1,76 @@
+import { ConfigService } from '@nestjs/config';
+import { Column, CreateDateColumn, DataSource, Entity, EntityMetadata, PrimaryGeneratedColumn } from 'typeorm';
+import { LoggerService } from '@libs/backend-common';
+import { Cacheable } from '../decorators/cacheable.decorator';
+import { CacheConfig } from '../config/cache.config';
+import { EntityCache } from './entity-cache';
+import { MemoryCacheStore } from './memory-cache-store';
+
+@Entity('products')
+@Cacheable({ lists: true })
+class Product {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column()
+  name!: string;
+
+  @Column({ type: 'jsonb', nullable: true })
+  tags?: string[];
+
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt!: Date;
+}
+
+describe('EntityCache', () => {
+  const config: CacheConfig = { enabled: true, maxEntries: 100, defaultTtlMs: 60000, statsIntervalMs: 0 };
+  const logger = { log: jest.fn(), warn: jest.fn() } as unknown as LoggerService;
+  // Metadata is built without connecting to a database
+  const dataSource = new DataSource({ type: 'postgres', entities: [Product] });
+  let metadata: EntityMetadata;
+  let cache: EntityCache;
+
+  const product = () =>
+    Object.assign(new Product(), { id: 'p1', name: 'Lamp', tags: ['home'], createdAt: new Date('2026-01-01T10:00:00Z') });
+
+  beforeAll(async () => {
+    await (dataSource as unknown as { buildMetadatas(): Promise<void> }).buildMetadatas();
+    metadata = dataSource.getMetadata(Product);
+  });
+
+  beforeEach(() => {
+    cache = new EntityCache(new MemoryCacheStore(config.maxEntries), { get: () => config } as unknown as ConfigService, logger);
+  });
+
+  it('should load entities once and rebuild copies from the cache', async () => {
+    const load = jest.fn(async () => product());
+
+    await cache.getEntity(metadata, 'p1', load);
+    const cached = await cache.getEntity(metadata, 'p1', load);
+    cached.tags?.push('changed');
+    const again = await cache.getEntity(metadata, 'p1', load);
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(again).toBeInstanceOf(Product);
+    expect(again).toEqual(product());
+    expect(cache.getStats()).toEqual({ Product: { hits: 2, misses: 1, hitRate: 2 / 3 } });
+  });
+
+  it('should invalidate the changed entities and every cached list', async () => {
+    const loadEntity = jest.fn(async () => product());
+    const loadList = jest.fn(async () => ({ items: [product()], count: 1 }));
+    const query = { options: { top: 10 } };
+
+    await cache.getEntity(metadata, 'p1', loadEntity);
+    await cache.getList(metadata, query, loadList);
+    expect(await cache.getList(metadata, query, loadList)).toEqual({ items: [product()], count: 1 });
+    expect(loadList).toHaveBeenCalledTimes(1);
+
+    await cache.invalidate(metadata, ['p1']);
+    await cache.getEntity(metadata, 'p1', loadEntity);
+    await cache.getList(metadata, query, loadList);
+
+    expect(loadEntity).toHaveBeenCalledTimes(2);
+    expect(loadList).toHaveBeenCalledTimes(2);
+  });
+});
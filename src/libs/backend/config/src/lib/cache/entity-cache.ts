@@ -0,0 +1,238 @@
+import { createHash, randomUUID } from 'crypto';
+import { Inject, Injectable, OnApplicationBootstrap, OnApplicationShutdown } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EntityMetadata, ObjectLiteral } from 'typeorm';
+import { QueryResponse } from '@libs/shared';
+import { LoggerService } from '@libs/backend-common';
+import cacheConfig, { CacheConfig } from '../config/cache.config';
+import { CacheableOptions, getCacheableOptions } from '../decorators/cacheable.decorator';
+import { TransactionManager } from '../transactions/transaction-manager';
+import { CACHE_STORE, CacheStore } from './cache-store';
+import { EntityCacheEntry, fromCacheEntry, toCacheEntry } from './entity-cache-entry';
+
+/**
+ * Cache lookups of an entity
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /** Hits over lookups, from 0 to 1 */
+  hitRate: number;
+}
+
+/**
+ * Read-through cache of @Cacheable() entities, used by BaseService.
+ * Reads within a transaction bypass the cache, so they see the transaction's own changes.
+ * List entries are keyed on a generation token of the entity, which changes on every write,
+ * so that any change invalidates all cached lists of the entity at once.
+ */
+@Injectable()
+export class EntityCache implements OnApplicationBootstrap, OnApplicationShutdown {
+  private static instance?: EntityCache;
+  private readonly stats = new Map<string, { hits: number; misses: number }>();
+  private loggedLookups = 0;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    @Inject(CACHE_STORE) private readonly store: CacheStore,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {
+    EntityCache.instance = this;
+  }
+
+  /**
+   * Get the entity cache, for code that is not created by the injector (e.g., BaseService)
+   * @returns Entity cache, or undefined when BackendConfigModule is not imported
+   */
+  static current(): EntityCache | undefined {
+    return EntityCache.instance;
+  }
+
+  private get config(): CacheConfig {
+    return this.configService.get<CacheConfig>('cache') ?? cacheConfig();
+  }
+
+  onApplicationBootstrap(): void {
+    const { statsIntervalMs } = this.config;
+    if (statsIntervalMs > 0) {
+      this.timer = setInterval(() => this.logStats(), statsIntervalMs);
+      this.timer.unref();
+    }
+  }
+
+  onApplicationShutdown(): void {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Get an entity by id from the cache, or load and cache it
+   * @param metadata Entity metadata
+   * @param id Entity id
+   * @param load Loads the entity from the database
+   * @returns Entity
+   */
+  async getEntity<T extends ObjectLiteral>(metadata: EntityMetadata, id: string, load: () => Promise<T>): Promise<T> {
+    const options = this.getOptions(metadata);
+    if (!options) {
+      return await load();
+    }
+
+    return await this.readThrough(
+      metadata,
+      this.entityKey(metadata, id),
+      options,
+      load,
+      (entity) => JSON.stringify(toCacheEntry(metadata, entity)),
+      (value) => fromCacheEntry<T>(metadata, JSON.parse(value)),
+    );
+  }
+
+  /**
+   * Get the response of a list query from the cache, or load and cache it (entities with lists: true only)
+   * @param metadata Entity metadata
+   * @param query Normalized query (e.g., the parsed query options), which keys the entry
+   * @param load Runs the query
+   * @returns Query response
+   */
+  async getList<T extends ObjectLiteral>(
+    metadata: EntityMetadata,
+    query: unknown,
+    load: () => Promise<QueryResponse<T>>,
+  ): Promise<QueryResponse<T>> {
+    const options = this.getOptions(metadata);
+    if (!options?.lists) {
+      return await load();
+    }
+
+    const generation = await this.getListGeneration(metadata);
+    const hash = createHash('sha256').update(JSON.stringify(query)).digest('base64url');
+
+    return await this.readThrough(
+      metadata,
+      `${metadata.name}:list:${generation}:${hash}`,
+      options,
+      load,
+      (response) => JSON.stringify({ ...response, items: response.items.map((item) => toCacheEntry(metadata, item)) }),
+      (value) => {
+        const response = JSON.parse(value) as QueryResponse<EntityCacheEntry>;
+        return { ...response, items: response.items.map((item) => fromCacheEntry<T>(metadata, item)) };
+      },
+    );
+  }
+
+  /**
+   * Invalidate the cached entities with the given ids and every cached list of the entity
+   * @param metadata Entity metadata
+   * @param ids Ids of the changed entities
+   */
+  async invalidate(metadata: EntityMetadata, ids: string[]): Promise<void> {
+    const options = typeof metadata.target === 'function' ? getCacheableOptions(metadata.target) : undefined;
+    if (!options || !this.config.enabled) {
+      return;
+    }
+
+    await this.tryStore(() => this.store.delete(ids.map((id) => this.entityKey(metadata, id))));
+    if (options.lists) {
+      await this.tryStore(() => this.store.set(this.listGenerationKey(metadata), randomUUID()));
+    }
+  }
+
+  /**
+   * Get the hit/miss stats of each entity since the application started
+   * @returns Stats keyed by entity name
+   */
+  getStats(): Record<string, CacheStats> {
+    return Object.fromEntries(
+      [...this.stats].map(([entity, { hits, misses }]) => [
+        entity,
+        { hits, misses, hitRate: hits + misses > 0 ? hits / (hits + misses) : 0 },
+      ]),
+    );
+  }
+
+  /**
+   * Log the hit/miss stats, when there were lookups since the last log
+   */
+  logStats(): void {
+    const lookups = [...this.stats.values()].reduce((total, { hits, misses }) => total + hits + misses, 0);
+    if (lookups === this.loggedLookups) {
+      return;
+    }
+    this.loggedLookups = lookups;
+    this.logger.log('Entity cache stats', { module: 'EntityCache', stats: this.getStats() });
+  }
+
+  /**
+   * Get the cache options of an entity
+   * @returns Options, or undefined when the entity is not cached, caching is disabled or a transaction is active
+   */
+  private getOptions(metadata: EntityMetadata): CacheableOptions | undefined {
+    if (!this.config.enabled || TransactionManager.current() || typeof metadata.target !== 'function') {
+      return undefined;
+    }
+    return getCacheableOptions(metadata.target);
+  }
+
+  private async readThrough<R>(
+    metadata: EntityMetadata,
+    key: string,
+    options: CacheableOptions,
+    load: () => Promise<R>,
+    serialize: (value: R) => string,
+    deserialize: (value: string) => R,
+  ): Promise<R> {
+    const stats = this.stats.get(metadata.name) ?? { hits: 0, misses: 0 };
+    this.stats.set(metadata.name, stats);
+
+    const cached = await this.tryStore(() => this.store.get(key));
+    if (cached !== undefined) {
+      stats.hits++;
+      return deserialize(cached);
+    }
+
+    stats.misses++;
+    const value = await load();
+    await this.tryStore(() => this.store.set(key, serialize(value), options.ttlMs ?? this.config.defaultTtlMs));
+    return value;
+  }
+
+  /**
+   * Get the current list generation token of an entity, creating it when missing
+   * @returns Token
+   */
+  private async getListGeneration(metadata: EntityMetadata): Promise<string> {
+    const key = this.listGenerationKey(metadata);
+    const generation = await this.tryStore(() => this.store.get(key));
+    if (generation) {
+      return generation;
+    }
+    // A missing token (e.g., evicted) starts a new generation, so lists cached before are never read again
+    const created = randomUUID();
+    await this.tryStore(() => this.store.set(key, created));
+    return created;
+  }
+
+  private entityKey(metadata: EntityMetadata, id: string): string {
+    return `${metadata.name}:id:${id}`;
+  }
+
+  private listGenerationKey(metadata: EntityMetadata): string {
+    return `${metadata.name}:list-generation`;
+  }
+
+  /**
+   * Run a store operation; a failing store (e.g., Redis down) is logged and treated as a miss
+   */
+  private async tryStore<R>(operation: () => Promise<R>): Promise<R | undefined> {
+    try {
+      return await operation();
+    } catch (error) {
+      this.logger.warn('Cache store operation failed', {
+        module: 'EntityCache',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+}
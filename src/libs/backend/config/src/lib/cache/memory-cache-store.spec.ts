@@ -0,0 +1,30 @@
+import { MemoryCacheStore } from './memory-cache-store';
+
+describe('MemoryCacheStore', () => {
+  it('should evict the least recently used entries', async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set('a', '1');
+    await store.set('b', '2');
+    await store.get('a');
+    await store.set('c', '3');
+
+    expect(await store.get('a')).toBe('1');
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBe('3');
+  });
+
+  it('should expire entries after their time to live', async () => {
+    jest.useFakeTimers({ now: 0 });
+    try {
+      const store = new MemoryCacheStore(10);
+      await store.set('a', '1', 1000);
+      await store.set('b', '2');
+      jest.setSystemTime(1000);
+
+      expect(await store.get('a')).toBeUndefined();
+      expect(await store.get('b')).toBe('2');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
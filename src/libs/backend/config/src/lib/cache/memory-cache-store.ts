@@ -0,0 +1,36 @@
+import { CacheStore } from './cache-store';
+
+/**
+ * In-process CacheStore that evicts the least recently used entries beyond maxEntries
+ */
+export class MemoryCacheStore implements CacheStore {
+  // Map keeps insertion order: entries are moved to the end when read, so the first one is the least recently used
+  private readonly entries = new Map<string, { value: string; expiresAt?: number }>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  async get(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs?: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: ttlMs ? Date.now() + ttlMs : undefined });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.entries.delete(key));
+  }
+}
@@ -0,0 +1,39 @@
+import { CacheStore } from './cache-store';
+
+/**
+ * Subset of the Redis client API used by RedisCacheStore (as in ioredis)
+ */
+export interface RedisClientLike {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ...args: (string | number)[]): Promise<unknown>;
+  del(...keys: string[]): Promise<number>;
+}
+
+/**
+ * CacheStore on Redis, shared by every instance of the application.
+ * Provide it with BackendConfigModule.forRoot({ cacheStore: new RedisCacheStore(new Redis(...)) }).
+ */
+export class RedisCacheStore implements CacheStore {
+  constructor(
+    private readonly client: RedisClientLike,
+    private readonly prefix = 'cache:',
+  ) {}
+
+  async get(key: string): Promise<string | undefined> {
+    return (await this.client.get(this.prefix + key)) ?? undefined;
+  }
+
+  async set(key: string, value: string, ttlMs?: number): Promise<void> {
+    if (ttlMs) {
+      await this.client.set(this.prefix + key, value, 'PX', ttlMs);
+    } else {
+      await this.client.set(this.prefix + key, value);
+    }
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length > 0) {
+      await this.client.del(...keys.map((key) => this.prefix + key));
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { registerAs } from '@nestjs/config';
+import { readInt } from './env.utils';
+
+/**
+ * Read-through cache settings
+ */
+export interface CacheConfig {
+  /** Use the cache for @Cacheable() entities */
+  enabled: boolean;
+  /** Entries kept by the in-memory store before evicting the least recently used */
+  maxEntries: number;
+  /** Time to live of entries of entities without their own */
+  defaultTtlMs: number;
+  /** Time between hit/miss stats logs; 0 disables them */
+  statsIntervalMs: number;
+}
+
+export default registerAs('cache', (): CacheConfig => ({
+  enabled: process.env['CACHE_ENABLED'] !== 'false',
+  maxEntries: readInt('CACHE_MAX_ENTRIES', 10000),
+  defaultTtlMs: readInt('CACHE_DEFAULT_TTL_MS', 60000),
+  statsIntervalMs: readInt('CACHE_STATS_INTERVAL_MS', 300000),
+}));
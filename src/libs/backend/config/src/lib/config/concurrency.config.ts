@@ -0,0 +1,13 @@
+import { registerAs } from '@nestjs/config';
+
+/**
+ * Optimistic concurrency settings
+ */
+export interface ConcurrencyConfig {
+  /** Reject updates without an If-Match header (428) */
+  requireIfMatch: boolean;
+}
+
+export default registerAs('concurrency', (): ConcurrencyConfig => ({
+  requireIfMatch: process.env['CONCURRENCY_REQUIRE_IF_MATCH'] !== 'false',
+}));
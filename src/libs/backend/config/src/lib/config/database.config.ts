@@ -1,14 +1,21 @@
 import { registerAs } from '@nestjs/config';
+import { MIGRATIONS } from '../migrations/history';
+import { readInt } from './env.utils';
 
 export default registerAs('database', () => ({
   type: 'postgres' as const,
   host: process.env['DB_HOST'] || 'localhost',
-  port: parseInt(process.env['DB_PORT'] || '5432', 10),
+  port: readInt('DB_PORT', 5432),
   username: process.env['DB_USERNAME'] || 'postgres',
   password: process.env['DB_PASSWORD'] || 'password',
   database: process.env['DB_DATABASE'] || 'nest_monorepo',
   entities: [__dirname + '/../**/*.entity{.ts,.js}'],
-  synchronize: process.env['NODE_ENV'] !== 'production',
+  migrations: MIGRATIONS,
+  migrationsTableName: 'migrations',
+  // A failed migration is rolled back on its own; the ones before it stay applied
+  migrationsTransactionMode: 'each' as const,
+  // The schema comes from migrations; synchronization is only meant for throwaway databases
+  synchronize: process.env['DB_SYNCHRONIZE'] === 'true',
   logging: process.env['NODE_ENV'] === 'development',
   dropSchema: false,
   ssl: process.env['NODE_ENV'] === 'production' ? { rejectUnauthorized: false } : false,
@@ -0,0 +1,22 @@
+import { readInt } from './env.utils';
+
+describe('readInt', () => {
+  afterEach(() => {
+    delete process.env['TEST_INT'];
+  });
+
+  it('should read integers and fall back when unset or empty', () => {
+    expect(readInt('TEST_INT', 5)).toBe(5);
+    process.env['TEST_INT'] = '';
+    expect(readInt('TEST_INT', 5)).toBe(5);
+    process.env['TEST_INT'] = ' 250 ';
+    expect(readInt('TEST_INT', 5)).toBe(250);
+  });
+
+  it('should reject values that are not integers', () => {
+    process.env['TEST_INT'] = '10s';
+    expect(() => readInt('TEST_INT', 5)).toThrow("TEST_INT must be an integer, got '10s'");
+    process.env['TEST_INT'] = '1.5';
+    expect(() => readInt('TEST_INT', 5)).toThrow(Error);
+  });
+});
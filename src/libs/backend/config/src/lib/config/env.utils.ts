@@ -0,0 +1,23 @@
+/**
+ * Environment Utilities
+ * Read typed settings from environment variables in the config factories
+ */
+
+/**
+ * Read an integer setting
+ * @param name Environment variable
+ * @param fallback Value used when the variable is unset or empty
+ * @returns Integer value
+ * @throws Error when the variable is not an integer, so that a misconfigured setting fails at startup
+ */
+export function readInt(name: string, fallback: number): number {
+  const raw = process.env[name]?.trim();
+  if (!raw) {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value)) {
+    throw new Error(`${name} must be an integer, got '${raw}'`);
+  }
+  return value;
+}
@@ -0,0 +1,23 @@
+import { registerAs } from '@nestjs/config';
+import { readInt } from './env.utils';
+
+/**
+ * Bulk import settings
+ */
+export interface ImportConfig {
+  /** Valid rows created per transaction */
+  batchSize: number;
+  /** Largest file accepted */
+  maxFileBytes: number;
+  /** Invalid or failed rows listed in a report; the others are only counted */
+  maxReportedErrors: number;
+  /** Time a finished background import stays available to its progress endpoint */
+  jobTtlMs: number;
+}
+
+export default registerAs('import', (): ImportConfig => ({
+  batchSize: readInt('IMPORT_BATCH_SIZE', 500),
+  maxFileBytes: readInt('IMPORT_MAX_FILE_BYTES', 52428800),
+  maxReportedErrors: readInt('IMPORT_MAX_REPORTED_ERRORS', 1000),
+  jobTtlMs: readInt('IMPORT_JOB_TTL_MS', 3600000),
+}));
@@ -0,0 +1,20 @@
+import { registerAs } from '@nestjs/config';
+import { readInt } from './env.utils';
+
+/**
+ * Settings of schema migrations
+ */
+export interface MigrationsConfig {
+  /** Run the pending migrations when the API starts */
+  runOnBoot: boolean;
+  /** Time to wait for another instance running migrations before giving up */
+  lockTimeoutMs: number;
+  /** Directory generated migrations are written to, relative to the working directory */
+  directory: string;
+}
+
+export default registerAs('migrations', (): MigrationsConfig => ({
+  runOnBoot: process.env['MIGRATIONS_RUN_ON_BOOT'] === 'true',
+  lockTimeoutMs: readInt('MIGRATIONS_LOCK_TIMEOUT_MS', 60000),
+  directory: process.env['MIGRATIONS_DIR'] || 'src/libs/backend/config/src/lib/migrations/history',
+}));
@@ -0,0 +1,32 @@
+import { registerAs } from '@nestjs/config';
+import { readInt } from './env.utils';
+
+/**
+ * Delivery settings of the transactional outbox
+ */
+export interface OutboxConfig {
+  /** Poll the outbox for pending events (retries and events left behind by a crash) */
+  pollerEnabled: boolean;
+  /** Time between polls */
+  pollIntervalMs: number;
+  /** Events claimed per poll */
+  batchSize: number;
+  /** Failed attempts after which an event is dead-lettered */
+  maxAttempts: number;
+  /** Delay of the first retry, doubled on each further attempt */
+  retryDelayMs: number;
+  /** Longest delay between retries */
+  maxRetryDelayMs: number;
+  /** Time a claimed event is reserved for the instance delivering it */
+  leaseMs: number;
+}
+
+export default registerAs('outbox', (): OutboxConfig => ({
+  pollerEnabled: process.env['OUTBOX_POLLER_ENABLED'] !== 'false',
+  pollIntervalMs: readInt('OUTBOX_POLL_INTERVAL_MS', 1000),
+  batchSize: readInt('OUTBOX_BATCH_SIZE', 100),
+  maxAttempts: readInt('OUTBOX_MAX_ATTEMPTS', 5),
+  retryDelayMs: readInt('OUTBOX_RETRY_DELAY_MS', 1000),
+  maxRetryDelayMs: readInt('OUTBOX_MAX_RETRY_DELAY_MS', 300000),
+  leaseMs: readInt('OUTBOX_LEASE_MS', 60000),
+}));
@@ -0,0 +1,22 @@
+import { registerAs } from '@nestjs/config';
+import { DEFAULT_FILTER_LIMITS } from '../utils/odata-filter-backend';
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_EXPAND_DEPTH,
+  MAX_PAGE_SIZE,
+  QueryOptionsLimits,
+} from '../utils/odata-query-backend';
+import { readInt } from './env.utils';
+
+export default registerAs('query', (): QueryOptionsLimits => ({
+  defaultTop: readInt('QUERY_DEFAULT_TOP', DEFAULT_PAGE_SIZE),
+  maxTop: readInt('QUERY_MAX_TOP', MAX_PAGE_SIZE),
+  maxExpandDepth: readInt('QUERY_MAX_EXPAND_DEPTH', MAX_EXPAND_DEPTH),
+  filter: {
+    maxDepth: readInt('QUERY_FILTER_MAX_DEPTH', DEFAULT_FILTER_LIMITS.maxDepth),
+    maxPredicates: readInt('QUERY_FILTER_MAX_PREDICATES', DEFAULT_FILTER_LIMITS.maxPredicates),
+    maxInListLength: readInt('QUERY_FILTER_MAX_IN_LIST', DEFAULT_FILTER_LIMITS.maxInListLength),
+    maxStringLength: readInt('QUERY_FILTER_MAX_STRING_LENGTH', DEFAULT_FILTER_LIMITS.maxStringLength),
+    maxBranches: readInt('QUERY_FILTER_MAX_BRANCHES', DEFAULT_FILTER_LIMITS.maxBranches),
+  },
+}));
@@ -0,0 +1,80 @@
+import { RequestMethod } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { METHOD_METADATA, PATH_METADATA } from '@nestjs/common/constants';
+import { IsString } from 'class-validator';
+import { BaseService } from '../users/services/base.service';
+import { BaseEntityWithTimestamps } from '../users/entities/base.entity';
+import { createCrudController } from './crud-controller.factory';
+
+class Note extends BaseEntityWithTimestamps {
+  text!: string;
+}
+
+class NoteService extends BaseService<Note> {}
+
+class CreateNoteDto {
+  @IsString()
+  text!: string;
+}
+
+class UpdateNoteDto {
+  @IsString()
+  text?: string;
+}
+
+function routeOf(controller: { prototype: object }, handler: string) {
+  const target = (controller.prototype as Record<string, unknown>)[handler] as object;
+  return { path: Reflect.getMetadata(PATH_METADATA, target), method: Reflect.getMetadata(METHOD_METADATA, target) };
+}
+
+describe('createCrudController', () => {
+  it('should expose every route by default', () => {
+    const controller = createCrudController(NoteService, { create: CreateNoteDto, update: UpdateNoteDto });
+
+    expect(routeOf(controller, 'findAll')).toEqual({ path: '/', method: RequestMethod.GET });
+    expect(routeOf(controller, 'export')).toEqual({ path: 'export', method: RequestMethod.GET });
+    expect(routeOf(controller, 'findOne')).toEqual({ path: ':id', method: RequestMethod.GET });
+    expect(routeOf(controller, 'create')).toEqual({ path: '/', method: RequestMethod.POST });
+    expect(routeOf(controller, 'update')).toEqual({ path: ':id', method: RequestMethod.PUT });
+    expect(routeOf(controller, 'patch')).toEqual({ path: ':id', method: RequestMethod.PATCH });
+    expect(routeOf(controller, 'remove')).toEqual({ path: ':id', method: RequestMethod.DELETE });
+  });
+
+  it('should validate bodies with the given DTOs', () => {
+    const controller = createCrudController(NoteService, { create: CreateNoteDto, update: UpdateNoteDto });
+
+    expect(Reflect.getMetadata('design:paramtypes', controller.prototype, 'create')).toEqual([CreateNoteDto]);
+    expect(Reflect.getMetadata('design:paramtypes', controller.prototype, 'update')[1]).toBe(UpdateNoteDto);
+  });
+
+  it('should apply patches by content type and validate the result with the create DTO', async () => {
+    const controller = createCrudController(NoteService, { create: CreateNoteDto, update: UpdateNoteDto });
+    const patch = jest.fn();
+    const instance = new controller({ patch } as unknown as NoteService, {
+      get: () => ({ requireIfMatch: false }),
+    } as unknown as ConfigService);
+
+    await instance.patch('n1', [{ op: 'remove', path: '/text' }], 'application/json-patch+json', '"3"');
+
+    expect(patch).toHaveBeenCalledWith(
+      'n1',
+      { kind: 'json-patch', operations: [{ op: 'remove', path: '/text' }] },
+      CreateNoteDto,
+      3,
+    );
+    // The pipe must not validate the patch itself with a DTO
+    expect(Reflect.getMetadata('design:paramtypes', controller.prototype, 'patch')[1]).toBe(Object);
+  });
+
+  it('should only expose the given routes', () => {
+    const controller = createCrudController(NoteService, {
+      create: CreateNoteDto,
+      update: UpdateNoteDto,
+      routes: ['list', 'get'],
+    });
+
+    expect(routeOf(controller, 'findOne').path).toBe(':id');
+    expect(routeOf(controller, 'create').path).toBeUndefined();
+    expect(routeOf(controller, 'remove').path).toBeUndefined();
+  });
+});
@@ -0,0 +1,299 @@
+import {
+  Body,
+  Delete,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Inject,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Query,
+  Req,
+  Res,
+  Type,
+  UseInterceptors,
+  applyDecorators,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ApiBody,
+  ApiConsumes,
+  ApiHeader,
+  ApiOperation,
+  ApiParam,
+  ApiProduces,
+  ApiQuery,
+  ApiResponse,
+} from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { DeepPartial } from 'typeorm';
+import { QueryResponse } from '@libs/shared';
+import { ETagInterceptor, parseIfMatch } from '@libs/backend-common';
+import { BaseEntityWithTimestamps } from '../users/entities/base.entity';
+import { BaseService } from '../users/services/base.service';
+import { ConcurrencyConfig } from '../config/concurrency.config';
+import { QueryOptionsLimits, parseQueryOptionsFromQuery } from '../utils/odata-query-backend';
+import { EXPORT_CONTENT_TYPES, resolveExportFormat, writeExport } from '../utils/export-backend';
+import { JSON_PATCH_CONTENT_TYPE, MERGE_PATCH_CONTENT_TYPE, parsePatchRequest } from '../utils/json-patch';
+
+/**
+ * Routes generated by createCrudController()
+ */
+export type CrudRoute = 'list' | 'export' | 'get' | 'create' | 'update' | 'patch' | 'delete';
+
+export const CRUD_ROUTES: CrudRoute[] = ['list', 'export', 'get', 'create', 'update', 'patch', 'delete'];
+
+/**
+ * Options of createCrudController()
+ */
+export interface CrudControllerOptions {
+  /** DTO validating the body of create */
+  create: Type<object>;
+  /** DTO validating the body of update */
+  update: Type<object>;
+  /** DTO validating the state of an entity after a patch; defaults to create */
+  patch?: Type<object>;
+  /** Routes to expose; defaults to every route */
+  routes?: CrudRoute[];
+}
+
+/**
+ * Handlers of the generated CRUD controller; subclasses override a route by redeclaring its handler with its decorators
+ */
+export interface CrudController<T extends BaseEntityWithTimestamps> {
+  readonly service: BaseService<T>;
+  readonly configService: ConfigService;
+  /** Limits of the query config, applied when parsing query options */
+  readonly queryLimits: QueryOptionsLimits | undefined;
+  /** Whether updates require If-Match, from the concurrency config */
+  readonly requireIfMatch: boolean;
+  findAll(query: Record<string, any>, request: Request): Promise<QueryResponse<T> | QueryResponse<Record<string, unknown>>>;
+  export(query: Record<string, any>, accept: string | undefined, response: Response): Promise<void>;
+  findOne(id: string, query: Record<string, any>): Promise<T>;
+  create(dto: DeepPartial<T>): Promise<T>;
+  update(id: string, dto: DeepPartial<T>, ifMatch?: string): Promise<T>;
+  patch(id: string, body: unknown, contentType: string | undefined, ifMatch?: string): Promise<T>;
+  remove(id: string): Promise<void>;
+}
+
+const ID_PARAM = ApiParam({ name: 'id', description: 'Entity id' });
+const IF_MATCH_HEADER = ApiHeader({ name: 'If-Match', required: false, description: 'ETag of the version being updated, e.g. "3"' });
+const QUERY_OPTION_DOCS = [
+  ApiQuery({ name: '$filter', required: false, description: "e.g. isActive eq true and email endswith '@test.com'" }),
+  ApiQuery({ name: '$orderby', required: false, description: 'e.g. lastName asc,createdAt desc' }),
+  ApiQuery({ name: '$select', required: false, description: 'e.g. firstName,lastName' }),
+  ApiQuery({ name: '$expand', required: false, description: 'e.g. orders($filter=total gt 10)' }),
+  ApiQuery({ name: '$search', required: false, description: 'Full-text search (entities with a search vector)' }),
+  ApiQuery({ name: '$apply', required: false, description: 'e.g. groupby((isActive),aggregate($count as total))' }),
+  ApiQuery({ name: '$top', required: false, type: Number }),
+  ApiQuery({ name: '$skip', required: false, type: Number }),
+  ApiQuery({ name: '$count', required: false, type: Boolean }),
+];
+
+/**
+ * Create a controller exposing the CRUD routes of a BaseService:
+ * list (OData query options), get, create, update (PUT), patch (JSON Merge Patch or JSON Patch) and delete (soft delete).
+ * The path and tags are given by the subclass:
+ *
+ * @example
+ * @ApiTags('products')
+ * @Controller('products')
+ * export class ProductsController extends createCrudController(ProductService, {
+ *   create: CreateProductDto,
+ *   update: UpdateProductDto,
+ * }) {}
+ *
+ * @param service Service of the entity (injected)
+ * @param options DTOs and exposed routes
+ * @returns Controller class to extend
+ */
+export function createCrudController<T extends BaseEntityWithTimestamps>(
+  service: Type<BaseService<T>>,
+  options: CrudControllerOptions,
+): Type<CrudController<T>> {
+  const routes = new Set(options.routes ?? CRUD_ROUTES);
+
+  class GeneratedCrudController implements CrudController<T> {
+    constructor(
+      @Inject(service) readonly service: BaseService<T>,
+      @Inject(ConfigService) readonly configService: ConfigService,
+    ) {}
+
+    get queryLimits(): QueryOptionsLimits | undefined {
+      return this.configService.get<QueryOptionsLimits>('query');
+    }
+
+    get requireIfMatch(): boolean {
+      return this.configService.get<ConcurrencyConfig>('concurrency')?.requireIfMatch ?? true;
+    }
+
+    async findAll(
+      @Query() query: Record<string, any>,
+      @Req() request: Request,
+    ): Promise<QueryResponse<T> | QueryResponse<Record<string, unknown>>> {
+      const queryOptions = parseQueryOptionsFromQuery(query, this.queryLimits);
+      const path = request.originalUrl.split('?')[0];
+      if (queryOptions.apply) {
+        return await this.service.aggregate(queryOptions, path);
+      }
+      return await this.service.findWithQueryOptions(queryOptions, path);
+    }
+
+    // Declared before findOne, so that GET export is not taken for an id
+    async export(
+      @Query() query: Record<string, any>,
+      @Headers('accept') accept: string | undefined,
+      @Res() response: Response,
+    ): Promise<void> {
+      const format = resolveExportFormat(query['format'], accept);
+      const { name, columns, rows } = await this.service.exportWithQueryOptions(
+        parseQueryOptionsFromQuery(query, this.queryLimits),
+      );
+
+      response.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+      response.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${name}-${new Date().toISOString().slice(0, 10)}.${format}"`,
+      );
+      try {
+        await writeExport(format, columns, rows, response);
+      } catch (error) {
+        // Once rows were sent, the error cannot be reported in the response: the download is cut short instead
+        if (!response.headersSent) {
+          throw error;
+        }
+        response.destroy(error as Error);
+      }
+    }
+
+    async findOne(@Param('id') id: string, @Query() query: Record<string, any>): Promise<T> {
+      return await this.service.findByIdWithQueryOptions(id, parseQueryOptionsFromQuery(query, this.queryLimits));
+    }
+
+    async create(@Body() dto: DeepPartial<T>): Promise<T> {
+      return await this.service.create(dto);
+    }
+
+    async update(
+      @Param('id') id: string,
+      @Body() dto: DeepPartial<T>,
+      @Headers('if-match') ifMatch?: string,
+    ): Promise<T> {
+      return await this.service.update(id, dto, parseIfMatch(ifMatch, this.requireIfMatch));
+    }
+
+    async patch(
+      @Param('id') id: string,
+      @Body() body: unknown,
+      @Headers('content-type') contentType: string | undefined,
+      @Headers('if-match') ifMatch?: string,
+    ): Promise<T> {
+      return await this.service.patch(
+        id,
+        parsePatchRequest(contentType, body),
+        options.patch ?? options.create,
+        parseIfMatch(ifMatch, this.requireIfMatch),
+      );
+    }
+
+    async remove(@Param('id') id: string): Promise<void> {
+      await this.service.softDelete(id);
+    }
+  }
+
+  const prototype = GeneratedCrudController.prototype;
+
+  // Bodies are validated with the DTOs, since generic parameter types carry no runtime type
+  Reflect.defineMetadata('design:paramtypes', [options.create], prototype, 'create');
+  Reflect.defineMetadata('design:paramtypes', [String, options.update, String], prototype, 'update');
+  // Patches are validated once applied, with the patch DTO
+  Reflect.defineMetadata('design:paramtypes', [String, Object, String, String], prototype, 'patch');
+
+  // Only the enabled routes get route metadata; the other handlers are not exposed
+  const expose = (route: CrudRoute, handler: keyof CrudController<T>, ...decorators: MethodDecorator[]) => {
+    if (!routes.has(route)) {
+      return;
+    }
+    const descriptor = Object.getOwnPropertyDescriptor(prototype, handler);
+    if (!descriptor) {
+      throw new Error(`CRUD controller has no '${String(handler)}' handler for the '${route}' route`);
+    }
+    applyDecorators(...decorators)(prototype, handler, descriptor);
+  };
+
+  expose('list', 'findAll', Get(), ApiOperation({ summary: 'List with OData query options' }), ...QUERY_OPTION_DOCS);
+  expose(
+    'export',
+    'export',
+    Get('export'),
+    ApiOperation({ summary: 'Export the filtered list as CSV, NDJSON or XLSX (streamed)' }),
+    ApiProduces(...Object.values(EXPORT_CONTENT_TYPES)),
+    ApiQuery({ name: 'format', required: false, enum: Object.keys(EXPORT_CONTENT_TYPES), description: 'Overrides Accept' }),
+    ApiQuery({ name: '$filter', required: false, description: "e.g. isActive eq true and email endswith '@test.com'" }),
+    ApiQuery({ name: '$orderby', required: false, description: 'e.g. lastName asc,createdAt desc' }),
+    ApiQuery({ name: '$select', required: false, description: 'Exported columns, e.g. firstName,lastName' }),
+  );
+  expose(
+    'get',
+    'findOne',
+    Get(':id'),
+    UseInterceptors(ETagInterceptor),
+    ApiOperation({ summary: 'Get by id (with ETag)' }),
+    ID_PARAM,
+    ApiQuery({ name: '$select', required: false }),
+    ApiQuery({ name: '$expand', required: false }),
+    ApiResponse({ status: 404, description: 'Not found' }),
+  );
+  expose(
+    'create',
+    'create',
+    Post(),
+    ApiOperation({ summary: 'Create' }),
+    ApiBody({ type: options.create }),
+    ApiResponse({ status: 400, description: 'Validation failed' }),
+  );
+  expose(
+    'update',
+    'update',
+    Put(':id'),
+    UseInterceptors(ETagInterceptor),
+    ApiOperation({ summary: 'Update' }),
+    ID_PARAM,
+    IF_MATCH_HEADER,
+    ApiBody({ type: options.update }),
+    ApiResponse({ status: 412, description: 'Modified since the given ETag' }),
+    ApiResponse({ status: 428, description: 'If-Match is required' }),
+  );
+  expose(
+    'patch',
+    'patch',
+    Patch(':id'),
+    UseInterceptors(ETagInterceptor),
+    ApiOperation({ summary: 'Update some properties with a JSON Merge Patch or a JSON Patch' }),
+    ID_PARAM,
+    IF_MATCH_HEADER,
+    ApiConsumes(MERGE_PATCH_CONTENT_TYPE, JSON_PATCH_CONTENT_TYPE, 'application/json'),
+    ApiBody({
+      type: options.update,
+      description: 'Properties to set (null clears them), or operations such as [{ "op": "remove", "path": "/bio" }]',
+    }),
+    ApiResponse({ status: 400, description: 'Read-only properties changed or invalid result' }),
+    ApiResponse({ status: 409, description: 'A test operation failed' }),
+    ApiResponse({ status: 412, description: 'Modified since the given ETag' }),
+    ApiResponse({ status: 428, description: 'If-Match is required' }),
+  );
+  expose(
+    'delete',
+    'remove',
+    Delete(':id'),
+    HttpCode(HttpStatus.NO_CONTENT),
+    ApiOperation({ summary: 'Delete (soft delete)' }),
+    ID_PARAM,
+    ApiResponse({ status: 404, description: 'Not found' }),
+  );
+
+  return GeneratedCrudController;
+}
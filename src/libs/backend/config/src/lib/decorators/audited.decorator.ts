@@ -0,0 +1,34 @@
+import 'reflect-metadata';
+
+const AUDITED_METADATA_KEY = Symbol('audit:audited');
+
+/**
+ * Options of the @Audited() decorator
+ */
+export interface AuditedOptions {
+  /**
+   * Properties left out of the recorded changes (e.g., secrets).
+   * Version, update date and generated columns are always left out.
+   */
+  exclude?: string[];
+}
+
+/**
+ * Record the changes of an entity in the audit trail:
+ * every insert, update, removal, soft removal and recovery writes an AuditLog with the field-level diff,
+ * the acting user and the correlation id of the request, in the transaction of the change
+ */
+export function Audited(options: AuditedOptions = {}): ClassDecorator {
+  return (target) => {
+    Reflect.defineMetadata(AUDITED_METADATA_KEY, options, target);
+  };
+}
+
+/**
+ * Get the @Audited() options of an entity
+ * @param entity Entity class
+ * @returns Audit options, or undefined when the entity is not audited
+ */
+export function getAuditedOptions(entity: object): AuditedOptions | undefined {
+  return Reflect.getMetadata(AUDITED_METADATA_KEY, entity);
+}
@@ -0,0 +1,32 @@
+import 'reflect-metadata';
+
+const CACHEABLE_METADATA_KEY = Symbol('cache:cacheable');
+
+/**
+ * Options of the @Cacheable() decorator
+ */
+export interface CacheableOptions {
+  /** Time to live of the cached entries; defaults to CACHE_DEFAULT_TTL_MS */
+  ttlMs?: number;
+  /** Also cache the results of list queries (findWithQueryOptions without $expand) */
+  lists?: boolean;
+}
+
+/**
+ * Cache the entities read through BaseService.findById() (and list queries when enabled).
+ * Entries are invalidated when BaseService changes an entity of the type.
+ */
+export function Cacheable(options: CacheableOptions = {}): ClassDecorator {
+  return (target) => {
+    Reflect.defineMetadata(CACHEABLE_METADATA_KEY, options, target);
+  };
+}
+
+/**
+ * Get the @Cacheable() options of an entity
+ * @param entity Entity class
+ * @returns Cache options, or undefined when the entity is not cached
+ */
+export function getCacheableOptions(entity: object): CacheableOptions | undefined {
+  return Reflect.getMetadata(CACHEABLE_METADATA_KEY, entity);
+}
@@ -0,0 +1,24 @@
+import 'reflect-metadata';
+import { PolicyRule } from '../policies/policy-engine';
+
+const POLICY_METADATA_KEY = Symbol('authorization:policy');
+
+/**
+ * Restrict the entities users can read and change through BaseService to the ones granted by ability rules
+ * (e.g., members read the users of their organization and update only themselves).
+ * Entities without @Policy() are not restricted.
+ */
+export function Policy(rules: PolicyRule[]): ClassDecorator {
+  return (target) => {
+    Reflect.defineMetadata(POLICY_METADATA_KEY, rules, target);
+  };
+}
+
+/**
+ * Get the @Policy() rules of an entity
+ * @param entity Entity class
+ * @returns Rules, or undefined when the entity is not restricted
+ */
+export function getPolicyRules(entity: object): PolicyRule[] | undefined {
+  return Reflect.getMetadata(POLICY_METADATA_KEY, entity);
+}
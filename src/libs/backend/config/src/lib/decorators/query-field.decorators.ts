@@ -0,0 +1,209 @@
+import 'reflect-metadata';
+import { Column, Index, getMetadataArgsStorage } from 'typeorm';
+import { FilterOperator } from '@libs/shared';
+
+const FILTERABLE_METADATA_KEY = Symbol('query:filterable');
+const SORTABLE_METADATA_KEY = Symbol('query:sortable');
+const SEARCHABLE_METADATA_KEY = Symbol('query:searchable');
+const SEARCH_VECTOR_METADATA_KEY = Symbol('query:search-vector');
+
+/**
+ * Options of the @Filterable() decorator
+ */
+export interface FilterableOptions {
+  /**
+   * Operators allowed on the property. Defaults to every operator supported by the column type.
+   */
+  operators?: FilterOperator[];
+}
+
+/**
+ * Mark an entity property as usable in $filter
+ * Properties without this decorator are rejected by query option validation.
+ * On a collection relation it allows the any/all lambda operators.
+ */
+export function Filterable(options: FilterableOptions = {}): PropertyDecorator {
+  return (target: object, propertyKey: string | symbol) => {
+    const fields = new Map<string, FilterableOptions>(
+      Reflect.getOwnMetadata(FILTERABLE_METADATA_KEY, target.constructor) ?? [],
+    );
+    fields.set(String(propertyKey), options);
+    Reflect.defineMetadata(FILTERABLE_METADATA_KEY, fields, target.constructor);
+  };
+}
+
+/**
+ * Mark an entity property as usable in $orderby
+ */
+export function Sortable(): PropertyDecorator {
+  return (target: object, propertyKey: string | symbol) => {
+    const fields = new Set<string>(Reflect.getOwnMetadata(SORTABLE_METADATA_KEY, target.constructor) ?? []);
+    fields.add(String(propertyKey));
+    Reflect.defineMetadata(SORTABLE_METADATA_KEY, fields, target.constructor);
+  };
+}
+
+/**
+ * Weight of a searchable property in the search rank, from most (A) to least (D) relevant
+ */
+export type SearchWeight = 'A' | 'B' | 'C' | 'D';
+
+/**
+ * Options of the @Searchable() decorator
+ */
+export interface SearchableOptions {
+  /**
+   * Weight of the property in the search rank. Defaults to 'D'.
+   */
+  weight?: SearchWeight;
+}
+
+/**
+ * Mark a text property as part of the entity's full-text search vector ($search)
+ * The entity must also declare a @SearchVectorColumn() after its searchable properties.
+ */
+export function Searchable(options: SearchableOptions = {}): PropertyDecorator {
+  return (target: object, propertyKey: string | symbol) => {
+    const fields = new Map<string, SearchableOptions>(
+      Reflect.getOwnMetadata(SEARCHABLE_METADATA_KEY, target.constructor) ?? [],
+    );
+    fields.set(String(propertyKey), options);
+    Reflect.defineMetadata(SEARCHABLE_METADATA_KEY, fields, target.constructor);
+  };
+}
+
+/**
+ * Options of the @SearchVectorColumn() decorator
+ */
+export interface SearchVectorColumnOptions {
+  /**
+   * PostgreSQL text search configuration (e.g., 'english'). Defaults to 'simple'.
+   */
+  config?: string;
+}
+
+/**
+ * Search vector column of an entity, as registered by @SearchVectorColumn()
+ */
+export interface SearchVectorMetadata {
+  propertyName: string;
+  config: string;
+  indexName: string;
+}
+
+/**
+ * Declare a generated tsvector column built from the @Searchable() properties declared before it.
+ * The column is never selected; its GIN index is created outside of schema synchronization
+ * (see SearchIndexService) because TypeORM cannot declare GIN indexes.
+ */
+export function SearchVectorColumn(options: SearchVectorColumnOptions = {}): PropertyDecorator {
+  const config = options.config ?? 'simple';
+  if (!/^\w+$/.test(config)) {
+    throw new Error(`Invalid text search configuration '${config}'`);
+  }
+
+  return (target: object, propertyKey: string | symbol) => {
+    const fields = getSearchableFields(target.constructor);
+    if (fields.size === 0) {
+      throw new Error(`@SearchVectorColumn() of ${target.constructor.name} must follow its @Searchable() properties`);
+    }
+
+    const columns = getMetadataArgsStorage().columns;
+    const expression = [...fields]
+      .map(([prop, { weight = 'D' }]) => {
+        const column = columns.find(
+          (args) =>
+            args.propertyName === prop &&
+            (args.target === target.constructor || target instanceof (args.target as new () => unknown)),
+        );
+        const name = column?.options.name ?? prop;
+        return `setweight(to_tsvector('${config}', coalesce("${name}", '')), '${weight}')`;
+      })
+      .join(' || ');
+
+    Column({
+      type: 'tsvector',
+      generatedType: 'STORED',
+      asExpression: expression,
+      nullable: true,
+      select: false,
+      insert: false,
+      update: false,
+    })(target, propertyKey);
+    const indexName = `IDX_${target.constructor.name}_${String(propertyKey)}`;
+    Index(indexName, { synchronize: false })(target, propertyKey);
+    Reflect.defineMetadata(
+      SEARCH_VECTOR_METADATA_KEY,
+      { propertyName: String(propertyKey), config, indexName } satisfies SearchVectorMetadata,
+      target.constructor,
+    );
+  };
+}
+
+/**
+ * Walk an entity class and its parent classes, collecting own metadata
+ */
+function collectMetadata<V>(entity: object, key: symbol, collect: (value: V) => void): void {
+  const chain: object[] = [];
+  for (let current = entity; current && current !== Function.prototype; current = Object.getPrototypeOf(current)) {
+    chain.unshift(current);
+  }
+  chain.forEach((current) => {
+    const value = Reflect.getOwnMetadata(key, current);
+    if (value) {
+      collect(value);
+    }
+  });
+}
+
+/**
+ * Get the filterable properties of an entity, including inherited ones
+ * @param entity Entity class
+ * @returns Filterable options keyed by property name
+ */
+export function getFilterableFields(entity: object): Map<string, FilterableOptions> {
+  const fields = new Map<string, FilterableOptions>();
+  collectMetadata<Map<string, FilterableOptions>>(entity, FILTERABLE_METADATA_KEY, (value) =>
+    value.forEach((options, prop) => fields.set(prop, options)),
+  );
+  return fields;
+}
+
+/**
+ * Get the sortable properties of an entity, including inherited ones
+ * @param entity Entity class
+ * @returns Sortable property names
+ */
+export function getSortableFields(entity: object): Set<string> {
+  const fields = new Set<string>();
+  collectMetadata<Set<string>>(entity, SORTABLE_METADATA_KEY, (value) =>
+    value.forEach((prop) => fields.add(prop)),
+  );
+  return fields;
+}
+
+/**
+ * Get the searchable properties of an entity, including inherited ones
+ * @param entity Entity class
+ * @returns Searchable options keyed by property name
+ */
+export function getSearchableFields(entity: object): Map<string, SearchableOptions> {
+  const fields = new Map<string, SearchableOptions>();
+  collectMetadata<Map<string, SearchableOptions>>(entity, SEARCHABLE_METADATA_KEY, (value) =>
+    value.forEach((options, prop) => fields.set(prop, options)),
+  );
+  return fields;
+}
+
+/**
+ * Get the search vector column of an entity, including an inherited one
+ * @param entity Entity class
+ * @returns Search vector column, or undefined when the entity is not searchable
+ */
+export function getSearchVector(entity: object): SearchVectorMetadata | undefined {
+  let searchVector: SearchVectorMetadata | undefined;
+  collectMetadata<SearchVectorMetadata>(entity, SEARCH_VECTOR_METADATA_KEY, (value) => {
+    searchVector = value;
+  });
+  return searchVector;
+}
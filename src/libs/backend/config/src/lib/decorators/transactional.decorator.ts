@@ -0,0 +1,23 @@
+import 'reflect-metadata';
+import { TransactionManager, TransactionOptions } from '../transactions/transaction-manager';
+
+/**
+ * Run an async method within a transaction of the TransactionManager.
+ * Services called by the method share the transaction, unless they require a new one;
+ * it is committed when the outermost transactional method returns and rolled back when it throws.
+ */
+export function Transactional(options: TransactionOptions = {}): MethodDecorator {
+  return (_target, _propertyKey, descriptor: PropertyDescriptor) => {
+    const method = descriptor.value as (...args: unknown[]) => Promise<unknown>;
+    const transactional = function (this: unknown, ...args: unknown[]) {
+      return TransactionManager.run(() => method.apply(this, args), options);
+    };
+    // Keep the metadata of other decorators (e.g., Nest route handlers)
+    Reflect.getMetadataKeys(method).forEach((key) =>
+      Reflect.defineMetadata(key, Reflect.getMetadata(key, method), transactional),
+    );
+    Object.defineProperty(transactional, 'name', { value: method.name });
+    descriptor.value = transactional;
+    return descriptor;
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Lifecycle events published by BaseService, as the suffix of the event type (e.g., UserCreated)
+ */
+export type EntityEventAction = 'Created' | 'Updated' | 'Deleted' | 'Restored' | 'Purged';
+
+/**
+ * Payload of entity lifecycle events
+ */
+export interface EntityEventPayload {
+  id: string;
+  /** Entity after the change, serialized with class-transformer (@Exclude() properties are left out); not set on Deleted and Purged */
+  entity?: Record<string, unknown>;
+}
+
+/**
+ * Event to record in the outbox
+ */
+export interface NewDomainEvent<TPayload = Record<string, unknown>> {
+  /** Event type (e.g., UserCreated) */
+  type: string;
+  /** Name of the entity the event is about (e.g., User) */
+  aggregate: string;
+  aggregateId: string;
+  payload: TPayload;
+  /** Tenant of the entity; defaults to the tenant of the request */
+  tenantId?: string | null;
+}
+
+/**
+ * Event delivered to handlers
+ */
+export interface DomainEvent<TPayload = Record<string, unknown>> extends NewDomainEvent<TPayload> {
+  /** Outbox id; the same event can be delivered more than once, handlers use it to stay idempotent */
+  id: string;
+  occurredAt: Date;
+  /** Delivery attempt, from 1 */
+  attempt: number;
+  correlationId?: string | null;
+  userId?: string | null;
+}
+
+/**
+ * Handler of domain events; a rejected promise schedules a retry of the event
+ */
+export type DomainEventHandler<TPayload = Record<string, unknown>> = (event: DomainEvent<TPayload>) => Promise<void> | void;
+
+/**
+ * Type of an entity lifecycle event
+ * @param entity Entity name (e.g., User)
+ * @param action Lifecycle action
+ * @returns Event type (e.g., UserCreated)
+ */
+export function entityEventType(entity: string, action: EntityEventAction): string {
+  return `${entity}${action}`;
+}
+
+/**
+ * Types of the lifecycle events of an entity
+ * @param entity Entity name (e.g., User)
+ * @returns Event type of each action (e.g., { Created: 'UserCreated', ... })
+ */
+export function entityEventTypes(entity: string): Record<EntityEventAction, string> {
+  return {
+    Created: entityEventType(entity, 'Created'),
+    Updated: entityEventType(entity, 'Updated'),
+    Deleted: entityEventType(entity, 'Deleted'),
+    Restored: entityEventType(entity, 'Restored'),
+    Purged: entityEventType(entity, 'Purged'),
+  };
+}
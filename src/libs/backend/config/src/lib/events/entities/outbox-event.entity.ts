@@ -0,0 +1,66 @@
+import { Entity, Column, CreateDateColumn, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+/**
+ * Delivery state of an outbox event
+ * - pending: waiting for its next delivery attempt
+ * - processed: delivered to every handler
+ * - dead-letter: failed maxAttempts times, left for inspection and requeueing
+ */
+export type OutboxEventStatus = 'pending' | 'processed' | 'dead-letter';
+
+/**
+ * Domain event recorded in the transaction of the change that raised it, then delivered by the DomainEventBus
+ */
+@Entity('outbox_events')
+@Index(['status', 'nextAttemptAt'])
+export class OutboxEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  /** Event type (e.g., UserCreated) */
+  @Column({ length: 100 })
+  type!: string;
+
+  /** Entity name (e.g., User) */
+  @Column({ length: 100 })
+  aggregate!: string;
+
+  @Column({ length: 100 })
+  aggregateId!: string;
+
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  payload!: Record<string, unknown>;
+
+  @Column({ type: 'varchar', length: 20, default: 'pending' })
+  status!: OutboxEventStatus;
+
+  /** Delivery attempts made so far */
+  @Column({ default: 0 })
+  attempts!: number;
+
+  /** Pending events are delivered from this time on */
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  nextAttemptAt!: Date;
+
+  /** Error of the last failed attempt */
+  @Column({ type: 'text', nullable: true })
+  lastError?: string | null;
+
+  /** Acting user, when known */
+  @Column({ type: 'varchar', length: 128, nullable: true })
+  userId?: string | null;
+
+  /** Tenant the event belongs to; handlers run in its context */
+  @Column({ type: 'varchar', length: 128, nullable: true })
+  tenantId?: string | null;
+
+  /** Correlation id of the request that raised the event */
+  @Column({ type: 'varchar', length: 128, nullable: true })
+  correlationId?: string | null;
+
+  @CreateDateColumn({ type: 'timestamp' })
+  occurredAt!: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  processedAt?: Date | null;
+}
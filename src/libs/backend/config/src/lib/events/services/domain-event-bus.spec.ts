@@ -0,0 +1,81 @@
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { LoggerService, RequestContext } from '@libs/backend-common';
+import { OutboxConfig } from '../../config/outbox.config';
+import { OutboxEvent } from '../entities/outbox-event.entity';
+import { DomainEventBus, getRetryDelay } from './domain-event-bus';
+
+describe('DomainEventBus', () => {
+  const config: OutboxConfig = {
+    pollerEnabled: false,
+    pollIntervalMs: 1000,
+    batchSize: 10,
+    maxAttempts: 3,
+    retryDelayMs: 1000,
+    maxRetryDelayMs: 5000,
+    leaseMs: 60000,
+  };
+  const updates: Record<string, unknown>[] = [];
+  const outboxRepository = {
+    update: async (_: unknown, changes: Record<string, unknown>) => {
+      updates.push(changes);
+      return { affected: 1 };
+    },
+  } as unknown as Repository<OutboxEvent>;
+  const logger = { warn: jest.fn(), error: jest.fn() } as unknown as LoggerService;
+  const configService = { get: () => config } as unknown as ConfigService;
+
+  const createEvent = (attempts = 0): OutboxEvent =>
+    Object.assign(new OutboxEvent(), {
+      id: 'e1',
+      type: 'UserCreated',
+      aggregate: 'User',
+      aggregateId: 'u1',
+      payload: { id: 'u1' },
+      attempts,
+      correlationId: 'c1',
+      occurredAt: new Date('2026-01-01T00:00:00Z'),
+    });
+
+  let eventBus: DomainEventBus;
+
+  beforeEach(() => {
+    updates.length = 0;
+    eventBus = new DomainEventBus(outboxRepository, configService, logger);
+  });
+
+  it('should back off exponentially up to the maximum delay', () => {
+    expect([1, 2, 3, 4].map((attempt) => getRetryDelay(attempt, config))).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it('should deliver events to their handlers in the context of the request that raised them', async () => {
+    const delivered: unknown[] = [];
+    eventBus.subscribe('UserCreated', (event) => {
+      delivered.push([event.aggregateId, event.attempt, RequestContext.current()?.correlationId]);
+    });
+    const unsubscribe = eventBus.subscribe('UserCreated', () => {
+      delivered.push('unsubscribed');
+    });
+    unsubscribe();
+
+    await eventBus.deliver(createEvent());
+
+    expect(delivered).toEqual([['u1', 1, 'c1']]);
+    expect(updates).toEqual([expect.objectContaining({ status: 'processed', attempts: 1, lastError: null })]);
+  });
+
+  it('should schedule a retry when a handler fails, and dead-letter the event after maxAttempts', async () => {
+    eventBus.subscribe('UserCreated', () => {
+      throw new Error('mail server down');
+    });
+
+    const before = Date.now();
+    await eventBus.deliver(createEvent(1));
+    await eventBus.deliver(createEvent(2));
+
+    expect(updates[0]).toEqual({ attempts: 2, lastError: 'mail server down', nextAttemptAt: expect.any(Date) });
+    expect((updates[0]['nextAttemptAt'] as Date).getTime()).toBeGreaterThanOrEqual(before + 2000);
+    expect(updates[1]).toEqual({ attempts: 3, lastError: 'mail server down', status: 'dead-letter' });
+    expect(logger.error).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,230 @@
+import { randomUUID } from 'crypto';
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThanOrEqual, Repository } from 'typeorm';
+import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+import { LoggerService, RequestContext } from '@libs/backend-common';
+import outboxConfig, { OutboxConfig } from '../../config/outbox.config';
+import { TransactionManager } from '../../transactions/transaction-manager';
+import { DomainEvent, DomainEventHandler, NewDomainEvent } from '../domain-event';
+import { OutboxEvent } from '../entities/outbox-event.entity';
+
+/**
+ * Delay before retrying an event: retryDelayMs, doubled on each further attempt, up to maxRetryDelayMs
+ * @param attempt Failed attempt, from 1
+ * @param config Retry settings
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(attempt: number, config: Pick<OutboxConfig, 'retryDelayMs' | 'maxRetryDelayMs'>): number {
+  return Math.min(config.retryDelayMs * 2 ** (attempt - 1), config.maxRetryDelayMs);
+}
+
+/**
+ * In-process domain event bus backed by a transactional outbox.
+ * Events are written to the outbox in the transaction of the change that raised them and delivered once it
+ * commits; failed deliveries are retried by the OutboxPoller and dead-lettered after maxAttempts.
+ * Delivery is at-least-once: handlers must be idempotent (e.g., keyed by the event id).
+ */
+@Injectable()
+export class DomainEventBus {
+  private static instance?: DomainEventBus;
+  private readonly handlers = new Map<string, DomainEventHandler[]>();
+
+  constructor(
+    @InjectRepository(OutboxEvent) private readonly outboxRepository: Repository<OutboxEvent>,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {
+    DomainEventBus.instance = this;
+  }
+
+  /**
+   * Get the event bus, for code that is not created by the injector (e.g., BaseService)
+   * @returns Event bus, or undefined when BackendConfigModule is not imported
+   */
+  static current(): DomainEventBus | undefined {
+    return DomainEventBus.instance;
+  }
+
+  private get config(): OutboxConfig {
+    return this.configService.get<OutboxConfig>('outbox') ?? outboxConfig();
+  }
+
+  /**
+   * Subscribe a handler to an event type
+   * @param type Event type (e.g., UserCreated)
+   * @param handler Handler; handlers of an event run in subscription order, and all of them run again on retries
+   * @returns Function that unsubscribes the handler
+   */
+  subscribe<TPayload = Record<string, unknown>>(type: string, handler: DomainEventHandler<TPayload>): () => void {
+    // Payloads are stored as JSON and not checked at runtime: the handler declares the payload it expects
+    const registered = handler as DomainEventHandler;
+    this.handlers.set(type, [...(this.handlers.get(type) ?? []), registered]);
+    return () => {
+      this.handlers.set(type, (this.handlers.get(type) ?? []).filter((candidate) => candidate !== registered));
+    };
+  }
+
+  /**
+   * Record events in the outbox, within the active transaction if any, and deliver them once it commits
+   * @param events Events to publish
+   */
+  async publish<TPayload extends object = Record<string, unknown>>(events: NewDomainEvent<TPayload>[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    const context = RequestContext.current();
+    const { identifiers } = await TransactionManager.getRepository(this.outboxRepository).insert(
+      events.map((event) => ({
+        ...event,
+        payload: event.payload as QueryDeepPartialEntity<Record<string, unknown>>,
+        nextAttemptAt: new Date(),
+        tenantId: event.tenantId ?? context?.tenantId ?? null,
+        userId: context?.userId ?? null,
+        correlationId: context?.correlationId ?? null,
+      })),
+    );
+    const ids = identifiers.map((identifier) => identifier['id'] as string);
+
+    TransactionManager.afterCommit(async () => {
+      try {
+        await this.deliverPending(ids);
+      } catch (error) {
+        // The poller delivers them later
+        this.logger.warn('Could not deliver domain events after commit', {
+          module: 'DomainEventBus',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+  }
+
+  /**
+   * Claim the pending events that are due and deliver them to their handlers
+   * @param ids Only deliver these events (e.g., those just committed)
+   * @returns Number of events claimed
+   */
+  async deliverPending(ids?: string[]): Promise<number> {
+    const events = await this.claim(ids);
+    for (const event of events) {
+      await this.deliver(event);
+    }
+    return events.length;
+  }
+
+  /**
+   * Deliver an event to its handlers and record the outcome: processed, retry scheduled or dead-lettered
+   * @param event Claimed outbox event
+   */
+  async deliver(event: OutboxEvent): Promise<void> {
+    const attempt = event.attempts + 1;
+    const domainEvent: DomainEvent = {
+      id: event.id,
+      type: event.type,
+      aggregate: event.aggregate,
+      aggregateId: event.aggregateId,
+      payload: event.payload,
+      occurredAt: event.occurredAt,
+      attempt,
+      tenantId: event.tenantId,
+      correlationId: event.correlationId,
+      userId: event.userId,
+    };
+
+    try {
+      // Handlers run in the context of the request that raised the event
+      await RequestContext.run(
+        {
+          correlationId: event.correlationId ?? randomUUID(),
+          userId: event.userId ?? undefined,
+          tenantId: event.tenantId ?? undefined,
+        },
+        async () => {
+          for (const handler of this.handlers.get(event.type) ?? []) {
+            await handler(domainEvent);
+          }
+        },
+      );
+    } catch (error) {
+      await this.recordFailure(event, attempt, error);
+      return;
+    }
+
+    await this.outboxRepository.update(event.id, {
+      status: 'processed',
+      attempts: attempt,
+      processedAt: new Date(),
+      lastError: null,
+    });
+  }
+
+  /**
+   * Put a dead-lettered event back in the queue
+   * @param id Outbox event id
+   * @throws NotFoundException when there is no dead-lettered event with the id
+   */
+  async requeue(id: string): Promise<void> {
+    const result = await this.outboxRepository.update(
+      { id, status: 'dead-letter' },
+      { status: 'pending', attempts: 0, nextAttemptAt: new Date(), lastError: null },
+    );
+    if (!result.affected) {
+      throw new NotFoundException(`Dead-lettered event '${id}' not found`);
+    }
+  }
+
+  /**
+   * Lock the due pending events (skipping those locked by other instances) and lease them for leaseMs,
+   * so that other instances do not deliver them meanwhile
+   */
+  private async claim(ids?: string[]): Promise<OutboxEvent[]> {
+    const { batchSize, leaseMs } = this.config;
+
+    return await TransactionManager.run(
+      async () => {
+        const repository = TransactionManager.getRepository(this.outboxRepository);
+        const events = await repository.find({
+          where: {
+            status: 'pending',
+            nextAttemptAt: LessThanOrEqual(new Date()),
+            ...(ids ? { id: In(ids) } : {}),
+          },
+          order: { nextAttemptAt: 'ASC' },
+          take: batchSize,
+          lock: { mode: 'pessimistic_partial_write' },
+        });
+        if (events.length > 0) {
+          await repository.update(
+            { id: In(events.map((event) => event.id)) },
+            { nextAttemptAt: new Date(Date.now() + leaseMs) },
+          );
+        }
+        return events;
+      },
+      { propagation: 'requires-new' },
+    );
+  }
+
+  private async recordFailure(event: OutboxEvent, attempt: number, error: unknown): Promise<void> {
+    const config = this.config;
+    const message = error instanceof Error ? error.message : String(error);
+    const deadLetter = attempt >= config.maxAttempts;
+
+    await this.outboxRepository.update(event.id, {
+      attempts: attempt,
+      lastError: message,
+      ...(deadLetter
+        ? { status: 'dead-letter' as const }
+        : { nextAttemptAt: new Date(Date.now() + getRetryDelay(attempt, config)) }),
+    });
+
+    const context = { module: 'DomainEventBus', eventId: event.id, type: event.type, attempt };
+    if (deadLetter) {
+      this.logger.error(`Domain event dead-lettered: ${message}`, error instanceof Error ? error.stack : undefined, context);
+    } else {
+      this.logger.warn(`Domain event handler failed, retrying: ${message}`, context);
+    }
+  }
+}
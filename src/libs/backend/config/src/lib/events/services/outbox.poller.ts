@@ -0,0 +1,67 @@
+import { Injectable, OnApplicationBootstrap, OnApplicationShutdown } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LoggerService } from '@libs/backend-common';
+import outboxConfig, { OutboxConfig } from '../../config/outbox.config';
+import { DomainEventBus } from './domain-event-bus';
+
+/**
+ * Polls the outbox for due events: retries of failed deliveries and events whose after-commit
+ * delivery did not happen (e.g., the process stopped right after the commit)
+ */
+@Injectable()
+export class OutboxPoller implements OnApplicationBootstrap, OnApplicationShutdown {
+  private timer?: NodeJS.Timeout;
+  private polling?: Promise<void>;
+  private stopped = false;
+
+  constructor(
+    private readonly eventBus: DomainEventBus,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  private get config(): OutboxConfig {
+    return this.configService.get<OutboxConfig>('outbox') ?? outboxConfig();
+  }
+
+  onApplicationBootstrap(): void {
+    if (this.config.pollerEnabled) {
+      this.schedule();
+    }
+  }
+
+  async onApplicationShutdown(): Promise<void> {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    await this.polling;
+  }
+
+  /**
+   * Deliver due events until fewer than a full batch is left
+   */
+  async poll(): Promise<void> {
+    const { batchSize } = this.config;
+    try {
+      while ((await this.eventBus.deliverPending()) >= batchSize && !this.stopped) {
+        // Keep draining
+      }
+    } catch (error) {
+      this.logger.error(
+        'Outbox poll failed',
+        error instanceof Error ? error.stack : undefined,
+        { module: 'OutboxPoller' },
+      );
+    }
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(() => {
+      this.polling = this.poll().finally(() => {
+        if (!this.stopped) {
+          this.schedule();
+        }
+      });
+    }, this.config.pollIntervalMs);
+    this.timer.unref();
+  }
+}
@@ -0,0 +1,70 @@
+import { PassThrough, Readable } from 'stream';
+import { BadRequestException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { User } from '../users/entities/user.entity';
+import { CreateUserDto } from '../users/dto/user.dto';
+import { getExportColumns, writeExport } from '../utils/export-backend';
+import { ImportRow, mapImportColumns, readCsvRows, readXlsxRows, toImportRecord } from './import-rows';
+
+async function collect(rows: AsyncIterable<ImportRow>): Promise<ImportRow[]> {
+  const collected: ImportRow[] = [];
+  for await (const row of rows) {
+    collected.push(row);
+  }
+  return collected;
+}
+
+describe('import-rows', () => {
+  describe('readCsvRows', () => {
+    it('should read quoted fields split across chunks', async () => {
+      const chunks = ['\uFEFFfirstName,bio\r\nAda,"Line 1\nLine', ' 2, ""quoted"""\r\n\r\n', 'Grace,\n'];
+
+      expect(await collect(readCsvRows(Readable.from(chunks)))).toEqual([
+        { number: 1, cells: ['firstName', 'bio'] },
+        { number: 2, cells: ['Ada', 'Line 1\nLine 2, "quoted"'] },
+        { number: 4, cells: ['Grace', ''] },
+      ]);
+    });
+
+    it('should detect semicolon delimiters and reject unterminated quotes', async () => {
+      expect(await collect(readCsvRows(Readable.from(['Nombre;Email\nAda;a@b.c'])))).toEqual([
+        { number: 1, cells: ['Nombre', 'Email'] },
+        { number: 2, cells: ['Ada', 'a@b.c'] },
+      ]);
+      await expect(collect(readCsvRows(Readable.from(['a,b\n"open'])))).rejects.toThrow(
+        'Unterminated quoted field in row 2',
+      );
+    });
+  });
+
+  describe('readXlsxRows', () => {
+    it('should read the rows of exported workbooks', async () => {
+      const dataSource = new DataSource({ type: 'postgres', entities: [User] });
+      await (dataSource as unknown as { buildMetadatas(): Promise<void> }).buildMetadatas();
+      const columns = getExportColumns(dataSource.getMetadata(User), ['firstName', 'email']);
+      const output = new PassThrough();
+      const chunks: Buffer[] = [];
+      output.on('data', (chunk: Buffer) => chunks.push(chunk));
+      const user = Object.assign(new User(), { firstName: 'Ada', email: 'ada@test.com' });
+      await writeExport('xlsx', columns, Readable.from([user]), output);
+
+      expect(await collect(readXlsxRows(Readable.from([Buffer.concat(chunks)])))).toEqual([
+        { number: 1, cells: ['First Name', 'Email'] },
+        { number: 2, cells: ['Ada', 'ada@test.com'] },
+      ]);
+    });
+  });
+
+  describe('mapImportColumns', () => {
+    it('should match headers to DTO properties and leave out empty cells', () => {
+      const mapping = mapImportColumns(['First Name', 'last_name', 'EMAIL', 'Id'], CreateUserDto);
+
+      expect(mapping).toEqual({ props: ['firstName', 'lastName', 'email', undefined], ignored: ['Id'] });
+      expect(toImportRecord({ number: 2, cells: [' Ada ', '', 'a@b.c', 'x'] }, mapping)).toEqual({
+        firstName: 'Ada',
+        email: 'a@b.c',
+      });
+      expect(() => mapImportColumns(['Id', 'Version'], CreateUserDto)).toThrow(BadRequestException);
+    });
+  });
+});
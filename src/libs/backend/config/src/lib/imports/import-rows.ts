@@ -0,0 +1,244 @@
+/**
+ * Import File Utilities
+ * Read the rows of uploaded CSV and XLSX files as they stream in, and map their columns to DTO properties
+ */
+
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { BadRequestException, Type } from '@nestjs/common';
+import { getMetadataStorage } from 'class-validator';
+import { stream as excelStream } from 'exceljs';
+
+/**
+ * Formats of imported files
+ */
+export type ImportFormat = 'csv' | 'xlsx';
+
+/**
+ * Uploaded file, as provided by multer's memory storage
+ */
+export interface ImportFile {
+  originalname: string;
+  mimetype?: string;
+  size: number;
+  buffer: Buffer;
+}
+
+/**
+ * Row of an imported file
+ */
+export interface ImportRow {
+  /** Row number in the file, the header being row 1 */
+  number: number;
+  /** Cell values as text, in column order */
+  cells: string[];
+}
+
+/**
+ * Columns of an imported file mapped to properties
+ */
+export interface ImportColumnMapping {
+  /** Property of each column, undefined for ignored columns */
+  props: (string | undefined)[];
+  /** Headers that do not match a property */
+  ignored: string[];
+}
+
+/**
+ * Pick the format of an uploaded file from its extension or else its content type
+ * @throws BadRequestException when the file is neither CSV nor XLSX
+ */
+export function resolveImportFormat(file: Pick<ImportFile, 'originalname' | 'mimetype'>): ImportFormat {
+  const extension = file.originalname.split('.').pop()?.toLowerCase();
+  if (extension === 'csv' || extension === 'xlsx') {
+    return extension;
+  }
+  if (file.mimetype === 'text/csv') {
+    return 'csv';
+  }
+  if (file.mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') {
+    return 'xlsx';
+  }
+  throw new BadRequestException('Only CSV and XLSX files can be imported');
+}
+
+/**
+ * Read the records of a CSV file (RFC 4180: quoted fields may hold delimiters, quotes and line breaks).
+ * The delimiter is a comma, or a semicolon when the header has more of them (as written by spreadsheets
+ * in locales with a decimal comma).
+ * @param input Chunks of the file
+ * @returns Records; blank lines are skipped but counted in the row numbers
+ */
+export async function* readCsvRows(input: AsyncIterable<Buffer | string>): AsyncGenerator<ImportRow> {
+  const decoder = new StringDecoder('utf8');
+  let delimiter: string | undefined;
+  let cells: string[] = [];
+  let field = '';
+  let quoted = false;
+  let quoteInQuoted = false;
+  let number = 0;
+  let started = false;
+
+  const endRecord = (records: ImportRow[]) => {
+    cells.push(field);
+    number++;
+    if (cells.some((cell) => cell !== '')) {
+      records.push({ number, cells });
+    }
+    cells = [];
+    field = '';
+  };
+
+  const parse = (text: string): ImportRow[] => {
+    const records: ImportRow[] = [];
+    if (!started) {
+      text = text.replace(/^\uFEFF/, '');
+      const header = text.split('\n', 1)[0];
+      delimiter = (header.match(/;/g)?.length ?? 0) > (header.match(/,/g)?.length ?? 0) ? ';' : ',';
+      started = true;
+    }
+
+    for (const char of text) {
+      if (quoted) {
+        if (quoteInQuoted) {
+          quoteInQuoted = false;
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+          quoted = false;
+        } else if (char === '"') {
+          quoteInQuoted = true;
+          continue;
+        } else {
+          field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && field === '') {
+        quoted = true;
+      } else if (char === delimiter) {
+        cells.push(field);
+        field = '';
+      } else if (char === '\n') {
+        endRecord(records);
+      } else if (char !== '\r') {
+        field += char;
+      }
+    }
+    return records;
+  };
+
+  for await (const chunk of input) {
+    yield* parse(typeof chunk === 'string' ? chunk : decoder.write(chunk));
+  }
+  const rest = parse(decoder.end());
+  if (quoted && !quoteInQuoted) {
+    throw new BadRequestException(`Unterminated quoted field in row ${number + 1}`);
+  }
+  if (field !== '' || cells.length > 0) {
+    endRecord(rest);
+  }
+  yield* rest;
+}
+
+/**
+ * Convert the value of a spreadsheet cell to text
+ */
+function toCellText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object') {
+    const cell = value as { richText?: { text: string }[]; text?: unknown; result?: unknown };
+    if (cell.richText) {
+      return cell.richText.map(({ text }) => text).join('');
+    }
+    return toCellText(cell.result ?? cell.text);
+  }
+  return String(value);
+}
+
+/**
+ * Read the rows of the first worksheet of an XLSX file
+ * @param input Chunks of the file
+ * @returns Rows with their worksheet row numbers; empty rows are skipped
+ */
+export async function* readXlsxRows(input: Readable): AsyncGenerator<ImportRow> {
+  const workbook = new excelStream.xlsx.WorkbookReader(input, {
+    worksheets: 'emit',
+    sharedStrings: 'cache',
+    hyperlinks: 'ignore',
+    styles: 'ignore',
+    entries: 'ignore',
+  });
+  for await (const worksheet of workbook) {
+    for await (const row of worksheet) {
+      // Row values are indexed from column 1
+      const values = (row.values as unknown[]).slice(1);
+      const cells = values.map(toCellText);
+      if (cells.some((cell) => cell !== '')) {
+        yield { number: row.number, cells };
+      }
+    }
+    return;
+  }
+}
+
+/**
+ * Normalize a header or property name for matching (e.g., "First Name", "first_name" and "firstName" match)
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Map the header of a file to the validated properties of a DTO
+ * @param headers Cells of the header row
+ * @param dto DTO class the rows are validated with
+ * @returns Property of each column and the ignored headers
+ * @throws BadRequestException when no column matches a property
+ */
+export function mapImportColumns(headers: string[], dto: Type<object>): ImportColumnMapping {
+  const props = new Set(
+    getMetadataStorage()
+      .getTargetValidationMetadatas(dto, '', true, false)
+      .map(({ propertyName }) => propertyName),
+  );
+  const byName = new Map([...props].map((prop) => [normalizeName(prop), prop]));
+
+  const mapping: ImportColumnMapping = { props: [], ignored: [] };
+  headers.forEach((header) => {
+    const prop = byName.get(normalizeName(header));
+    mapping.props.push(prop);
+    if (!prop && header.trim() !== '') {
+      mapping.ignored.push(header);
+    }
+  });
+
+  if (!mapping.props.some((prop) => prop !== undefined)) {
+    throw new BadRequestException(`The header row has none of the columns ${[...props].join(', ')}`);
+  }
+  return mapping;
+}
+
+/**
+ * Build the body of a row: its mapped cells, leaving out empty ones so that optional properties stay unset
+ * @param row Row
+ * @param mapping Column mapping
+ * @returns Body to validate
+ */
+export function toImportRecord(row: ImportRow, mapping: ImportColumnMapping): Record<string, string> {
+  const record: Record<string, string> = {};
+  row.cells.forEach((cell, index) => {
+    const prop = mapping.props[index];
+    if (prop && cell.trim() !== '') {
+      record[prop] = cell.trim();
+    }
+  });
+  return record;
+}
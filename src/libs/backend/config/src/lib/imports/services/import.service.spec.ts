@@ -0,0 +1,89 @@
+import { ConfigService } from '@nestjs/config';
+import { LoggerService } from '@libs/backend-common';
+import { BulkOperationResponse } from '@libs/shared';
+import { CreateUserDto } from '../../users/dto/user.dto';
+import { User } from '../../users/entities/user.entity';
+import { UserService } from '../../users/services/user.service';
+import { ImportService } from './import.service';
+
+const csv = [
+  'First Name,Last Name,Email,Notes',
+  'Ada,Lovelace,ada@test.com,x',
+  'B,Short,not-an-email,',
+  'Grace,Hopper,grace@test.com,',
+  'Alan,Turing,alan@test.com,',
+].join('\n');
+
+function createFile(content: string) {
+  const buffer = Buffer.from(content);
+  return { originalname: 'users.csv', mimetype: 'text/csv', size: buffer.length, buffer };
+}
+
+describe('ImportService', () => {
+  const config = { batchSize: 2, maxFileBytes: 1024, maxReportedErrors: 10, jobTtlMs: 1000 };
+  const logger = { error: jest.fn() } as unknown as LoggerService;
+  let importService: ImportService;
+  let createMany: jest.Mock;
+
+  beforeEach(() => {
+    importService = new ImportService({ get: () => config } as unknown as ConfigService, logger);
+    // The second created user of each batch is a duplicate
+    createMany = jest.fn(
+      async (items: Partial<User>[]): Promise<BulkOperationResponse<User>> => ({
+        results: items.map((item, index) =>
+          index === 1
+            ? { index, success: false, error: { statusCode: 409, message: `${item.email} already exists` } }
+            : { index, success: true, id: `u${index}` },
+        ),
+        succeeded: 1,
+        failed: items.length - 1,
+      }),
+    );
+  });
+
+  const service = () => ({ createMany }) as unknown as UserService;
+
+  it('should report the errors of each row without creating anything in a dry run', async () => {
+    const report = await importService.import(service(), CreateUserDto, createFile(csv), { dryRun: true });
+
+    expect(createMany).not.toHaveBeenCalled();
+    expect(report).toEqual({
+      dryRun: true,
+      total: 4,
+      valid: 3,
+      invalid: 1,
+      created: 0,
+      failed: 0,
+      ignoredColumns: ['Notes'],
+      errors: [
+        {
+          row: 3,
+          errors: ['firstName must be longer than or equal to 2 characters', 'email must be an email'],
+        },
+      ],
+    });
+  });
+
+  it('should create the valid rows in batches and report the failed ones', async () => {
+    const report = await importService.import(service(), CreateUserDto, createFile(csv), { dryRun: false });
+
+    expect(createMany.mock.calls.map(([items]) => items.map((item: CreateUserDto) => item.email))).toEqual([
+      ['ada@test.com', 'grace@test.com'],
+      ['alan@test.com'],
+    ]);
+    expect(report).toMatchObject({ created: 2, failed: 1, invalid: 1 });
+    expect(report.errors.map(({ row }) => row)).toEqual([3, 4]);
+  });
+
+  it('should run in the background and expose its progress', async () => {
+    const job = importService.start(service(), CreateUserDto, createFile(csv), { dryRun: true });
+    expect(job).toMatchObject({ status: 'running', processed: 0 });
+    expect(() => importService.start(service(), CreateUserDto, createFile('x'.repeat(2048)), { dryRun: true }))
+      .toThrow('Files larger than 1024 bytes cannot be imported');
+
+    await new Promise((resolve) => setImmediate(resolve));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(importService.getJob(job.id)).toMatchObject({ status: 'completed', processed: 4, progress: 1 });
+    expect(() => importService.getJob('unknown')).toThrow('Import job not found');
+  });
+});
@@ -0,0 +1,238 @@
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  PayloadTooLargeException,
+  Type,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DeepPartial } from 'typeorm';
+import { LoggerService, RequestContext, ValidationPipe } from '@libs/backend-common';
+import { ImportJob, ImportReport } from '@libs/shared';
+import importConfig, { ImportConfig } from '../../config/import.config';
+import { BaseEntityWithTimestamps } from '../../users/entities/base.entity';
+import { BaseService } from '../../users/services/base.service';
+import {
+  ImportColumnMapping,
+  ImportFile,
+  ImportFormat,
+  mapImportColumns,
+  readCsvRows,
+  readXlsxRows,
+  resolveImportFormat,
+  toImportRecord,
+} from '../import-rows';
+
+/**
+ * Options of an import
+ */
+export interface ImportOptions {
+  /** Validate the rows and report their errors without creating anything */
+  dryRun: boolean;
+}
+
+/**
+ * Size of the chunks a file is read in
+ */
+const READ_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * Imports CSV and XLSX files into a BaseService: rows are mapped to a DTO by their header, validated
+ * like request bodies by the ValidationPipe, and the valid ones created in batches.
+ * Imports run within the request or as background jobs followed with getJob().
+ */
+@Injectable()
+export class ImportService {
+  private readonly validator = new ValidationPipe();
+  private readonly jobs = new Map<string, { job: ImportJob; userId?: string }>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  private get config(): ImportConfig {
+    return this.configService.get<ImportConfig>('import') ?? importConfig();
+  }
+
+  /**
+   * Import a file. Each valid batch is created in its own transaction, so the rows of earlier batches stay
+   * created when a later one fails; rows that cannot be created (e.g., duplicates) are reported as failed.
+   * @param service Service creating the entities
+   * @param dto DTO the rows are validated with (e.g., CreateUserDto)
+   * @param file Uploaded file
+   * @param options dryRun only validates
+   * @param onProgress Called as rows are read, with the rows read and the share of the file read
+   * @returns Counts of the rows and the errors of each invalid or failed row
+   * @throws BadRequestException when the file is not CSV or XLSX, is malformed or has no matching header
+   * @throws PayloadTooLargeException when the file is larger than IMPORT_MAX_FILE_BYTES
+   */
+  async import<T extends BaseEntityWithTimestamps>(
+    service: BaseService<T>,
+    dto: Type<object>,
+    file: ImportFile,
+    options: ImportOptions,
+    onProgress?: (processed: number, progress: number) => void,
+  ): Promise<ImportReport> {
+    const format = this.checkFile(file);
+    const { batchSize, maxReportedErrors } = this.config;
+    const report: ImportReport = {
+      dryRun: options.dryRun,
+      total: 0,
+      valid: 0,
+      invalid: 0,
+      created: 0,
+      failed: 0,
+      ignoredColumns: [],
+      errors: [],
+    };
+    const addError = (row: number, errors: string[]) => {
+      if (report.errors.length < maxReportedErrors) {
+        report.errors.push({ row, errors });
+      } else {
+        report.errorsTruncated = true;
+      }
+    };
+
+    let bytesRead = 0;
+    const input = Readable.from(
+      (function* () {
+        for (let start = 0; start < file.buffer.length; start += READ_CHUNK_BYTES) {
+          const chunk = file.buffer.subarray(start, start + READ_CHUNK_BYTES);
+          bytesRead += chunk.length;
+          yield chunk;
+        }
+      })(),
+      { objectMode: false },
+    );
+
+    let batch: { row: number; item: DeepPartial<T> }[] = [];
+    const flush = async () => {
+      const rows = batch;
+      batch = [];
+      if (rows.length === 0 || options.dryRun) {
+        return;
+      }
+      const { results } = await service.createMany(rows.map(({ item }) => item));
+      results.forEach((result) => {
+        if (result.success) {
+          report.created++;
+        } else {
+          report.failed++;
+          addError(rows[result.index].row, [result.error?.message ?? 'Could not be created']);
+        }
+      });
+    };
+
+    let mapping: ImportColumnMapping | undefined;
+    for await (const row of format === 'csv' ? readCsvRows(input) : readXlsxRows(input)) {
+      if (!mapping) {
+        mapping = mapImportColumns(row.cells, dto);
+        report.ignoredColumns = mapping.ignored;
+        continue;
+      }
+
+      report.total++;
+      try {
+        const item = await this.validator.transform(toImportRecord(row, mapping), { type: 'body', metatype: dto });
+        report.valid++;
+        batch.push({ row: row.number, item: { ...item } });
+        if (batch.length >= batchSize) {
+          await flush();
+        }
+      } catch (error) {
+        if (!(error instanceof BadRequestException)) {
+          throw error;
+        }
+        const { message } = error.getResponse() as { message: string | string[] };
+        report.invalid++;
+        addError(row.number, Array.isArray(message) ? message : [message]);
+      }
+      onProgress?.(report.total, file.size > 0 ? bytesRead / file.size : 1);
+    }
+
+    if (!mapping) {
+      throw new BadRequestException('The file has no header row');
+    }
+    await flush();
+    // Failed rows are found when their batch is created, after later invalid rows were reported
+    report.errors.sort((a, b) => a.row - b.row);
+    return report;
+  }
+
+  /**
+   * Start importing a file in the background, within the context of the request (user and tenant)
+   * @returns Job to follow with getJob(); the file is checked before the job starts
+   * @throws BadRequestException when the file is not CSV or XLSX
+   * @throws PayloadTooLargeException when the file is larger than IMPORT_MAX_FILE_BYTES
+   */
+  start<T extends BaseEntityWithTimestamps>(
+    service: BaseService<T>,
+    dto: Type<object>,
+    file: ImportFile,
+    options: ImportOptions,
+  ): ImportJob {
+    this.checkFile(file);
+    const job: ImportJob = {
+      id: randomUUID(),
+      status: 'running',
+      processed: 0,
+      progress: 0,
+      startedAt: new Date().toISOString(),
+    };
+    this.jobs.set(job.id, { job, userId: RequestContext.current()?.userId });
+
+    void this.import(service, dto, file, options, (processed, progress) => {
+      job.processed = processed;
+      job.progress = progress;
+    })
+      .then((report) => {
+        job.status = 'completed';
+        job.progress = 1;
+        job.report = report;
+      })
+      .catch((error) => {
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : String(error);
+        this.logger.error(`Import ${job.id} failed: ${job.error}`, error instanceof Error ? error.stack : undefined, {
+          module: 'ImportService',
+        });
+      })
+      .finally(() => {
+        job.finishedAt = new Date().toISOString();
+        setTimeout(() => this.jobs.delete(job.id), this.config.jobTtlMs).unref();
+      });
+
+    return { ...job };
+  }
+
+  /**
+   * Get the progress of a background import
+   * @param id Job id
+   * @returns Job, with its report once completed
+   * @throws NotFoundException when there is no such job, it expired or was started by another user
+   */
+  getJob(id: string): ImportJob {
+    const entry = this.jobs.get(id);
+    if (!entry || entry.userId !== RequestContext.current()?.userId) {
+      throw new NotFoundException('Import job not found');
+    }
+    return { ...entry.job };
+  }
+
+  /**
+   * Check the size and format of an uploaded file
+   * @returns Format of the file
+   */
+  private checkFile(file: ImportFile | undefined): ImportFormat {
+    if (!file) {
+      throw new BadRequestException('A CSV or XLSX file is required');
+    }
+    if (file.size > this.config.maxFileBytes) {
+      throw new PayloadTooLargeException(`Files larger than ${this.config.maxFileBytes} bytes cannot be imported`);
+    }
+    return resolveImportFormat(file);
+  }
+}
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAuditOutboxAndUserColumns1760000000000 implements MigrationInterface {
+  name = 'AddAuditOutboxAndUserColumns1760000000000';
+
+  async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`INSERT INTO "typeorm_metadata"("database", "schema", "table", "type", "name", "value") VALUES (DEFAULT, $1, $2, $3, $4, $5)`, ["public","users","GENERATED_COLUMN","searchVector","setweight(to_tsvector('simple', coalesce(\"firstName\", '')), 'A') || setweight(to_tsvector('simple', coalesce(\"lastName\", '')), 'A') || setweight(to_tsvector('simple', coalesce(\"email\", '')), 'B') || setweight(to_tsvector('simple', coalesce(\"bio\", '')), 'C')"]);
+    await queryRunner.query(`ALTER TABLE "users" ADD "deletedAt" TIMESTAMP`);
+    await queryRunner.query(`ALTER TABLE "users" ADD "version" integer NOT NULL DEFAULT '1'`);
+    await queryRunner.query(`ALTER TABLE "users" ADD "searchVector" tsvector GENERATED ALWAYS AS (setweight(to_tsvector('simple', coalesce("firstName", '')), 'A') || setweight(to_tsvector('simple', coalesce("lastName", '')), 'A') || setweight(to_tsvector('simple', coalesce("email", '')), 'B') || setweight(to_tsvector('simple', coalesce("bio", '')), 'C')) STORED`);
+    await queryRunner.query(`CREATE TABLE "audit_logs" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "entity" character varying(100) NOT NULL, "entityId" character varying(100) NOT NULL, "action" character varying(20) NOT NULL, "changes" jsonb NOT NULL DEFAULT '{}', "tenantId" character varying(128), "userId" character varying(128), "correlationId" character varying(128), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_1bb179d048bbc581caa3b013439" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_889633a4291bcb0bf4680fff23" ON "audit_logs" ("tenantId") `);
+    await queryRunner.query(`CREATE INDEX "IDX_a27d1b0a12612551da133bbea4" ON "audit_logs" ("entity", "entityId", "createdAt") `);
+    await queryRunner.query(`CREATE TABLE "outbox_events" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "type" character varying(100) NOT NULL, "aggregate" character varying(100) NOT NULL, "aggregateId" character varying(100) NOT NULL, "payload" jsonb NOT NULL DEFAULT '{}', "status" character varying(20) NOT NULL DEFAULT 'pending', "attempts" integer NOT NULL DEFAULT '0', "nextAttemptAt" TIMESTAMP NOT NULL DEFAULT now(), "lastError" text, "userId" character varying(128), "tenantId" character varying(128), "correlationId" character varying(128), "occurredAt" TIMESTAMP NOT NULL DEFAULT now(), "processedAt" TIMESTAMP, CONSTRAINT "PK_6689a16c00d09b8089f6237f1d2" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE INDEX "IDX_d2869b821d7b201618c9858ab6" ON "outbox_events" ("status", "nextAttemptAt") `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_User_searchVector" ON "users" USING GIN ("searchVector")`);
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_User_searchVector"`);
+    await queryRunner.query(`DROP INDEX "IDX_d2869b821d7b201618c9858ab6"`);
+    await queryRunner.query(`DROP TABLE "outbox_events"`);
+    await queryRunner.query(`DROP INDEX "IDX_a27d1b0a12612551da133bbea4"`);
+    await queryRunner.query(`DROP INDEX "IDX_889633a4291bcb0bf4680fff23"`);
+    await queryRunner.query(`DROP TABLE "audit_logs"`);
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "searchVector"`);
+    await queryRunner.query(`DELETE FROM "typeorm_metadata" WHERE "type" = $1 AND "name" = $2 AND "schema" = $3 AND "table" = $4`, ["GENERATED_COLUMN","searchVector","public","users"]);
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "version"`);
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "deletedAt"`);
+  }
+}
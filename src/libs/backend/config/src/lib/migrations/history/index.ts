@@ -0,0 +1,8 @@
+// Generated by "migrate generate": every migration of this directory, in the order they run
+import { Baseline1750000000000 } from './1750000000000-Baseline';
+import { AddAuditOutboxAndUserColumns1760000000000 } from './1760000000000-AddAuditOutboxAndUserColumns';
+
+export const MIGRATIONS = [
+  Baseline1750000000000,
+  AddAuditOutboxAndUserColumns1760000000000,
+];
@@ -0,0 +1,66 @@
+import { Query } from 'typeorm/driver/Query';
+import { SqlInMemory } from 'typeorm/driver/SqlInMemory';
+import { nameMigration, renderMigration, renderMigrationRegistry } from './migration-files';
+
+describe('migration-files', () => {
+  describe('nameMigration', () => {
+    it('should end class names with the timestamp TypeORM orders migrations by', () => {
+      expect(nameMigration('AddUserPhone', 1761000000000)).toEqual({
+        fileName: '1761000000000-AddUserPhone.ts',
+        className: 'AddUserPhone1761000000000',
+      });
+      expect(() => nameMigration('add phone', 1761000000000)).toThrow('Migration names must be PascalCase');
+    });
+  });
+
+  describe('renderMigration', () => {
+    it('should run the down queries in reverse and escape template literals', () => {
+      const sql = new SqlInMemory();
+      sql.upQueries.push(new Query('ALTER TABLE "users" ADD "phone" character varying'));
+      sql.upQueries.push(new Query('INSERT INTO "t"("v") VALUES ($1)', ['`${x}`']));
+      sql.downQueries.push(new Query('ALTER TABLE "users" DROP COLUMN "phone"'));
+      sql.downQueries.push(new Query('DELETE FROM "t"'));
+
+      expect(renderMigration('AddUserPhone1761000000000', sql)).toBe(
+        [
+          `import { MigrationInterface, QueryRunner } from 'typeorm';`,
+          ``,
+          `export class AddUserPhone1761000000000 implements MigrationInterface {`,
+          `  name = 'AddUserPhone1761000000000';`,
+          ``,
+          `  async up(queryRunner: QueryRunner): Promise<void> {`,
+          '    await queryRunner.query(`ALTER TABLE "users" ADD "phone" character varying`);',
+          '    await queryRunner.query(`INSERT INTO "t"("v") VALUES ($1)`, ["`${x}`"]);',
+          `  }`,
+          ``,
+          `  async down(queryRunner: QueryRunner): Promise<void> {`,
+          '    await queryRunner.query(`DELETE FROM "t"`);',
+          '    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "phone"`);',
+          `  }`,
+          `}`,
+          ``,
+        ].join('\n'),
+      );
+    });
+  });
+
+  describe('renderMigrationRegistry', () => {
+    it('should list the migration files in timestamp order', () => {
+      expect(
+        renderMigrationRegistry(['index.ts', '1761000000000-AddUserPhone.ts', '1760000000000-InitialSchema.ts', 'notes.md']),
+      ).toBe(
+        [
+          `// Generated by "migrate generate": every migration of this directory, in the order they run`,
+          `import { InitialSchema1760000000000 } from './1760000000000-InitialSchema';`,
+          `import { AddUserPhone1761000000000 } from './1761000000000-AddUserPhone';`,
+          ``,
+          `export const MIGRATIONS = [`,
+          `  InitialSchema1760000000000,`,
+          `  AddUserPhone1761000000000,`,
+          `];`,
+          ``,
+        ].join('\n'),
+      );
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Migration File Utilities
+ * Render generated migrations and the registry listing them, in the style of the hand-written ones
+ */
+
+import { SqlInMemory } from 'typeorm/driver/SqlInMemory';
+import { Query } from 'typeorm/driver/Query';
+
+/**
+ * File name of the registry importing every migration of the directory
+ */
+export const MIGRATION_REGISTRY_FILE = 'index.ts';
+
+/**
+ * File names of migrations: <timestamp>-<Name>.ts
+ */
+const MIGRATION_FILE_PATTERN = /^(\d{13})-([A-Z][A-Za-z0-9]*)\.ts$/;
+
+/**
+ * Name the file and class of a new migration. TypeORM orders migrations by the timestamp ending their class name.
+ * @param name PascalCase description, e.g. AddUserPhone
+ * @param timestamp Creation time in milliseconds
+ * @returns File name and class name
+ * @throws Error when the name is not PascalCase
+ */
+export function nameMigration(name: string, timestamp: number): { fileName: string; className: string } {
+  if (!/^[A-Z][A-Za-z0-9]*$/.test(name)) {
+    throw new Error(`Migration names must be PascalCase (e.g. AddUserPhone), got '${name}'`);
+  }
+  const stamp = String(timestamp).padStart(13, '0');
+  return { fileName: `${stamp}-${name}.ts`, className: `${name}${stamp}` };
+}
+
+/**
+ * Statement running a query of a migration
+ */
+function renderQuery({ query, parameters }: Query): string {
+  const sql = query.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+  const params = parameters?.length ? `, ${JSON.stringify(parameters)}` : '';
+  return `    await queryRunner.query(\`${sql}\`${params});`;
+}
+
+/**
+ * Render the source of a migration
+ * @param className Class name, ending with the timestamp
+ * @param sql Queries of the schema changes; down queries in the order the schema builder logged them
+ * (the reverse of the order they must run in)
+ * @returns TypeScript source
+ */
+export function renderMigration(className: string, sql: SqlInMemory): string {
+  return [
+    `import { MigrationInterface, QueryRunner } from 'typeorm';`,
+    ``,
+    `export class ${className} implements MigrationInterface {`,
+    `  name = '${className}';`,
+    ``,
+    `  async up(queryRunner: QueryRunner): Promise<void> {`,
+    ...sql.upQueries.map(renderQuery),
+    `  }`,
+    ``,
+    `  async down(queryRunner: QueryRunner): Promise<void> {`,
+    ...[...sql.downQueries].reverse().map(renderQuery),
+    `  }`,
+    `}`,
+    ``,
+  ].join('\n');
+}
+
+/**
+ * Render the registry of the migrations of a directory, which lists them for the DataSource
+ * (a glob would not find them once the API is bundled)
+ * @param fileNames Names of the files of the directory; other files are left out
+ * @returns TypeScript source
+ */
+export function renderMigrationRegistry(fileNames: string[]): string {
+  const migrations = fileNames
+    .map((fileName) => fileName.match(MIGRATION_FILE_PATTERN))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .sort((a, b) => a[1].localeCompare(b[1]))
+    .map(([fileName, timestamp, name]) => ({ module: `./${fileName.replace(/\.ts$/, '')}`, className: `${name}${timestamp}` }));
+
+  return [
+    `// Generated by "migrate generate": every migration of this directory, in the order they run`,
+    ...migrations.map(({ module, className }) => `import { ${className} } from '${module}';`),
+    ``,
+    `export const MIGRATIONS = [`,
+    ...migrations.map(({ className }) => `  ${className},`),
+    `];`,
+    ``,
+  ].join('\n');
+}
@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { LoggerModule } from '@libs/backend-common';
+import databaseConfig from '../config/database.config';
+import migrationsConfig from '../config/migrations.config';
+import { SearchIndexService } from '../users/services/search-index.service';
+import { MigrationService } from './services/migration.service';
+
+/**
+ * Standalone module of the migration commands: the database connection and MigrationService, without the
+ * services that start working on boot (outbox poller, cache stats, migrations on boot)
+ */
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      load: [databaseConfig, migrationsConfig],
+      envFilePath: ['.env.local', '.env'],
+    }),
+    TypeOrmModule.forRootAsync({
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => ({
+        ...configService.get('database'),
+      }),
+      inject: [ConfigService],
+    }),
+    LoggerModule,
+  ],
+  providers: [SearchIndexService, MigrationService],
+  exports: [MigrationService],
+})
+export class MigrationsModule {}
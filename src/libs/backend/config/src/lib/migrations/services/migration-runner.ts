@@ -0,0 +1,24 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import migrationsConfig, { MigrationsConfig } from '../../config/migrations.config';
+import { MigrationService } from './migration.service';
+
+/**
+ * Runs the pending migrations when the application starts, if MIGRATIONS_RUN_ON_BOOT is set.
+ * Modules are initialized before the bootstrap hooks, so the schema is up to date by the time
+ * the outbox poller and the other services start working.
+ */
+@Injectable()
+export class MigrationRunner implements OnModuleInit {
+  constructor(
+    private readonly migrationService: MigrationService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    const config = this.configService.get<MigrationsConfig>('migrations') ?? migrationsConfig();
+    if (config.runOnBoot) {
+      await this.migrationService.run();
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { ConfigService } from '@nestjs/config';
+import { DataSource, MigrationExecutor } from 'typeorm';
+import { Query } from 'typeorm/driver/Query';
+import { SqlInMemory } from 'typeorm/driver/SqlInMemory';
+import { LoggerService } from '@libs/backend-common';
+import { SearchIndexService } from '../../users/services/search-index.service';
+import { MigrationService } from './migration.service';
+
+function toSql(...queries: string[]): SqlInMemory {
+  const sql = new SqlInMemory();
+  queries.forEach((query) => sql.upQueries.push(new Query(query)));
+  return sql;
+}
+
+describe('MigrationService', () => {
+  const config = { runOnBoot: false, lockTimeoutMs: 0, directory: 'migrations' };
+  let lockQueries: jest.Mock;
+  let runMigrations: jest.Mock;
+  let schemaDiff: SqlInMemory;
+  let migrationService: MigrationService;
+
+  beforeEach(() => {
+    lockQueries = jest.fn(async (sql: string) => (sql.includes('pg_try_advisory_lock') ? [{ locked: true }] : []));
+    runMigrations = jest.fn(async () => [{ name: 'AddUserPhone1761000000000' }]);
+    schemaDiff = toSql();
+    const dataSource = {
+      options: {},
+      driver: {
+        options: {},
+        buildTableName: (name: string) => name,
+        createSchemaBuilder: () => ({ log: async () => schemaDiff }),
+      },
+      createQueryRunner: () => ({ connect: jest.fn(), release: jest.fn(), query: lockQueries }),
+      runMigrations,
+    } as unknown as DataSource;
+    const searchIndexService = {
+      getMissingSearchIndexQueries: async () => toSql('CREATE INDEX IF NOT EXISTS "IDX_User_searchVector"'),
+    } as unknown as SearchIndexService;
+    migrationService = new MigrationService(
+      dataSource,
+      searchIndexService,
+      { get: () => config } as unknown as ConfigService,
+      { log: jest.fn() } as unknown as LoggerService,
+    );
+
+    jest.spyOn(MigrationExecutor.prototype, 'getAllMigrations').mockResolvedValue([
+      { name: 'InitialSchema1760000000000', timestamp: 1760000000000 },
+      { name: 'AddUserPhone1761000000000', timestamp: 1761000000000 },
+    ] as never);
+    jest.spyOn(MigrationExecutor.prototype, 'getExecutedMigrations').mockResolvedValue([
+      { name: 'InitialSchema1760000000000', timestamp: 1760000000000 },
+    ] as never);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should run the pending migrations while holding the lock', async () => {
+    expect(await migrationService.run()).toEqual(['AddUserPhone1761000000000']);
+    expect(lockQueries.mock.calls.map(([sql]) => sql)).toEqual([
+      'SELECT pg_try_advisory_lock($1) AS "locked"',
+      'SELECT pg_advisory_unlock($1)',
+    ]);
+  });
+
+  it('should give up when another instance keeps the lock', async () => {
+    lockQueries.mockResolvedValue([{ locked: false }]);
+
+    await expect(migrationService.run()).rejects.toThrow('waiting for another instance to finish migrating');
+    expect(runMigrations).not.toHaveBeenCalled();
+  });
+
+  it('should report pending migrations and then unmigrated entity changes', async () => {
+    expect(await migrationService.status()).toEqual([
+      { name: 'InitialSchema1760000000000', timestamp: 1760000000000, executed: true },
+      { name: 'AddUserPhone1761000000000', timestamp: 1761000000000, executed: false },
+    ]);
+    expect(await migrationService.check()).toEqual({ pending: ['AddUserPhone1761000000000'], drift: [] });
+
+    jest.spyOn(MigrationExecutor.prototype, 'getAllMigrations').mockResolvedValue([]);
+    schemaDiff = toSql('ALTER TABLE "users" ADD "phone" character varying');
+    expect(await migrationService.check()).toEqual({
+      pending: [],
+      drift: ['ALTER TABLE "users" ADD "phone" character varying', 'CREATE INDEX IF NOT EXISTS "IDX_User_searchVector"'],
+    });
+  });
+
+  it('should record the first migration as the baseline of a database without migrations', async () => {
+    const insertMigration = jest.spyOn(MigrationExecutor.prototype, 'insertMigration').mockResolvedValue();
+
+    await expect(migrationService.baseline()).rejects.toThrow('The database already has migrations');
+    expect(insertMigration).not.toHaveBeenCalled();
+
+    jest.spyOn(MigrationExecutor.prototype, 'getExecutedMigrations').mockResolvedValue([]);
+    expect(await migrationService.baseline()).toBe('InitialSchema1760000000000');
+    expect(insertMigration).toHaveBeenCalledWith({ name: 'InitialSchema1760000000000', timestamp: 1760000000000 });
+  });
+});
@@ -0,0 +1,205 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, MigrationExecutor } from 'typeorm';
+import { SqlInMemory } from 'typeorm/driver/SqlInMemory';
+import { LoggerService } from '@libs/backend-common';
+import migrationsConfig, { MigrationsConfig } from '../../config/migrations.config';
+import { SearchIndexService } from '../../users/services/search-index.service';
+import { MIGRATION_REGISTRY_FILE, nameMigration, renderMigration, renderMigrationRegistry } from '../migration-files';
+
+/**
+ * Status of a migration
+ */
+export interface MigrationStatus {
+  /** Class name, ending with the timestamp */
+  name: string;
+  timestamp: number;
+  /** Whether it has run against the database */
+  executed: boolean;
+}
+
+/**
+ * Result of checking that the database, the migrations and the entities agree
+ */
+export interface MigrationCheck {
+  /** Migrations that have not run yet */
+  pending: string[];
+  /** Schema changes the entities need that no migration makes */
+  drift: string[];
+}
+
+/**
+ * Key of the Postgres advisory lock held while migrations run or are reverted, shared by every instance
+ */
+const MIGRATION_LOCK_KEY = 7_210_394_455;
+
+/**
+ * Time between attempts to take the migration lock
+ */
+const LOCK_RETRY_MS = 500;
+
+/**
+ * Runs, reverts and generates schema migrations (the migrations option of the database config).
+ * Migrations run in order, each in its own transaction, while an advisory lock keeps other instances
+ * from running them at the same time.
+ */
+@Injectable()
+export class MigrationService {
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly searchIndexService: SearchIndexService,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  private get config(): MigrationsConfig {
+    return this.configService.get<MigrationsConfig>('migrations') ?? migrationsConfig();
+  }
+
+  /**
+   * Run the pending migrations
+   * @returns Names of the migrations that ran; those of a concurrent run are not run again
+   * @throws Error when a migration fails (earlier ones stay applied) or the lock is not obtained in time
+   */
+  async run(): Promise<string[]> {
+    return await this.withLock(async () => {
+      const executed = await this.dataSource.runMigrations();
+      executed.forEach(({ name }) => this.logger.log(`Migration ${name} applied`, { module: 'MigrationService' }));
+      return executed.map(({ name }) => name);
+    });
+  }
+
+  /**
+   * Revert the last migration that ran
+   * @returns Name of the reverted migration, undefined when none has run
+   */
+  async revert(): Promise<string | undefined> {
+    return await this.withLock(async () => {
+      const [last] = await new MigrationExecutor(this.dataSource).getExecutedMigrations();
+      if (!last) {
+        return undefined;
+      }
+      await this.dataSource.undoLastMigration();
+      this.logger.log(`Migration ${last.name} reverted`, { module: 'MigrationService' });
+      return last.name;
+    });
+  }
+
+  /**
+   * Record the first migration (the baseline schema) as run without running it, for databases whose schema
+   * predates migrations (e.g., created by schema synchronization); the later migrations then run as usual
+   * @returns Name of the baseline migration, undefined when there are no migrations
+   * @throws Error when migrations have already run against the database
+   */
+  async baseline(): Promise<string | undefined> {
+    return await this.withLock(async () => {
+      const executor = new MigrationExecutor(this.dataSource);
+      const executed = await executor.getExecutedMigrations();
+      if (executed.length > 0) {
+        throw new Error(`The database already has migrations (${executed.map(({ name }) => name).join(', ')}); baseline applies to databases without any`);
+      }
+      const [baseline] = await executor.getAllMigrations();
+      if (!baseline) {
+        return undefined;
+      }
+      await executor.insertMigration(baseline);
+      this.logger.log(`Migration ${baseline.name} recorded as the baseline`, { module: 'MigrationService' });
+      return baseline.name;
+    });
+  }
+
+  /**
+   * List every migration, in the order they run, with whether it has run
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const executor = new MigrationExecutor(this.dataSource);
+    const executed = new Set((await executor.getExecutedMigrations()).map(({ name }) => name));
+    return (await executor.getAllMigrations()).map(({ name, timestamp }) => ({
+      name,
+      timestamp,
+      executed: executed.has(name),
+    }));
+  }
+
+  /**
+   * Names of the migrations that have not run yet
+   */
+  async pending(): Promise<string[]> {
+    return (await this.status()).filter(({ executed }) => !executed).map(({ name }) => name);
+  }
+
+  /**
+   * Schema changes that would bring the database in line with the entities, search indexes included
+   */
+  async getSchemaDiff(): Promise<SqlInMemory> {
+    const diff = await this.dataSource.driver.createSchemaBuilder().log();
+    const searchIndexes = await this.searchIndexService.getMissingSearchIndexQueries();
+    diff.upQueries.push(...searchIndexes.upQueries);
+    diff.downQueries.push(...searchIndexes.downQueries);
+    return diff;
+  }
+
+  /**
+   * Generate a migration with the changes between the entities and a database where every migration has run,
+   * and add it to the registry of the migrations directory
+   * @param name PascalCase description, e.g. AddUserPhone
+   * @returns Path of the new file, undefined when there are no changes
+   * @throws Error when migrations are pending, since the changes would repeat theirs
+   */
+  async generate(name: string): Promise<string | undefined> {
+    const { fileName, className } = nameMigration(name, Date.now());
+    const pending = await this.pending();
+    if (pending.length > 0) {
+      throw new Error(`Run the pending migrations before generating a new one: ${pending.join(', ')}`);
+    }
+    const diff = await this.getSchemaDiff();
+    if (diff.upQueries.length === 0) {
+      return undefined;
+    }
+
+    const { directory } = this.config;
+    const path = join(directory, fileName);
+    await fs.writeFile(path, renderMigration(className, diff));
+    await fs.writeFile(join(directory, MIGRATION_REGISTRY_FILE), renderMigrationRegistry(await fs.readdir(directory)));
+    return path;
+  }
+
+  /**
+   * Check that every migration has run and that the entities need no further schema changes
+   * (i.e., no entity change lacks its migration)
+   * @returns Pending migrations and unmigrated changes; both empty when in sync
+   */
+  async check(): Promise<MigrationCheck> {
+    const pending = await this.pending();
+    // The diff against a database missing migrations would list their changes too
+    const drift = pending.length > 0 ? [] : (await this.getSchemaDiff()).upQueries.map(({ query }) => query);
+    return { pending, drift };
+  }
+
+  /**
+   * Run work while holding the migration lock, waiting up to MIGRATIONS_LOCK_TIMEOUT_MS for it
+   */
+  private async withLock<R>(work: () => Promise<R>): Promise<R> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    try {
+      const deadline = Date.now() + this.config.lockTimeoutMs;
+      // Advisory locks belong to the session of this query runner; migrations run on other connections
+      while (!(await queryRunner.query('SELECT pg_try_advisory_lock($1) AS "locked"', [MIGRATION_LOCK_KEY]))[0].locked) {
+        if (Date.now() >= deadline) {
+          throw new Error(`Timed out after ${this.config.lockTimeoutMs} ms waiting for another instance to finish migrating`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+      }
+      try {
+        return await work();
+      } finally {
+        await queryRunner.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+      }
+    } finally {
+      await queryRunner.release();
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import { Column, DataSource, Entity, Equal, FindOptionsWhere } from 'typeorm';
+import { AccessDeniedException, RequestContext } from '@libs/backend-common';
+import { FilterOperator } from '@libs/shared';
+import { BaseEntityWithTimestamps } from '../users/entities/base.entity';
+import { BaseService } from '../users/services/base.service';
+import { Policy } from '../decorators/policy.decorator';
+import { PolicyRule, compilePolicy, getCurrentSubject, isActionAllowed } from './policy-engine';
+
+const rules: PolicyRule[] = [
+  { action: ['read', 'update', 'delete'], roles: ['admin'] },
+  { action: 'read', roles: ['member'], conditions: (user) => ({ organizationId: user['organizationId'] as string }) },
+  { action: 'update', roles: ['member'], conditions: (user) => ({ id: user.id }) },
+];
+
+@Entity('members')
+@Policy(rules)
+class Member extends BaseEntityWithTimestamps {
+  @Column()
+  organizationId!: string;
+
+  @Column()
+  name!: string;
+}
+
+class MemberService extends BaseService<Member> {
+  toSql(where: FindOptionsWhere<Member>[] | undefined) {
+    return this.repository
+      .createQueryBuilder('Member')
+      .setFindOptions({ where: this.scopeWhere(where, 'read') })
+      .getQueryAndParameters();
+  }
+
+  check(action: 'read' | 'update', member: Partial<Member>) {
+    this.authorize(action, [this.repository.create(member)]);
+  }
+}
+
+describe('policy-engine', () => {
+  const member = { id: 'u1', roles: ['member'], organizationId: 'o1' };
+
+  describe('compilePolicy', () => {
+    it('should combine the conditions of the applicable rules with OR', () => {
+      expect(compilePolicy(rules, 'read', member)).toEqual({
+        granted: 'some',
+        filter: { kind: 'comparison', prop: 'organizationId', operator: FilterOperator.EQ, value: 'o1' },
+      });
+      expect(compilePolicy([...rules, { action: 'read', conditions: () => ({ id: ['u1', 'u2'] }) }], 'read', member))
+        .toEqual({
+          granted: 'some',
+          filter: {
+            kind: 'or',
+            operands: [
+              { kind: 'comparison', prop: 'organizationId', operator: FilterOperator.EQ, value: 'o1' },
+              { kind: 'comparison', prop: 'id', operator: FilterOperator.IN, value: ['u1', 'u2'] },
+            ],
+          },
+        });
+    });
+
+    it('should grant all entities to unconditional rules and none without a rule', () => {
+      expect(compilePolicy(rules, 'read', { roles: ['admin'] })).toEqual({ granted: 'all' });
+      expect(compilePolicy(rules, 'delete', member)).toEqual({ granted: 'none' });
+      // Conditions on attributes the user lacks never hold
+      expect(compilePolicy(rules, 'update', { roles: ['member'] })).toEqual({ granted: 'none' });
+    });
+  });
+
+  describe('isActionAllowed', () => {
+    it('should check the conditions against a loaded entity', () => {
+      expect(isActionAllowed(rules, 'update', member, { id: 'u1', organizationId: 'o1' })).toBe(true);
+      expect(isActionAllowed(rules, 'update', member, { id: 'u2', organizationId: 'o1' })).toBe(false);
+      expect(isActionAllowed(rules, 'read', member, { id: 'u2', organizationId: 'o2' })).toBe(false);
+      expect(isActionAllowed(rules, 'delete', { roles: ['admin'] }, { id: 'u2' })).toBe(true);
+    });
+  });
+
+  describe('getCurrentSubject', () => {
+    it('should build the subject from the authenticated user', () => {
+      const subject = RequestContext.run({ correlationId: 'c1', user: { id: 7, roles: ['member'] } }, getCurrentSubject);
+
+      expect(subject).toEqual({ id: '7', roles: ['member'] });
+    });
+
+    it('should be anonymous without an authenticated user, whatever the userId of the context', () => {
+      // e.g., a userId taken from the X-User-Id header
+      const subject = RequestContext.run({ correlationId: 'c1', userId: 'u1' }, getCurrentSubject);
+
+      expect(subject).toEqual({ roles: [] });
+      expect(compilePolicy([{ action: 'update', conditions: (user) => ({ id: user.id }) }], 'update', subject)).toEqual({
+        granted: 'none',
+      });
+      expect(getCurrentSubject()).toEqual({ roles: [] });
+    });
+  });
+
+  describe('BaseService', () => {
+    // Metadata is built without connecting to a database
+    const dataSource = new DataSource({ type: 'postgres', entities: [Member] });
+    let service: MemberService;
+
+    const asUser = <R>(user: Record<string, unknown> | undefined, work: () => R) =>
+      RequestContext.run({ correlationId: 'c1', userId: user?.['id'] as string, user }, work);
+
+    beforeAll(async () => {
+      await (dataSource as unknown as { buildMetadatas(): Promise<void> }).buildMetadatas();
+      service = new MemberService(dataSource.getRepository(Member));
+    });
+
+    it('should merge the read policy into every alternative of the filter', () => {
+      const [sql, parameters] = asUser(member, () =>
+        service.toSql([{ name: Equal('Ada') }, { organizationId: Equal('o2') }]),
+      );
+
+      expect(sql).toContain(
+        '((("Member"."name" = $1) AND ("Member"."organizationId" = $2))) OR (((("Member"."organizationId" = $3 AND "Member"."organizationId" = $4))))',
+      );
+      expect(parameters).toEqual(['Ada', 'o1', 'o2', 'o1']);
+      expect(() => asUser(undefined, () => service.toSql(undefined))).toThrow(AccessDeniedException);
+    });
+
+    it('should deny single entities the policy does not grant', () => {
+      asUser(member, () => {
+        expect(() => service.check('update', { id: 'u1', organizationId: 'o1' })).not.toThrow();
+        expect(() => service.check('update', { id: 'u2', organizationId: 'o1' })).toThrow(
+          'Not allowed to update Member',
+        );
+      });
+    });
+  });
+});
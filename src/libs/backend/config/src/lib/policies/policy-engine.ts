@@ -0,0 +1,173 @@
+/**
+ * Row-Level Authorization Policies
+ * Compile declarative ability rules to filters merged into queries, and check them against loaded entities
+ */
+
+import { FilterComparisonNode, FilterNode, FilterOperator } from '@libs/shared';
+import { RequestContext } from '@libs/backend-common';
+
+/**
+ * Action a rule grants
+ */
+export type PolicyAction = 'read' | 'create' | 'update' | 'delete';
+
+/**
+ * Acting user that rules are evaluated for
+ */
+export interface PolicySubject {
+  /** Id of the user, undefined for anonymous requests */
+  id?: string;
+  /** Roles of the user */
+  roles?: string[];
+  /** Other attributes of the user (e.g., organizationId from the token) */
+  [attribute: string]: unknown;
+}
+
+/**
+ * Value a property must have: a single value (null for no value) or any of a list of values
+ */
+export type PolicyConditionValue = string | number | boolean | null | (string | number | boolean)[];
+
+/**
+ * Conditions on entity properties (columns), all of which must hold.
+ * A condition on an undefined value (e.g., an attribute the user lacks) never holds.
+ */
+export type PolicyConditions = Record<string, PolicyConditionValue | undefined>;
+
+/**
+ * Ability rule: grants actions on the entities matching its conditions.
+ * Rules are combined with OR: an action is allowed on an entity when any rule grants it.
+ */
+export interface PolicyRule {
+  /** Actions granted */
+  action: PolicyAction | PolicyAction[];
+  /** Roles the rule applies to; every user when omitted */
+  roles?: string[];
+  /** Conditions of the entities the rule grants access to, for the acting user; every entity when omitted */
+  conditions?: (subject: PolicySubject) => PolicyConditions;
+}
+
+/**
+ * Entities an action is allowed on
+ */
+export type PolicyScope =
+  | { granted: 'all' }
+  | { granted: 'none' }
+  | { granted: 'some'; filter: FilterNode };
+
+/**
+ * Get the acting user of the current request
+ * @returns Subject built from the authenticated user (request.user) and its attributes, or an anonymous subject
+ * without id or roles when there is none (RequestContext.userId alone is not trusted: it may come from a header)
+ */
+export function getCurrentSubject(): PolicySubject {
+  const user = RequestContext.current()?.user;
+  if (!user) {
+    return { roles: [] };
+  }
+  const roles = user['roles'];
+  return {
+    ...user,
+    id: user['id'] !== undefined && user['id'] !== null ? String(user['id']) : undefined,
+    roles: Array.isArray(roles) ? roles.map(String) : [],
+  };
+}
+
+/**
+ * Get the rules that apply to an action and a user
+ */
+function getApplicableRules(rules: PolicyRule[], action: PolicyAction, subject: PolicySubject): PolicyRule[] {
+  return rules.filter(
+    (rule) =>
+      (Array.isArray(rule.action) ? rule.action : [rule.action]).includes(action) &&
+      (!rule.roles || rule.roles.some((role) => subject.roles?.includes(role)))
+  );
+}
+
+/**
+ * Convert the conditions of a rule to a filter
+ * @returns Filter, null when the conditions match every entity, undefined when they match none
+ */
+function compileConditions(conditions: PolicyConditions): FilterNode | null | undefined {
+  const operands: FilterComparisonNode[] = [];
+  for (const [prop, value] of Object.entries(conditions)) {
+    if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+      return undefined;
+    }
+    operands.push(
+      Array.isArray(value)
+        ? { kind: 'comparison', prop, operator: FilterOperator.IN, value }
+        : { kind: 'comparison', prop, operator: FilterOperator.EQ, value }
+    );
+  }
+  if (operands.length === 0) {
+    return null;
+  }
+  return operands.length === 1 ? operands[0] : { kind: 'and', operands };
+}
+
+/**
+ * Compile the rules of an action to the filter of the entities it is allowed on
+ * @param rules Rules of the entity
+ * @param action Action
+ * @param subject Acting user
+ * @returns All entities, none, or the entities matching a filter (the rules' conditions combined with OR)
+ */
+export function compilePolicy(rules: PolicyRule[], action: PolicyAction, subject: PolicySubject): PolicyScope {
+  const alternatives: FilterNode[] = [];
+  for (const rule of getApplicableRules(rules, action, subject)) {
+    const filter = rule.conditions ? compileConditions(rule.conditions(subject)) : null;
+    if (filter === null) {
+      return { granted: 'all' };
+    }
+    if (filter) {
+      alternatives.push(filter);
+    }
+  }
+
+  if (alternatives.length === 0) {
+    return { granted: 'none' };
+  }
+  return {
+    granted: 'some',
+    filter: alternatives.length === 1 ? alternatives[0] : { kind: 'or', operands: alternatives },
+  };
+}
+
+/**
+ * Whether an entity property has a condition value; values are compared as text (e.g., numeric ids from a token)
+ */
+function matchesValue(actual: unknown, expected: PolicyConditionValue): boolean {
+  if (Array.isArray(expected)) {
+    return expected.some((value) => matchesValue(actual, value));
+  }
+  if (expected === null || actual === null || actual === undefined) {
+    return expected === null && (actual === null || actual === undefined);
+  }
+  return String(actual) === String(expected);
+}
+
+/**
+ * Check whether an action is allowed on a loaded entity
+ * @param rules Rules of the entity
+ * @param action Action
+ * @param subject Acting user
+ * @param entity Entity
+ * @returns True when any rule grants the action on the entity
+ */
+export function isActionAllowed(
+  rules: PolicyRule[],
+  action: PolicyAction,
+  subject: PolicySubject,
+  entity: object
+): boolean {
+  return getApplicableRules(rules, action, subject).some((rule) => {
+    if (!rule.conditions) {
+      return true;
+    }
+    return Object.entries(rule.conditions(subject)).every(
+      ([prop, value]) =>
+        value !== undefined && matchesValue((entity as Record<string, unknown>)[prop], value)
+    );
+  });
+}
@@ -0,0 +1,66 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Column, DataSource, Entity, Equal, FindOptionsWhere } from 'typeorm';
+import { RequestContext } from '@libs/backend-common';
+import { TenantScopedEntity } from '../users/entities/tenant-scoped.entity';
+import { BaseService } from '../users/services/base.service';
+import { TenantContext } from './tenant-context';
+
+@Entity('invoices')
+class Invoice extends TenantScopedEntity {
+  @Column()
+  number!: string;
+}
+
+class InvoiceService extends BaseService<Invoice> {
+  toSql(where: FindOptionsWhere<Invoice>[] | undefined) {
+    return this.repository
+      .createQueryBuilder('Invoice')
+      .setFindOptions({ where: this.scopeWhere(where) })
+      .getQueryAndParameters();
+  }
+
+  assign(invoices: Partial<Invoice>[]) {
+    return this.assignScope(invoices.map((invoice) => this.repository.create(invoice)));
+  }
+}
+
+describe('tenant scoping', () => {
+  // Metadata is built without connecting to a database
+  const dataSource = new DataSource({ type: 'postgres', entities: [Invoice] });
+  let service: InvoiceService;
+
+  const asTenant = <R>(tenantId: string | undefined, work: () => R) =>
+    RequestContext.run({ correlationId: 'c1', tenantId }, work);
+
+  beforeAll(async () => {
+    await (dataSource as unknown as { buildMetadatas(): Promise<void> }).buildMetadatas();
+    service = new InvoiceService(dataSource.getRepository(Invoice));
+  });
+
+  it('should restrict every alternative of a filter to the tenant of the request', () => {
+    const [sql, parameters] = asTenant('t1', () =>
+      service.toSql([{ number: Equal('A-1') }, { tenantId: Equal('t2') }]),
+    );
+
+    expect(sql).toContain(
+      '((("Invoice"."number" = $1) AND ("Invoice"."tenantId" = $2))) OR (((("Invoice"."tenantId" = $3 AND "Invoice"."tenantId" = $4))))',
+    );
+    expect(parameters).toEqual(['A-1', 't1', 't2', 't1']);
+  });
+
+  it('should require a tenant, except for system jobs', () => {
+    expect(() => asTenant(undefined, () => service.toSql(undefined))).toThrow(ForbiddenException);
+    expect(TenantContext.runAsSystem(() => service.toSql(undefined))[0]).not.toContain('tenantId" =');
+    expect(TenantContext.runAsSystem(() => TenantContext.runAsTenant('t1', () => service.toSql(undefined)))[1]).toEqual([
+      't1',
+    ]);
+  });
+
+  it('should set the tenant on written entities and reject entities of other tenants', () => {
+    expect(asTenant('t1', () => service.assign([{ number: 'A-1' }]))[0].tenantId).toBe('t1');
+    expect(() => asTenant('t1', () => service.assign([{ number: 'A-2', tenantId: 't2' }]))).toThrow(
+      ForbiddenException,
+    );
+    expect(() => TenantContext.runAsSystem(() => service.assign([{ number: 'A-3' }]))).toThrow('tenantId is required');
+  });
+});
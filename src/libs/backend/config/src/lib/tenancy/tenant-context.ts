@@ -0,0 +1,74 @@
+import { randomUUID } from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { ForbiddenException } from '@nestjs/common';
+import { EntityMetadata } from 'typeorm';
+import { RequestContext } from '@libs/backend-common';
+import { TenantScopedEntity } from '../users/entities/tenant-scoped.entity';
+
+/**
+ * Tenant that queries of tenant-scoped entities are restricted to: the tenant of the request context,
+ * or no restriction at all within TenantContext.runAsSystem()
+ */
+export class TenantContext {
+  private static readonly systemStorage = new AsyncLocalStorage<boolean>();
+
+  /**
+   * Run work across all tenants (e.g., a system job): tenant-scoped queries are not restricted
+   * and created entities keep the tenantId they are given
+   * @param work Work to run
+   * @returns Result of the work
+   */
+  static runAsSystem<R>(work: () => R): R {
+    return TenantContext.systemStorage.run(true, work);
+  }
+
+  /**
+   * Run work for a tenant (e.g., a job acting on behalf of one tenant)
+   * @param tenantId Tenant id
+   * @param work Work to run
+   * @returns Result of the work
+   */
+  static runAsTenant<R>(tenantId: string, work: () => R): R {
+    const context = RequestContext.current();
+    return TenantContext.systemStorage.run(false, () =>
+      RequestContext.run({ ...context, correlationId: context?.correlationId ?? randomUUID(), tenantId }, work),
+    );
+  }
+
+  /**
+   * Whether the current work runs across all tenants
+   */
+  static isSystem(): boolean {
+    return TenantContext.systemStorage.getStore() === true;
+  }
+
+  /**
+   * Get the tenant of the current request
+   * @returns Tenant id, or undefined when there is none
+   */
+  static currentTenantId(): string | undefined {
+    return RequestContext.current()?.tenantId;
+  }
+
+  /**
+   * Get the tenant of the current request
+   * @returns Tenant id
+   * @throws ForbiddenException when there is no tenant
+   */
+  static requireTenantId(): string {
+    const tenantId = TenantContext.currentTenantId();
+    if (!tenantId) {
+      throw new ForbiddenException('A tenant is required (tenant of the token)');
+    }
+    return tenantId;
+  }
+}
+
+/**
+ * Whether an entity is owned by a tenant
+ * @param metadata Entity metadata
+ * @returns True for entities extending TenantScopedEntity
+ */
+export function isTenantScoped(metadata: EntityMetadata): boolean {
+  return typeof metadata.target === 'function' && metadata.target.prototype instanceof TenantScopedEntity;
+}
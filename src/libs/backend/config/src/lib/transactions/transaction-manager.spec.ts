@@ -0,0 +1,117 @@
+import { NotFoundException } from '@nestjs/common';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { LoggerService } from '@libs/backend-common';
+import { Transactional } from '../decorators/transactional.decorator';
+import { TransactionManager } from './transaction-manager';
+
+describe('TransactionManager', () => {
+  const events: string[] = [];
+  let connections = 0;
+
+  // Query runners of a fake data source record the transaction lifecycle
+  const dataSource = {
+    createQueryRunner: () => {
+      const connection = ++connections;
+      const manager = { connection, getRepository: (target: unknown) => ({ target, manager }) };
+      return {
+        manager,
+        connect: async () => events.push(`connect ${connection}`),
+        startTransaction: async () => events.push(`start ${connection}`),
+        commitTransaction: async () => events.push(`commit ${connection}`),
+        rollbackTransaction: async () => events.push(`rollback ${connection}`),
+        release: async () => events.push(`release ${connection}`),
+      };
+    },
+  } as unknown as DataSource;
+  const logger = { error: jest.fn() } as unknown as LoggerService;
+  new TransactionManager(dataSource, logger);
+
+  const currentConnection = () => (TransactionManager.current() as unknown as { connection: number }).connection;
+
+  class OrderService {
+    @Transactional()
+    async place(fail?: Error): Promise<number[]> {
+      const inner = await this.audit();
+      if (fail) {
+        throw fail;
+      }
+      return [currentConnection(), inner];
+    }
+
+    @Transactional({ propagation: 'requires-new' })
+    async audit(): Promise<number> {
+      return currentConnection();
+    }
+
+    @Transactional({ noRollbackFor: [NotFoundException] })
+    async lookup(): Promise<void> {
+      throw new NotFoundException();
+    }
+  }
+
+  beforeEach(() => {
+    events.length = 0;
+    connections = 0;
+  });
+
+  it('should share the transaction and start new ones when required', async () => {
+    expect(await new OrderService().place()).toEqual([1, 2]);
+    expect(events).toEqual(['connect 1', 'start 1', 'connect 2', 'start 2', 'commit 2', 'release 2', 'commit 1', 'release 1']);
+    expect(TransactionManager.current()).toBeUndefined();
+  });
+
+  it('should roll back on errors, HttpException included, unless excluded', async () => {
+    await expect(new OrderService().place(new NotFoundException())).rejects.toThrow(NotFoundException);
+    expect(events).toContain('rollback 1');
+
+    events.length = 0;
+    await expect(new OrderService().lookup()).rejects.toThrow(NotFoundException);
+    expect(events).toEqual(['connect 3', 'start 3', 'commit 3', 'release 3']);
+  });
+
+  it('should bind repositories to the active transaction', async () => {
+    const repository = { target: 'User', manager: {} } as unknown as Repository<object>;
+    expect(TransactionManager.getRepository(repository)).toBe(repository);
+
+    await TransactionManager.run(async () => {
+      const bound = TransactionManager.getRepository(repository);
+      expect(bound.manager).toBe(TransactionManager.current() as EntityManager);
+      expect(bound.target).toBe('User');
+    });
+  });
+
+  it('should run after-commit callbacks once committed, outside of the transaction', async () => {
+    const callbacks: (number | undefined)[] = [];
+    const record = () => {
+      callbacks.push((TransactionManager.current() as unknown as { connection: number } | undefined)?.connection);
+    };
+
+    await TransactionManager.run(async () => {
+      TransactionManager.afterCommit(record);
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(callbacks).toEqual([]);
+    });
+    await expect(
+      TransactionManager.run(async () => {
+        TransactionManager.afterCommit(record);
+        throw new Error('rolled back');
+      }),
+    ).rejects.toThrow('rolled back');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(callbacks).toEqual([undefined]);
+  });
+
+  it('should log failing after-commit callbacks', async () => {
+    await TransactionManager.run(async () => {
+      TransactionManager.afterCommit(async () => {
+        throw new Error('broker down');
+      });
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(logger.error).toHaveBeenCalledWith('After-commit callback failed: broker down', expect.any(String), {
+      module: 'TransactionManager',
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { Injectable } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+import { DataSource, EntityManager, ObjectLiteral, Repository } from 'typeorm';
+import { IsolationLevel } from 'typeorm/driver/types/IsolationLevel';
+import { LoggerService } from '@libs/backend-common';
+
+/**
+ * How a transactional call relates to the transaction already active in its async context
+ * - required: join the active transaction, or start one when there is none
+ * - requires-new: always start an independent transaction, suspending the active one
+ */
+export type TransactionPropagation = 'required' | 'requires-new';
+
+/**
+ * Options of TransactionManager.run() and @Transactional()
+ */
+export interface TransactionOptions {
+  /** Defaults to 'required' */
+  propagation?: TransactionPropagation;
+  /** Isolation level of a new transaction */
+  isolationLevel?: IsolationLevel;
+  /**
+   * Errors that commit the transaction before being rethrown (e.g., a NotFoundException that is part of the flow).
+   * Any other error, HttpException included, rolls it back.
+   */
+  noRollbackFor?: (abstract new (...args: any[]) => Error)[];
+}
+
+/**
+ * Transaction of an async context
+ */
+interface TransactionContext {
+  manager: EntityManager;
+  /** Callbacks to run once the transaction is committed */
+  afterCommit: (() => Promise<void> | void)[];
+}
+
+/**
+ * Keeps the EntityManager of the active transaction in async context, so that every repository used
+ * down the call chain (e.g., BaseService.repository) takes part in the same transaction
+ */
+@Injectable()
+export class TransactionManager {
+  private static dataSource?: DataSource;
+  private static logger?: LoggerService;
+  private static readonly storage = new AsyncLocalStorage<TransactionContext>();
+
+  constructor(dataSource: DataSource, logger: LoggerService) {
+    TransactionManager.dataSource = dataSource;
+    TransactionManager.logger = logger;
+  }
+
+  /**
+   * Get the entity manager of the active transaction
+   * @returns Transactional entity manager, or undefined outside of a transaction
+   */
+  static current(): EntityManager | undefined {
+    return TransactionManager.storage.getStore()?.manager;
+  }
+
+  /**
+   * Get the repository to use in the current async context
+   * @param repository Injected repository
+   * @returns Repository bound to the active transaction, or the injected one outside of a transaction
+   */
+  static getRepository<T extends ObjectLiteral>(repository: Repository<T>): Repository<T> {
+    const manager = TransactionManager.current();
+    return manager && manager !== repository.manager ? manager.getRepository<T>(repository.target) : repository;
+  }
+
+  /**
+   * Run a callback once the active transaction is committed (it is dropped if the transaction rolls back),
+   * or right away outside of a transaction. The callback runs outside of any transaction, without being
+   * awaited: its errors are logged, not thrown to the caller.
+   * @param callback Callback, e.g. dispatching the events recorded by the transaction
+   */
+  static afterCommit(callback: () => Promise<void> | void): void {
+    const context = TransactionManager.storage.getStore();
+    if (context) {
+      context.afterCommit.push(callback);
+    } else {
+      TransactionManager.runCallbacks([callback]);
+    }
+  }
+
+  /**
+   * Run work within a transaction
+   * @param work Work to run; repositories obtained through getRepository() take part in the transaction
+   * @param options Propagation, isolation level and errors that do not roll back
+   * @returns Result of the work, once committed
+   */
+  static async run<R>(work: () => Promise<R>, options: TransactionOptions = {}): Promise<R> {
+    const { propagation = 'required', isolationLevel, noRollbackFor = [] } = options;
+    if (propagation === 'required' && TransactionManager.current()) {
+      return await work();
+    }
+    if (!TransactionManager.dataSource) {
+      throw new Error('TransactionManager is not initialized; import BackendConfigModule');
+    }
+
+    const queryRunner = TransactionManager.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    try {
+      await queryRunner.startTransaction(isolationLevel);
+      const context: TransactionContext = { manager: queryRunner.manager, afterCommit: [] };
+      try {
+        const result = await TransactionManager.storage.run(context, work);
+        await queryRunner.commitTransaction();
+        TransactionManager.runCallbacks(context.afterCommit);
+        return result;
+      } catch (error) {
+        if (noRollbackFor.some((type) => error instanceof type)) {
+          await queryRunner.commitTransaction();
+          TransactionManager.runCallbacks(context.afterCommit);
+        } else {
+          await queryRunner.rollbackTransaction();
+        }
+        throw error;
+      }
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Start after-commit callbacks outside of the transaction context; a failing callback is logged
+   */
+  private static runCallbacks(callbacks: (() => Promise<void> | void)[]): void {
+    TransactionManager.storage.exit(() => {
+      callbacks.forEach((callback) => {
+        void Promise.resolve()
+          .then(callback)
+          .catch((error) => {
+            TransactionManager.logger?.error(
+              `After-commit callback failed: ${error instanceof Error ? error.message : String(error)}`,
+              error instanceof Error ? error.stack : undefined,
+              { module: 'TransactionManager' },
+            );
+          });
+      });
+    });
+  }
+}
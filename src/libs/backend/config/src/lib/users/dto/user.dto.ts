@@ -1,4 +1,16 @@
-import { IsEmail, IsNotEmpty, IsOptional, MinLength } from 'class-validator';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MinLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { BULK_MAX_ITEMS } from '../../utils/bulk-operations';
 
 export class CreateUserDto {
   @IsNotEmpty()
@@ -33,3 +45,19 @@ export class UpdateUserDto {
   bio?: string;
 }
 
+export class CreateUsersBatchDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(BULK_MAX_ITEMS)
+  @ValidateNested({ each: true })
+  @Type(() => CreateUserDto)
+  items!: CreateUserDto[];
+}
+
+export class UpsertUsersBatchDto extends CreateUsersBatchDto {
+  // Properties of a unique key matching existing users; defaults to email
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  conflictPaths?: string[];
+}
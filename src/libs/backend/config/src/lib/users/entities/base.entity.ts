@@ -1,8 +1,18 @@
-import { CreateDateColumn, UpdateDateColumn, PrimaryGeneratedColumn, BaseEntity } from 'typeorm';
+import {
+  CreateDateColumn,
+  UpdateDateColumn,
+  DeleteDateColumn,
+  PrimaryGeneratedColumn,
+  VersionColumn,
+  BaseEntity,
+} from 'typeorm';
 import { Exclude } from 'class-transformer';
+import { FilterOperator } from '@libs/shared';
+import { Filterable, Sortable } from '../../decorators/query-field.decorators';
 
 export abstract class BaseEntityWithTimestamps extends BaseEntity {
   @PrimaryGeneratedColumn('uuid')
+  @Filterable({ operators: [FilterOperator.EQ, FilterOperator.NE, FilterOperator.IN, FilterOperator.NOT_IN] })
   id!: string;
 
   @CreateDateColumn({
@@ -10,6 +20,8 @@ export abstract class BaseEntityWithTimestamps extends BaseEntity {
     default: () => 'CURRENT_TIMESTAMP',
   })
   @Exclude({ toPlainOnly: true })
+  @Filterable()
+  @Sortable()
   createdAt!: Date;
 
   @UpdateDateColumn({
@@ -18,6 +30,17 @@ export abstract class BaseEntityWithTimestamps extends BaseEntity {
     onUpdate: 'CURRENT_TIMESTAMP',
   })
   @Exclude({ toPlainOnly: true })
+  @Filterable()
+  @Sortable()
   updatedAt!: Date;
-}
 
+  /** Set when the entity is soft deleted; soft-deleted rows are left out of queries unless withDeleted is set */
+  @DeleteDateColumn({ type: 'timestamp', nullable: true })
+  @Filterable()
+  @Sortable()
+  deletedAt?: Date | null;
+
+  /** Incremented on every save; exposed as the ETag for optimistic concurrency */
+  @VersionColumn({ default: 1 })
+  version!: number;
+}
@@ -0,0 +1,13 @@
+import { Column, Index } from 'typeorm';
+import { BaseEntityWithTimestamps } from './base.entity';
+
+/**
+ * Base of entities owned by a tenant.
+ * BaseService restricts every query to the tenant of the request and sets it on the entities it creates;
+ * TenantContext.runAsSystem() lifts the restriction for system jobs.
+ */
+export abstract class TenantScopedEntity extends BaseEntityWithTimestamps {
+  @Column({ length: 128 })
+  @Index()
+  tenantId!: string;
+}
@@ -1,30 +1,56 @@
 import { Entity, Column, Index } from 'typeorm';
 import { IsEmail, IsNotEmpty, MinLength } from 'class-validator';
 import { BaseEntityWithTimestamps } from '../entities/base.entity';
+import {
+  Filterable,
+  Searchable,
+  SearchVectorColumn,
+  Sortable,
+} from '../../decorators/query-field.decorators';
+import { Audited } from '../../decorators/audited.decorator';
+import { Cacheable } from '../../decorators/cacheable.decorator';
 
 @Entity('users')
+@Audited()
+@Cacheable({ ttlMs: 60000, lists: true })
 export class User extends BaseEntityWithTimestamps {
   @Column({ length: 100 })
   @IsNotEmpty()
   @MinLength(2)
+  @Filterable()
+  @Sortable()
+  @Searchable({ weight: 'A' })
   firstName!: string;
 
   @Column({ length: 100 })
   @IsNotEmpty()
   @MinLength(2)
+  @Filterable()
+  @Sortable()
+  @Searchable({ weight: 'A' })
   lastName!: string;
 
   @Column({ length: 255 })
   @IsEmail()
   @Index({ unique: true })
+  @Filterable()
+  @Sortable()
+  @Searchable({ weight: 'B' })
   email!: string;
 
   @Column({ type: 'text', nullable: true })
+  @Searchable({ weight: 'C' })
   bio?: string;
 
   @Column({ default: true })
+  @Filterable()
+  @Sortable()
   isActive!: boolean;
 
+  // Generated from the @Searchable() properties above, used by $search
+  @SearchVectorColumn()
+  searchVector?: string;
+
   // Virtual property for full name
   get fullName(): string {
     return `${this.firstName} ${this.lastName}`;
@@ -0,0 +1,133 @@
+import { NotFoundException } from '@nestjs/common';
+import { IsString } from 'class-validator';
+import { Column, DataSource, Entity, IsNull, Not, Repository, SelectQueryBuilder } from 'typeorm';
+import { LoggerService } from '@libs/backend-common';
+import { BaseEntityWithTimestamps } from '../entities/base.entity';
+import { TransactionManager } from '../../transactions/transaction-manager';
+import { BaseService } from './base.service';
+
+@Entity('notes')
+class Note extends BaseEntityWithTimestamps {
+  @Column()
+  title!: string;
+}
+
+class NoteDto {
+  @IsString()
+  title!: string;
+}
+
+class NoteService extends BaseService<Note> {
+  stripReadOnly(data: Partial<Note>): Partial<Note> {
+    return this.omitReadOnly(data);
+  }
+}
+
+describe('BaseService', () => {
+  // Metadata is built without connecting to a database
+  const dataSource = new DataSource({ type: 'postgres', entities: [Note] });
+  let repository: Repository<Note>;
+  let service: NoteService;
+
+  const note = (values: Partial<Note>) => Object.assign(new Note(), { id: 'n1', title: 'Draft', version: 1 }, values);
+
+  beforeAll(async () => {
+    await (dataSource as unknown as { buildMetadatas(): Promise<void> }).buildMetadatas();
+    repository = dataSource.getRepository(Note);
+    // Transactions run on the manager of the repository, so the repository is used as is
+    new TransactionManager({
+      createQueryRunner: () => ({
+        manager: repository.manager,
+        connect: jest.fn(),
+        startTransaction: jest.fn(),
+        commitTransaction: jest.fn(),
+        rollbackTransaction: jest.fn(),
+        release: jest.fn(),
+      }),
+    } as unknown as DataSource, { error: jest.fn() } as unknown as LoggerService);
+  });
+
+  beforeEach(() => {
+    service = new NoteService(repository);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('restore', () => {
+    it('should not find entities that are not soft deleted', async () => {
+      const findOne = jest.spyOn(repository, 'findOne').mockResolvedValue(null);
+      const recover = jest.spyOn(repository, 'recover');
+
+      await expect(service.restore('n1')).rejects.toThrow(NotFoundException);
+      expect(findOne).toHaveBeenCalledWith({ where: { id: 'n1', deletedAt: Not(IsNull()) }, withDeleted: true });
+      expect(recover).not.toHaveBeenCalled();
+    });
+
+    it('should recover a soft-deleted entity and return it', async () => {
+      const deleted = note({ deletedAt: new Date('2026-01-01') });
+      const restored = note({ deletedAt: null, version: 2 });
+      jest.spyOn(repository, 'findOne').mockResolvedValueOnce(deleted).mockResolvedValueOnce(restored);
+      const recover = jest.spyOn(repository, 'recover').mockResolvedValue(restored);
+
+      expect(await service.restore('n1')).toBe(restored);
+      expect(recover).toHaveBeenCalledWith(deleted);
+    });
+  });
+
+  describe('patch', () => {
+    it('should apply the patch to the locked row and save it over that version', async () => {
+      const findOne = jest.spyOn(repository, 'findOne').mockResolvedValue(note({ version: 3 }));
+      const save = jest.spyOn(repository, 'save').mockImplementation(async (entity) => entity as Note);
+
+      const updated = await service.patch('n1', { kind: 'merge', patch: { title: 'Final' } }, NoteDto);
+      expect(findOne).toHaveBeenCalledWith({ where: { id: 'n1' }, lock: { mode: 'pessimistic_write' } });
+      expect(save).toHaveBeenCalled();
+      expect(updated).toMatchObject({ title: 'Final', version: 3 });
+    });
+  });
+
+  describe('findDeleted', () => {
+    it('should list only the soft-deleted entities', async () => {
+      const queries: string[] = [];
+      jest.spyOn(SelectQueryBuilder.prototype, 'getMany').mockImplementation(async function (
+        this: SelectQueryBuilder<Note>,
+      ) {
+        queries.push(this.getQuery());
+        return [];
+      });
+
+      expect(await service.findDeleted({ top: 10, skip: 0 })).toEqual({ items: [] });
+      expect(queries[0]).toContain('NOT("Note"."deletedAt" IS NULL)');
+      // withDeleted: the default condition leaving soft-deleted rows out is not added on top
+      expect(queries[0].match(/IS NULL/g)).toHaveLength(1);
+    });
+  });
+
+  describe('purge', () => {
+    it('should permanently remove an entity, soft deleted or not', async () => {
+      const deleted = note({ deletedAt: new Date('2026-01-01') });
+      const findOne = jest.spyOn(repository, 'findOne').mockResolvedValue(deleted);
+      const remove = jest.spyOn(repository, 'remove').mockResolvedValue(deleted);
+
+      await service.purge('n1');
+      expect(findOne).toHaveBeenCalledWith({ where: { id: 'n1' }, withDeleted: true });
+      expect(remove).toHaveBeenCalledWith(deleted);
+    });
+
+    it('should not find missing entities', async () => {
+      jest.spyOn(repository, 'findOne').mockResolvedValue(null);
+      const remove = jest.spyOn(repository, 'remove');
+
+      await expect(service.purge('n1')).rejects.toThrow(NotFoundException);
+      expect(remove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('omitReadOnly', () => {
+    it('should leave out the primary, date and version columns', () => {
+      const changes = { id: 'n2', title: 'Final', createdAt: new Date(), deletedAt: null, version: 7 };
+
+      expect(service.stripReadOnly(changes)).toEqual({ title: 'Final' });
+    });
+  });
+});
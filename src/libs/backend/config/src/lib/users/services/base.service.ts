@@ -1,19 +1,273 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
-import { Repository, FindManyOptions, FindOneOptions, DeepPartial, FindOptionsWhere } from 'typeorm';
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException, Type } from '@nestjs/common';
+import {
+  Repository,
+  FindManyOptions,
+  FindOneOptions,
+  DeepPartial,
+  Equal,
+  FindOperator,
+  FindOptionsWhere,
+  FindOptionsOrder,
+  In,
+  IsNull,
+  Not,
+} from 'typeorm';
+import { instanceToPlain } from 'class-transformer';
+import { getMetadataStorage } from 'class-validator';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+import { ReadStream } from 'typeorm/platform/PlatformTools';
+import {
+  AccessDeniedException,
+  ConcurrencyConflictException,
+  DuplicateResourceException,
+  InvalidOperationException,
+  ValidationPipe,
+} from '@libs/backend-common';
 import { BaseEntityWithTimestamps } from '../entities/base.entity';
-import { PaginatedResponse } from '@libs/shared';
+import { TenantScopedEntity } from '../entities/tenant-scoped.entity';
+import {
+  BulkOperationResponse,
+  CursorPaginatedResponse,
+  FilterNode,
+  FilterOperator,
+  ODataQueryOptions,
+  OrderByItem,
+  PaginatedResponse,
+  QueryResponse,
+} from '@libs/shared';
+import {
+  DEFAULT_PAGE_SIZE,
+  applyExpandToQueryBuilder,
+  buildNextLink,
+  convertQueryOptionsToFindManyOptions,
+} from '../../utils/odata-query-backend';
+import {
+  addConditionToWhere,
+  convertFilterTreeToFindOptionsWhere,
+  restrictWhere,
+} from '../../utils/odata-filter-backend';
+import {
+  CursorPaginationOptions,
+  addKeysetCondition,
+  buildKeysetCondition,
+  decodeCursor,
+  describeSort,
+  encodeCursor,
+} from '../../utils/cursor-pagination';
+import {
+  applyAggregationToQueryBuilder,
+  countAggregationRows,
+  toAggregateRows,
+} from '../../utils/odata-apply-backend';
+import { validateApplyOptions, validateQueryOptions } from '../../utils/query-field-validation';
+import { EntityExport, getExportColumns } from '../../utils/export-backend';
+import { EntityPatch, applyJsonPatch, applyMergePatch, checkPatchPaths } from '../../utils/json-patch';
+import {
+  BULK_MAX_ITEMS,
+  runBulkOperation,
+  summarizeBulkResults,
+} from '../../utils/bulk-operations';
+import { TransactionManager } from '../../transactions/transaction-manager';
+import { DomainEventBus } from '../../events/services/domain-event-bus';
+import { EntityCache } from '../../cache/entity-cache';
+import { TenantContext, isTenantScoped } from '../../tenancy/tenant-context';
+import { EntityEventAction, EntityEventPayload, entityEventType } from '../../events/domain-event';
+import { getPolicyRules } from '../../decorators/policy.decorator';
+import {
+  PolicyAction,
+  PolicyScope,
+  compilePolicy,
+  getCurrentSubject,
+  isActionAllowed,
+} from '../../policies/policy-engine';
+import {
+  addSearchCondition,
+  applySearchRanking,
+  extractSearchHighlights,
+} from '../../utils/search-backend';
+
+/**
+ * Options of the queries that can include soft-deleted rows
+ */
+export interface SoftDeleteQueryOptions {
+  /** Include soft-deleted rows, which are left out by default */
+  withDeleted?: boolean;
+}
 
 @Injectable()
 export abstract class BaseService<T extends BaseEntityWithTimestamps> {
-  constructor(protected readonly repository: Repository<T>) {}
+  private readonly validator = new ValidationPipe();
+
+  constructor(private readonly injectedRepository: Repository<T>) {}
+
+  /**
+   * Repository of the entity, bound to the transaction of the TransactionManager when one is active
+   */
+  protected get repository(): Repository<T> {
+    return TransactionManager.getRepository(this.injectedRepository);
+  }
 
   async create(data: DeepPartial<T>): Promise<T> {
-    const entity = this.repository.create(data);
-    return await this.repository.save(entity);
+    return await TransactionManager.run(async () => {
+      const [created] = this.assignScope([this.repository.create(data)]);
+      this.authorize('create', [created]);
+      const entity = await this.repository.save(created);
+      await this.recordChanges('Created', [entity]);
+      return entity;
+    });
+  }
+
+  /**
+   * Create many entities in one transaction
+   * @param items Entities to create
+   * @returns Result of each item; the other items are created even when some fail (e.g., duplicates)
+   */
+  async createMany(items: DeepPartial<T>[]): Promise<BulkOperationResponse<T>> {
+    return await TransactionManager.run(async () => {
+      const repository = this.repository;
+      const results = await runBulkOperation(
+        repository.manager,
+        items,
+        async (chunk) => {
+          const created = this.assignScope(repository.create(chunk));
+          this.authorize('create', created);
+          const entities = await repository.save(created);
+          await this.recordChanges('Created', entities);
+          return entities;
+        },
+        (entity) => entity.id
+      );
+      return summarizeBulkResults(results);
+    });
+  }
+
+  /**
+   * Create or update many entities in one transaction: items matching an entity on the conflict paths
+   * update it, the others are created
+   * @param items Entities to create or update
+   * @param conflictPaths Properties of a unique key of the entity (e.g., ['email'])
+   * @returns Result of each item; the other items are written even when some fail
+   * @throws BadRequestException when the conflict paths are not a unique key
+   */
+  async upsert(items: DeepPartial<T>[], conflictPaths: string[]): Promise<BulkOperationResponse<T>> {
+    const keyColumns = this.getUniqueKeyColumnsOrFail(conflictPaths);
+    const deleteDateColumn = this.repository.metadata.deleteDateColumn;
+    const keyOf = (entity: object) =>
+      JSON.stringify(keyColumns.map((column) => column.getEntityValue(entity) ?? null));
+
+    return await TransactionManager.run(async () => {
+      const repository = this.repository;
+      const results = await runBulkOperation(
+        repository.manager,
+        items,
+        async (chunk) => {
+          const criteria = chunk.map((item) =>
+            Object.fromEntries(
+              keyColumns.map((column) => {
+                const value = column.getEntityValue(item);
+                if (value === undefined || value === null) {
+                  throw new BadRequestException(`Missing value of ${conflictPaths.join(', ')}`);
+                }
+                return [column.propertyName, value];
+              })
+            )
+          );
+          const current = await repository.find({
+            where: this.scopeWhere(criteria as FindOptionsWhere<T>[]),
+            withDeleted: true,
+          });
+          const existing = new Map(current.map((entity) => [keyOf(entity), entity]));
+
+          const isNew = chunk.map((item) => !existing.has(keyOf(item)));
+          const written = this.assignScope(
+            chunk.map((item) => {
+              const match = existing.get(keyOf(item));
+              if (match && deleteDateColumn?.getEntityValue(match)) {
+                throw new DuplicateResourceException(
+                  this.repository.metadata.name,
+                  conflictPaths.join(', '),
+                  keyColumns.map((column) => column.getEntityValue(item)).join(', ')
+                );
+              }
+              if (match) {
+                this.authorize('update', [match]);
+              }
+              return match ? repository.merge(match, item) : repository.create(item);
+            })
+          );
+          this.authorize('create', written.filter((_, index) => isNew[index]));
+          this.authorize('update', written.filter((_, index) => !isNew[index]));
+          const entities = await repository.save(written);
+          await this.recordChanges('Created', entities.filter((_, index) => isNew[index]));
+          await this.recordChanges('Updated', entities.filter((_, index) => !isNew[index]));
+          return entities;
+        },
+        (entity) => entity.id
+      );
+      return summarizeBulkResults(results);
+    });
+  }
+
+  /**
+   * Update the entities matching a filter in one transaction
+   * @param filter Parsed $filter (required)
+   * @param patch Changes applied to every matching entity
+   * @returns Result of each matching entity
+   * @throws BadRequestException when there is no filter or it matches more than BULK_MAX_ITEMS entities
+   */
+  async updateWhere(filter: FilterNode | null | undefined, patch: DeepPartial<T>): Promise<BulkOperationResponse<T>> {
+    return await TransactionManager.run(async () => {
+      const repository = this.repository;
+      const ids = await this.findIdsByFilter(filter, 'update');
+      const results = await runBulkOperation(
+        repository.manager,
+        ids,
+        async (chunk) => {
+          const entities = await this.findByIdsOrFail(chunk);
+          const changed = this.assignScope(entities.map((entity) => repository.merge(entity, patch)));
+          // The changes must not move entities out of what the user may update
+          this.authorize('update', changed);
+          const updated = await repository.save(changed);
+          await this.recordChanges('Updated', updated);
+          return updated;
+        },
+        (entity) => entity.id
+      );
+      return summarizeBulkResults(results);
+    });
+  }
+
+  /**
+   * Delete the entities matching a filter in one transaction.
+   * Entities with a @DeleteDateColumn are soft deleted, others are removed.
+   * @param filter Parsed $filter (required)
+   * @returns Result of each matching entity
+   * @throws BadRequestException when there is no filter or it matches more than BULK_MAX_ITEMS entities
+   */
+  async deleteWhere(filter: FilterNode | null | undefined): Promise<BulkOperationResponse<T>> {
+    const softDelete = this.repository.metadata.deleteDateColumn !== undefined;
+
+    return await TransactionManager.run(async () => {
+      const repository = this.repository;
+      const ids = await this.findIdsByFilter(filter, 'delete');
+      const results = await runBulkOperation(
+        repository.manager,
+        ids,
+        async (chunk) => {
+          const entities = await this.findByIdsOrFail(chunk);
+          const removed = softDelete ? await repository.softRemove(entities) : await repository.remove(entities);
+          await this.recordChanges('Deleted', chunk);
+          return removed;
+        },
+        // Removed entities no longer hold their id
+        (_, id) => id
+      );
+      return summarizeBulkResults(results);
+    });
   }
 
   async findAll(options?: FindManyOptions<T>): Promise<T[]> {
-    return await this.repository.find(options);
+    return await this.repository.find({ ...options, where: this.scopeWhere(options?.where, 'read') });
   }
 
   /**
@@ -22,20 +276,23 @@ export abstract class BaseService<T extends BaseEntityWithTimestamps> {
    * @param pageSize Number of items per page
    * @param where Optional where conditions
    * @param relations Optional relations to load
+   * @param order Optional sort order
    * @returns Paginated response with items and total count
    */
   async findAllPaginated(
     page: number = 1,
     pageSize: number = 10,
-    where?: FindOptionsWhere<T>,
-    relations?: string[]
+    where?: FindOptionsWhere<T> | FindOptionsWhere<T>[],
+    relations?: string[],
+    order?: FindOptionsOrder<T>
   ): Promise<PaginatedResponse<T>> {
     const skip = (page - 1) * pageSize;
     const take = pageSize;
 
     const [items, total] = await this.repository.findAndCount({
-      where,
+      where: this.scopeWhere(where, 'read'),
       relations,
+      order,
       skip,
       take,
     });
@@ -63,6 +320,7 @@ export abstract class BaseService<T extends BaseEntityWithTimestamps> {
 
     const [items, total] = await this.repository.findAndCount({
       ...options,
+      where: this.scopeWhere(options.where, 'read'),
       skip,
       take,
     });
@@ -73,42 +331,799 @@ export abstract class BaseService<T extends BaseEntityWithTimestamps> {
     };
   }
 
+  /**
+   * Find a page with keyset (cursor) pagination: rows are located from the row encoded in the cursor
+   * instead of being skipped, so deep pages stay fast and rows are not skipped or repeated when data changes
+   * @param options Sort keys, cursor, page size, filter and cursor secret
+   * @returns Items of the page with the cursors of the next and previous pages, when there are more rows
+   */
+  async findAllByCursor(options: CursorPaginationOptions): Promise<CursorPaginatedResponse<T>> {
+    const metadata = this.repository.metadata;
+    const alias = metadata.name;
+    const primaryColumn = metadata.primaryColumns[0];
+    const sortKeys = options.sort ?? [];
+
+    const { filter } = validateQueryOptions(
+      {
+        filter: options.filter,
+        orderBy: sortKeys.filter(({ prop }) => prop !== primaryColumn.propertyName),
+      },
+      metadata
+    );
+    const sort: OrderByItem[] = sortKeys.some(({ prop }) => prop === primaryColumn.propertyName)
+      ? sortKeys
+      : [...sortKeys, { prop: primaryColumn.propertyName, direction: 'asc' }];
+    const sortSpec = describeSort(sort);
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
+    const cursor = options.cursor ? decodeCursor(options.cursor, options.secret, sortSpec) : undefined;
+    const backwards = cursor?.direction === 'prev';
+    // Previous pages are read backwards from the cursor, then put back in order
+    const querySort: OrderByItem[] = backwards
+      ? sort.map(({ prop, direction }) => ({ prop, direction: direction === 'asc' ? 'desc' : 'asc' }))
+      : sort;
+
+    let where = convertFilterTreeToFindOptionsWhere<T>(filter ?? null, metadata);
+    if (cursor) {
+      where = addKeysetCondition(
+        where,
+        primaryColumn.propertyName,
+        buildKeysetCondition(
+          alias,
+          querySort.map((key) => ({
+            ...key,
+            nullable: metadata.findColumnWithPropertyName(key.prop)?.isNullable,
+          })),
+          cursor.values
+        )
+      );
+    }
+
+    const queryBuilder = this.repository
+      .createQueryBuilder(alias)
+      .setFindOptions({ where: this.scopeWhere(where.length > 0 ? where : undefined, 'read'), take: limit + 1 });
+    querySort.forEach(({ prop, direction }) => {
+      // Cursor values are read as text to keep the database precision (e.g., microseconds)
+      queryBuilder
+        .addSelect(`CAST(${alias}.${prop} AS TEXT)`, `cursor_${prop}`)
+        .addOrderBy(
+          `${alias}.${prop}`,
+          direction === 'desc' ? 'DESC' : 'ASC',
+          direction === 'desc' ? 'NULLS FIRST' : 'NULLS LAST'
+        );
+    });
+
+    const { entities, raw } = await queryBuilder.getRawAndEntities();
+    const hasMore = entities.length > limit;
+    const page = entities.slice(0, limit);
+    const items = backwards ? page.reverse() : page;
+
+    const createCursor = (direction: 'next' | 'prev', item: T) => {
+      const id = String(primaryColumn.getEntityValue(item));
+      const row = raw.find((candidate) => String(candidate[`${alias}_${primaryColumn.databaseName}`]) === id);
+      const values = sort.map(({ prop }) => (row?.[`cursor_${prop}`] as string | null) ?? null);
+      return encodeCursor({ direction, sort: sortSpec, values }, options.secret);
+    };
+    const first = items[0];
+    const last = items[items.length - 1];
+    // Going backwards, the cursor row itself follows the page
+    const hasNext = backwards || hasMore;
+    const hasPrev = backwards ? hasMore : cursor !== undefined;
+
+    return {
+      items,
+      ...(hasNext && last ? { nextCursor: createCursor('next', last) } : {}),
+      ...(hasPrev && first ? { prevCursor: createCursor('prev', first) } : {}),
+    };
+  }
+
+  /**
+   * Find all matching OData query options ($filter, $search, $orderby, $select, $expand, $top, $skip, $count)
+   * @param options Parsed query options
+   * @param path Request path used to build the next page link
+   * @param scope withDeleted includes soft-deleted rows
+   * @returns Items of the requested page, with the total count when $count=true
+   */
+  async findWithQueryOptions(
+    options: ODataQueryOptions,
+    path?: string,
+    scope: SoftDeleteQueryOptions = {}
+  ): Promise<QueryResponse<T>> {
+    options = validateQueryOptions(options, this.repository.metadata);
+    const findOptions = convertQueryOptionsToFindManyOptions<T>(options, this.repository.metadata);
+    findOptions.withDeleted = scope.withDeleted;
+    const load = () => this.findPage(options, findOptions, path);
+
+    // Lists with expanded relations are not cached, since changes to related entities would not invalidate them
+    const cache = EntityCache.current();
+    if (!cache || options.expand?.length) {
+      return await load();
+    }
+    const tenant = TenantContext.isSystem() ? { system: true } : { tenantId: TenantContext.currentTenantId() };
+    // Users granted different entities by the policy of the entity do not share lists
+    const policy = this.getPolicyScope('read');
+    return await cache.getList(this.repository.metadata, { options, path, scope, tenant, policy }, load);
+  }
+
+  /**
+   * Stream the entities matching OData query options for an export: $filter and $orderby select and sort
+   * the rows, $select picks the columns ($top and $skip are ignored, the whole list is exported).
+   * Rows are read from a database cursor, within the active transaction or on a connection held until
+   * the rows have been read, so memory use does not grow with the list.
+   * @param options Parsed query options
+   * @returns Exported columns and rows; the query is running, so errors are thrown before any row is written
+   * @throws BadRequestException when $expand, $search or $apply is given
+   */
+  async exportWithQueryOptions(options: ODataQueryOptions): Promise<EntityExport<T>> {
+    const metadata = this.repository.metadata;
+    if (options.expand?.length || options.search || options.apply) {
+      throw new BadRequestException('$expand, $search and $apply cannot be exported');
+    }
+    options = validateQueryOptions(
+      { filter: options.filter, orderBy: options.orderBy, select: options.select },
+      metadata
+    );
+    const { where, order } = convertQueryOptionsToFindManyOptions<T>(
+      { filter: options.filter, orderBy: options.orderBy },
+      metadata
+    );
+
+    const repository = this.repository;
+    const activeRunner = repository.manager.queryRunner;
+    const queryRunner = activeRunner ?? repository.manager.connection.createQueryRunner();
+    const release = async () => {
+      if (!activeRunner) {
+        await queryRunner.release();
+      }
+    };
+    let stream: ReadStream;
+    try {
+      stream = await repository
+        .createQueryBuilder(metadata.name)
+        .setQueryRunner(queryRunner)
+        .setFindOptions({ where: this.scopeWhere(where, 'read'), order })
+        .stream();
+    } catch (error) {
+      await release();
+      throw error;
+    }
+
+    return {
+      name: metadata.tableName,
+      columns: getExportColumns(metadata, options.select),
+      rows: this.hydrateRows(stream, release),
+    };
+  }
+
+  /**
+   * Build entities from the raw rows of a query stream
+   * @param stream Query stream
+   * @param release Called once the stream is read, failed or abandoned
+   */
+  private async *hydrateRows(stream: ReadStream, release: () => Promise<void>): AsyncGenerator<T> {
+    const metadata = this.repository.metadata;
+    const driver = this.repository.manager.connection.driver;
+    try {
+      for await (const raw of stream as AsyncIterable<Record<string, unknown>>) {
+        const entity = this.repository.create();
+        metadata.columns.forEach((column) => {
+          const alias = `${metadata.name}_${column.databaseName}`;
+          if (alias in raw) {
+            column.setEntityValue(entity, driver.prepareHydratedValue(raw[alias], column));
+          }
+        });
+        yield entity;
+      }
+    } finally {
+      stream.destroy();
+      await release();
+    }
+  }
+
+  /**
+   * Find the soft-deleted entities (the trash) matching OData query options
+   * @param options Parsed query options
+   * @param path Request path used to build the next page link
+   * @returns Soft-deleted items of the requested page, with the total count when $count=true
+   */
+  async findDeleted(options: ODataQueryOptions = {}, path?: string): Promise<QueryResponse<T>> {
+    const deleteDateColumn = this.getDeleteDateColumnOrFail();
+    options = validateQueryOptions(options, this.repository.metadata);
+    const findOptions = convertQueryOptionsToFindManyOptions<T>(options, this.repository.metadata);
+    findOptions.withDeleted = true;
+    findOptions.where = addConditionToWhere(findOptions.where, deleteDateColumn.propertyName, Not(IsNull()));
+    return await this.findPage(options, findOptions, path);
+  }
+
+  /**
+   * Find a page of entities with find options converted from query options
+   * @param options Validated query options
+   * @param findOptions Find options converted from the query options
+   * @param path Request path used to build the next page link
+   * @returns Items of the requested page, with the total count when $count=true
+   */
+  private async findPage(
+    options: ODataQueryOptions,
+    findOptions: FindManyOptions<T>,
+    path?: string
+  ): Promise<QueryResponse<T>> {
+    findOptions = { ...findOptions, where: this.scopeWhere(findOptions.where, 'read') };
+    if (options.search) {
+      return await this.searchWithQueryOptions(options.search, options, findOptions, path);
+    }
+
+    const queryBuilder = applyExpandToQueryBuilder(
+      this.repository.createQueryBuilder(this.repository.metadata.name).setFindOptions(findOptions),
+      options.expand
+    );
+    let items: T[];
+    let count: number | undefined;
+    if (options.count) {
+      [items, count] = await queryBuilder.getManyAndCount();
+    } else {
+      items = await queryBuilder.getMany();
+    }
+
+    return {
+      items,
+      ...(count !== undefined ? { count } : {}),
+      ...(path ? { nextLink: buildNextLink(path, options, items.length, count) } : {}),
+    };
+  }
+
+  /**
+   * Full-text search within the other query options: results are sorted by relevance unless
+   * $orderby is given, and highlighted snippets are returned when $highlight=true
+   * @param search Search terms
+   * @param options Validated query options
+   * @param findOptions Find options converted from the query options
+   * @param path Request path used to build the next page link
+   * @returns Items of the requested page, with the total count and highlights when requested
+   */
+  private async searchWithQueryOptions(
+    search: string,
+    options: ODataQueryOptions,
+    findOptions: FindManyOptions<T>,
+    path?: string
+  ): Promise<QueryResponse<T>> {
+    const metadata = this.repository.metadata;
+    const queryBuilder = this.repository
+      .createQueryBuilder(metadata.name)
+      .setFindOptions({ ...findOptions, where: addSearchCondition(findOptions.where, search, metadata) });
+    applySearchRanking(queryBuilder, search, metadata, {
+      orderByRank: !options.orderBy?.length,
+      highlight: options.highlight === true,
+    });
+    applyExpandToQueryBuilder(queryBuilder, options.expand);
+
+    const { entities: items, raw } = await queryBuilder.getRawAndEntities();
+    const count = options.count ? await queryBuilder.getCount() : undefined;
+
+    return {
+      items,
+      ...(count !== undefined ? { count } : {}),
+      ...(path ? { nextLink: buildNextLink(path, options, items.length, count) } : {}),
+      ...(options.highlight ? { highlights: extractSearchHighlights(raw, queryBuilder.alias, metadata) } : {}),
+    };
+  }
+
+  /**
+   * Aggregate the entities matching $filter with an $apply pipeline
+   * (e.g., "filter(isActive eq true)/groupby((isActive),aggregate($count as total))")
+   * @param options Parsed query options with $apply ($orderby, $top, $skip and $count apply to the aggregated rows)
+   * @param path Request path used to build the next page link
+   * @returns Aggregated rows of the requested page, with the total number of rows when $count=true
+   */
+  async aggregate(
+    options: ODataQueryOptions,
+    path?: string
+  ): Promise<QueryResponse<Record<string, unknown>>> {
+    const metadata = this.repository.metadata;
+    options = validateApplyOptions(options, metadata);
+
+    const queryBuilder = this.repository.createQueryBuilder(metadata.name);
+    const scope = this.scopeWhere(undefined, 'read');
+    if (scope) {
+      queryBuilder.andWhere(scope);
+    }
+    const numericColumns = applyAggregationToQueryBuilder(queryBuilder, options, metadata);
+    const count = options.count ? await countAggregationRows(queryBuilder) : undefined;
+
+    if (options.top !== undefined) {
+      queryBuilder.limit(options.top);
+    }
+    if (options.skip !== undefined) {
+      queryBuilder.offset(options.skip);
+    }
+    const items = toAggregateRows(await queryBuilder.getRawMany(), numericColumns);
+
+    return {
+      items,
+      ...(count !== undefined ? { count } : {}),
+      ...(path ? { nextLink: buildNextLink(path, options, items.length, count) } : {}),
+    };
+  }
+
   async findOne(options: FindOneOptions<T>): Promise<T> {
-    const entity = await this.repository.findOne(options);
+    const entity = await this.repository.findOne({ ...options, where: this.scopeWhere(options.where) });
     if (!entity) {
       throw new NotFoundException('Entity not found');
     }
+    this.authorize('read', [entity]);
     return entity;
   }
 
+  /**
+   * Find by id; entities marked with @Cacheable() are read through the EntityCache, unless relations are loaded
+   * @param id Entity id
+   * @param relations Relations to load
+   * @returns Entity
+   */
   async findById(id: string, relations?: string[]): Promise<T> {
-    return await this.findOne({
-      where: { id } as any,
-      relations,
+    const load = () => this.findOne({ where: { id } as any, relations });
+    const cache = EntityCache.current();
+    if (!cache || relations?.length) {
+      return await load();
+    }
+    const entity = await cache.getEntity(this.repository.metadata, id, load);
+    // Entries are keyed by id only: an entity cached for another tenant is not found
+    if (!this.isInScope(entity)) {
+      throw new NotFoundException('Entity not found');
+    }
+    this.authorize('read', [entity]);
+    return entity;
+  }
+
+  /**
+   * Find by id, loading the relations requested with $expand
+   * @param id Entity id
+   * @param options Parsed query options (only $select and $expand are used)
+   * @param scope withDeleted also finds a soft-deleted entity
+   * @returns Entity with expanded relations
+   */
+  async findByIdWithQueryOptions(
+    id: string,
+    options: ODataQueryOptions,
+    scope: SoftDeleteQueryOptions = {}
+  ): Promise<T> {
+    const validated = validateQueryOptions(
+      { select: options.select, expand: options.expand },
+      this.repository.metadata
+    );
+    const { where, select } = convertQueryOptionsToFindManyOptions<T>(
+      {
+        select: validated.select,
+        filter: { kind: 'comparison', prop: 'id', operator: FilterOperator.EQ, value: id },
+      },
+      this.repository.metadata
+    );
+    const entity = await applyExpandToQueryBuilder(
+      this.repository
+        .createQueryBuilder(this.repository.metadata.name)
+        .setFindOptions({ where: this.scopeWhere(where), select, withDeleted: scope.withDeleted }),
+      validated.expand
+    ).getOne();
+    if (!entity) {
+      throw new NotFoundException('Entity not found');
+    }
+    this.authorize('read', [entity]);
+    return entity;
+  }
+
+  /**
+   * Update an entity
+   * @param id Entity id
+   * @param data Changes
+   * @param expectedVersion Version the changes are based on (from If-Match); when given, the row is locked
+   * until the changes are saved, so that concurrent updates cannot slip in between the check and the save
+   * @returns Updated entity
+   * @throws ConcurrencyConflictException when the entity is at another version
+   */
+  async update(id: string, data: DeepPartial<T>, expectedVersion?: number): Promise<T> {
+    return await TransactionManager.run(async () => {
+      const repository = this.repository;
+      let entity: T;
+      if (expectedVersion === undefined) {
+        entity = await this.findById(id);
+      } else {
+        const locked = await this.findLockedById(id);
+        if (locked.version !== expectedVersion) {
+          throw new ConcurrencyConflictException(this.repository.metadata.name, expectedVersion, locked.version);
+        }
+        entity = locked;
+      }
+      this.authorize('update', [entity]);
+      Object.assign(entity, data);
+      // The changes must not move the entity out of what the user may update (e.g., to another organization)
+      this.authorize('update', [entity]);
+      const updated = await repository.save(this.assignScope([entity])[0]);
+      await this.recordChanges('Updated', [updated]);
+      return updated;
     });
   }
 
-  async update(id: string, data: DeepPartial<T>): Promise<T> {
-    const entity = await this.findById(id);
-    Object.assign(entity, data);
-    return await this.repository.save(entity);
+  /**
+   * Update an entity with a patch applied to its current state, the JSON of the properties of a DTO.
+   * The patched state is validated with the DTO like a request body, and saved as a whole: properties
+   * the patch removed are set to null.
+   * @param id Entity id
+   * @param patch Merge patch or JSON Patch
+   * @param dto DTO the patched state is validated with (e.g., CreateUserDto)
+   * @param expectedVersion Version the patch is based on (from If-Match); defaults to the version it was applied to.
+   * The state is read with the row locked, within the transaction of the update (past the entity cache), so that
+   * the default is the version the changes are saved over
+   * @returns Updated entity
+   * @throws BadRequestException when the patch changes read-only properties (id, timestamps, version), refers
+   * to missing locations or its result is invalid
+   * @throws ConflictException when a test operation fails
+   * @throws ConcurrencyConflictException when the entity is at another version
+   */
+  async patch(id: string, patch: EntityPatch, dto: Type<object>, expectedVersion?: number): Promise<T> {
+    checkPatchPaths(patch, this.getReadOnlyProperties());
+
+    return await TransactionManager.run(async () => {
+      const entity = await this.findLockedById(id);
+      this.authorize('read', [entity]);
+      const props = [
+        ...new Set(
+          getMetadataStorage()
+            .getTargetValidationMetadatas(dto, '', true, false)
+            .map(({ propertyName }) => propertyName),
+        ),
+      ];
+      const values = entity as unknown as Record<string, unknown>;
+      // Unset properties are absent from the state, as a merge patch sets null by removing the property
+      const state = JSON.parse(
+        JSON.stringify(Object.fromEntries(props.filter((prop) => values[prop] != null).map((prop) => [prop, values[prop]]))),
+      );
+      const patched =
+        patch.kind === 'merge' ? applyMergePatch(state, patch.patch) : applyJsonPatch(state, patch.operations);
+      const validated = await this.validator.transform(patched, { type: 'body', metatype: dto });
+      const changes = Object.fromEntries(props.map((prop) => [prop, validated[prop] ?? null]));
+      return await this.update(id, changes as DeepPartial<T>, expectedVersion ?? entity.version);
+    });
+  }
+
+  /**
+   * Find an entity within the scope of the service and lock its row until the active transaction ends
+   * @param id Entity id
+   * @returns Locked entity
+   * @throws NotFoundException when there is no entity with the id
+   */
+  private async findLockedById(id: string): Promise<T> {
+    const locked = await this.repository.findOne({
+      where: this.scopeWhere({ id } as any),
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!locked) {
+      throw new NotFoundException('Entity not found');
+    }
+    return locked;
+  }
+
+  /**
+   * Properties that changes from clients cannot set: primary columns, create/update/delete dates and version
+   */
+  protected getReadOnlyProperties(): string[] {
+    const metadata = this.repository.metadata;
+    return [
+      ...metadata.primaryColumns,
+      metadata.createDateColumn,
+      metadata.updateDateColumn,
+      metadata.deleteDateColumn,
+      metadata.versionColumn,
+    ]
+      .filter((column): column is ColumnMetadata => column !== undefined)
+      .map(({ propertyName }) => propertyName);
+  }
+
+  /**
+   * Remove the read-only properties (see getReadOnlyProperties) from changes
+   * @param data Changes
+   * @returns Changes without read-only properties
+   */
+  protected omitReadOnly<D extends object>(data: D): Partial<D> {
+    const readOnly = this.getReadOnlyProperties();
+    return Object.fromEntries(Object.entries(data).filter(([prop]) => !readOnly.includes(prop))) as Partial<D>;
   }
 
   async remove(id: string): Promise<void> {
-    const entity = await this.findById(id);
-    await this.repository.remove(entity);
+    await TransactionManager.run(async () => {
+      const entity = await this.findById(id);
+      this.authorize('delete', [entity]);
+      await this.repository.remove(entity);
+      await this.recordChanges('Deleted', [id]);
+    });
   }
 
+  /**
+   * Soft delete an entity: it is kept with deletedAt set and left out of queries until restored
+   * @param id Entity id
+   */
   async softDelete(id: string): Promise<void> {
-    await this.repository.update(id as any, { isActive: false } as any);
+    this.getDeleteDateColumnOrFail();
+    await TransactionManager.run(async () => {
+      const entity = await this.findById(id);
+      this.authorize('delete', [entity]);
+      await this.repository.softRemove(entity);
+      await this.recordChanges('Deleted', [id]);
+    });
+  }
+
+  /**
+   * Restore a soft-deleted entity
+   * @param id Entity id
+   * @returns Restored entity
+   * @throws NotFoundException when there is no soft-deleted entity with the id
+   */
+  async restore(id: string): Promise<T> {
+    const deleteDateColumn = this.getDeleteDateColumnOrFail();
+    return await TransactionManager.run(async () => {
+      const entity = await this.findOne({
+        where: { id, [deleteDateColumn.propertyName]: Not(IsNull()) } as any,
+        withDeleted: true,
+      });
+      this.authorize('update', [entity]);
+      await this.repository.recover(entity);
+      const restored = await this.findById(id);
+      await this.recordChanges('Restored', [restored]);
+      return restored;
+    });
+  }
+
+  /**
+   * Permanently delete an entity, whether soft deleted or not
+   * @param id Entity id
+   */
+  async purge(id: string): Promise<void> {
+    await TransactionManager.run(async () => {
+      const entity = await this.findOne({ where: { id } as any, withDeleted: true });
+      this.authorize('delete', [entity]);
+      await this.repository.remove(entity);
+      await this.recordChanges('Purged', [id]);
+    });
+  }
+
+  /**
+   * Record changes to entities: publish their lifecycle events (e.g., UserCreated) through the DomainEventBus
+   * and invalidate their cached entries. Events are recorded in the outbox of the active transaction and
+   * delivered once it commits; cached entries are invalidated once it commits.
+   * @param action Lifecycle action
+   * @param entities Changed entities, or the ids of deleted ones
+   */
+  protected async recordChanges(action: EntityEventAction, entities: (T | string)[]): Promise<void> {
+    if (entities.length === 0) {
+      return;
+    }
+
+    const metadata = this.repository.metadata;
+    const ids = entities.map((entity) => (typeof entity === 'string' ? entity : entity.id));
+    const cache = EntityCache.current();
+    if (cache) {
+      TransactionManager.afterCommit(() => cache.invalidate(metadata, ids));
+    }
+
+    const eventBus = DomainEventBus.current();
+    if (!eventBus) {
+      return;
+    }
+    const aggregate = metadata.name;
+    await eventBus.publish<EntityEventPayload>(
+      entities.map((entity) => {
+        const id = typeof entity === 'string' ? entity : entity.id;
+        return {
+          type: entityEventType(aggregate, action),
+          aggregate,
+          aggregateId: id,
+          payload: typeof entity === 'string' ? { id } : { id, entity: instanceToPlain(entity) },
+          tenantId: typeof entity === 'string' ? undefined : (entity as { tenantId?: string }).tenantId,
+        };
+      })
+    );
+  }
+
+  /**
+   * Conditions every query of the service is restricted to: the tenant of the request for entities
+   * extending TenantScopedEntity, unless running within TenantContext.runAsSystem()
+   * @returns Conditions keyed by property, empty when queries are not restricted
+   * @throws ForbiddenException when a tenant-scoped entity is queried without a tenant
+   */
+  protected getScopeConditions(): Record<string, FindOperator<unknown>> {
+    if (!isTenantScoped(this.repository.metadata) || TenantContext.isSystem()) {
+      return {};
+    }
+    return { tenantId: Equal(TenantContext.requireTenantId()) };
+  }
+
+  /**
+   * Restrict where conditions to the scope of the service (every alternative of a disjunction)
+   * and, for queries of many entities, to the entities the policy of the entity grants the action on
+   * @param where Where conditions
+   * @param action Action the query is for; single-entity queries leave it out and check the loaded entity
+   * with authorize(), so that an entity that is not granted is denied rather than not found
+   * @returns Restricted where conditions, or the given ones when queries are not restricted
+   * @throws AccessDeniedException when the policy grants the action on no entity
+   */
+  protected scopeWhere(
+    where: FindOptionsWhere<T> | FindOptionsWhere<T>[] | undefined,
+    action?: PolicyAction
+  ): FindOptionsWhere<T> | FindOptionsWhere<T>[] | undefined {
+    const scoped = Object.entries(this.getScopeConditions()).reduce<
+      FindOptionsWhere<T> | FindOptionsWhere<T>[] | undefined
+    >((restricted, [prop, condition]) => addConditionToWhere(restricted, prop, condition), where);
+    if (!action) {
+      return scoped;
+    }
+
+    const metadata = this.repository.metadata;
+    const policy = this.getPolicyScope(action);
+    if (policy.granted === 'none') {
+      throw new AccessDeniedException(action, metadata.name);
+    }
+    if (policy.granted === 'all') {
+      return scoped;
+    }
+    return restrictWhere(scoped, convertFilterTreeToFindOptionsWhere<T>(policy.filter, metadata, 'policy'));
+  }
+
+  /**
+   * Entities the acting user may perform an action on, by the @Policy() rules of the entity.
+   * Entities without rules, and work within TenantContext.runAsSystem(), are not restricted.
+   * @param action Action
+   * @returns All entities, none, or the ones matching a filter
+   */
+  protected getPolicyScope(action: PolicyAction): PolicyScope {
+    const rules = getPolicyRules(this.repository.target as object);
+    if (!rules || TenantContext.isSystem()) {
+      return { granted: 'all' };
+    }
+    return compilePolicy(rules, action, getCurrentSubject());
+  }
+
+  /**
+   * Check that the acting user may perform an action on loaded entities, by the @Policy() rules of the entity
+   * @param action Action
+   * @param entities Entities
+   * @throws AccessDeniedException when the action is not granted on an entity
+   */
+  protected authorize(action: PolicyAction, entities: T[]): void {
+    const rules = getPolicyRules(this.repository.target as object);
+    if (!rules || TenantContext.isSystem() || entities.length === 0) {
+      return;
+    }
+    const subject = getCurrentSubject();
+    if (entities.some((entity) => !isActionAllowed(rules, action, subject, entity))) {
+      throw new AccessDeniedException(action, this.repository.metadata.name);
+    }
+  }
+
+  /**
+   * Whether a loaded entity is within the scope of the service (e.g., belongs to the tenant of the request)
+   */
+  protected isInScope(entity: T): boolean {
+    if (!isTenantScoped(this.repository.metadata) || TenantContext.isSystem()) {
+      return true;
+    }
+    return (entity as unknown as TenantScopedEntity).tenantId === TenantContext.requireTenantId();
+  }
+
+  /**
+   * Set the tenant of the request on entities about to be saved
+   * @param entities Created or changed entities
+   * @returns The same entities
+   * @throws ForbiddenException when an entity belongs to another tenant
+   * @throws BadRequestException when a system job saves a tenant-scoped entity without a tenant
+   */
+  protected assignScope(entities: T[]): T[] {
+    if (!isTenantScoped(this.repository.metadata)) {
+      return entities;
+    }
+
+    const system = TenantContext.isSystem();
+    const tenantId = system ? undefined : TenantContext.requireTenantId();
+    entities.forEach((entity) => {
+      const scoped = entity as unknown as TenantScopedEntity;
+      if (system) {
+        if (!scoped.tenantId) {
+          throw new BadRequestException('tenantId is required');
+        }
+      } else if (scoped.tenantId !== undefined && scoped.tenantId !== tenantId) {
+        throw new ForbiddenException('Entities of another tenant cannot be written');
+      } else {
+        scoped.tenantId = tenantId as string;
+      }
+    });
+    return entities;
+  }
+
+  /**
+   * Find the ids of the entities matching the filter of a bulk operation
+   * @param filter Parsed $filter
+   * @param action Action of the bulk operation; only the entities the policy grants it on match
+   * @returns Ids of the matching entities
+   */
+  private async findIdsByFilter(filter: FilterNode | null | undefined, action: PolicyAction): Promise<string[]> {
+    const metadata = this.repository.metadata;
+    if (!filter) {
+      throw new BadRequestException('$filter is required for bulk updates and deletes');
+    }
+
+    const validated = validateQueryOptions({ filter }, metadata);
+    const entities = await this.repository.find({
+      where: this.scopeWhere(convertFilterTreeToFindOptionsWhere<T>(validated.filter ?? null, metadata), action),
+      select: { id: true } as any,
+      order: { id: 'ASC' } as any,
+      take: BULK_MAX_ITEMS + 1,
+    });
+    if (entities.length > BULK_MAX_ITEMS) {
+      throw new BadRequestException(`$filter matches more than ${BULK_MAX_ITEMS} entities`);
+    }
+    return entities.map((entity) => entity.id);
+  }
+
+  /**
+   * Find entities by id, in the order of the ids
+   * @throws NotFoundException when an entity no longer exists
+   */
+  private async findByIdsOrFail(ids: string[]): Promise<T[]> {
+    const entities = await this.repository.findBy(this.scopeWhere({ id: In(ids) } as any) ?? {});
+    const byId = new Map(entities.map((entity) => [entity.id, entity]));
+    return ids.map((id) => {
+      const entity = byId.get(id);
+      if (!entity) {
+        throw new NotFoundException('Entity not found');
+      }
+      return entity;
+    });
+  }
+
+  /**
+   * Get the columns of the conflict paths of an upsert
+   * @throws BadRequestException when the paths are not the primary key or a unique index of the entity
+   */
+  private getUniqueKeyColumnsOrFail(conflictPaths: string[]): ColumnMetadata[] {
+    const metadata = this.repository.metadata;
+    const columns = conflictPaths.map((path) => metadata.findColumnWithPropertyPath(path));
+    // Queries are restricted to one tenant, so a unique key with the tenant is a unique key of the other columns
+    const tenantColumn =
+      isTenantScoped(metadata) && !TenantContext.isSystem() ? metadata.findColumnWithPropertyName('tenantId') : undefined;
+    const isKey = (keyColumns: ColumnMetadata[]) => {
+      const key = keyColumns.filter((column) => column !== tenantColumn);
+      const paths = columns.filter((column) => column !== tenantColumn);
+      return key.length === paths.length && key.every((column) => paths.includes(column));
+    };
+
+    if (
+      columns.length === 0 ||
+      !(
+        isKey(metadata.primaryColumns) ||
+        metadata.indices.some((index) => index.isUnique && isKey(index.columns)) ||
+        metadata.uniques.some((unique) => isKey(unique.columns))
+      )
+    ) {
+      throw new BadRequestException(`${conflictPaths.join(', ')} is not a unique key of ${metadata.name}`);
+    }
+    return columns as ColumnMetadata[];
+  }
+
+  /**
+   * Get the @DeleteDateColumn of the entity
+   * @throws InvalidOperationException when the entity cannot be soft deleted
+   */
+  private getDeleteDateColumnOrFail(): ColumnMetadata {
+    const { deleteDateColumn, name } = this.repository.metadata;
+    if (!deleteDateColumn) {
+      throw new InvalidOperationException(`${name} does not support soft delete`);
+    }
+    return deleteDateColumn;
   }
 
   async count(options?: FindManyOptions<T>): Promise<number> {
-    return await this.repository.count(options);
+    return await this.repository.count({ ...options, where: this.scopeWhere(options?.where, 'read') });
   }
 
   async exists(options: FindOneOptions<T>): Promise<boolean> {
-    const count = await this.repository.count(options as FindManyOptions<T>);
+    const count = await this.count(options as FindManyOptions<T>);
     return count > 0;
   }
 }
@@ -0,0 +1,61 @@
+import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { Query } from 'typeorm/driver/Query';
+import { SqlInMemory } from 'typeorm/driver/SqlInMemory';
+import { getSearchVector } from '../../decorators/query-field.decorators';
+
+/**
+ * Creates the GIN indexes of @SearchVectorColumn() columns.
+ * TypeORM cannot declare GIN indexes, so they are excluded from schema synchronization
+ * and created here once the schema has been synchronized; migrations include them instead
+ * (see MigrationService.generate()).
+ */
+@Injectable()
+export class SearchIndexService implements OnApplicationBootstrap {
+  constructor(private readonly dataSource: DataSource) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    if (this.dataSource.options.synchronize) {
+      await this.createSearchIndexes();
+    }
+  }
+
+  /**
+   * Create the missing search vector indexes of every entity
+   */
+  async createSearchIndexes(): Promise<void> {
+    const { upQueries } = await this.getMissingSearchIndexQueries();
+    for (const { query } of upQueries) {
+      await this.dataSource.query(query);
+    }
+  }
+
+  /**
+   * Queries creating the search vector indexes that do not exist yet, and dropping them again
+   * @returns Queries, the down ones in the order of the up ones (as logged by the schema builder)
+   */
+  async getMissingSearchIndexQueries(): Promise<SqlInMemory> {
+    const escape = (name: string) => this.dataSource.driver.escape(name);
+    const sql = new SqlInMemory();
+
+    for (const metadata of this.dataSource.entityMetadatas) {
+      const searchVector = typeof metadata.target === 'function' ? getSearchVector(metadata.target) : undefined;
+      const column = searchVector && metadata.findColumnWithPropertyName(searchVector.propertyName);
+      if (!searchVector || !column) {
+        continue;
+      }
+
+      const index = [metadata.schema, searchVector.indexName].filter(Boolean).map((name) => escape(name!)).join('.');
+      const [{ exists }] = await this.dataSource.query(`SELECT to_regclass($1) IS NOT NULL AS "exists"`, [index]);
+      if (exists) {
+        continue;
+      }
+      const table = metadata.tablePath.split('.').map(escape).join('.');
+      sql.upQueries.push(
+        new Query(`CREATE INDEX IF NOT EXISTS ${escape(searchVector.indexName)} ON ${table} USING GIN (${escape(column.databaseName)})`),
+      );
+      sql.downQueries.push(new Query(`DROP INDEX ${index}`));
+    }
+    return sql;
+  }
+}
@@ -3,30 +3,37 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { User } from '../entities/user.entity';
 import { BaseService } from './base.service';
+import { entityEventTypes } from '../../events/domain-event';
+
+/**
+ * Types of the lifecycle events published for users (e.g., UserEvents.Created is 'UserCreated')
+ */
+export const UserEvents = entityEventTypes('User');
 
 @Injectable()
 export class UserService extends BaseService<User> {
   constructor(
     @InjectRepository(User)
-    private readonly userRepository: Repository<User>,
+    userRepository: Repository<User>,
   ) {
     super(userRepository);
   }
 
+  // Both go through findAll, so the tenant and the read policy restrict them like every other query
   async findByEmail(email: string): Promise<User | null> {
-    return await this.userRepository.findOne({ where: { email } });
+    const [user] = await this.findAll({ where: { email }, take: 1 });
+    return user ?? null;
   }
 
   async findActiveUsers(): Promise<User[]> {
-    return await this.userRepository.find({
+    return await this.findAll({
       where: { isActive: true },
       order: { createdAt: 'DESC' },
     });
   }
 
-  async updateProfile(id: string, profileData: Partial<User>): Promise<User> {
+  async updateProfile(id: string, profileData: Partial<User>, expectedVersion?: number): Promise<User> {
     // Remove sensitive fields that shouldn't be updated via profile
-    const { id: _, createdAt, updatedAt, ...updateData } = profileData;
-    return await this.update(id, updateData);
+    return await this.update(id, this.omitReadOnly(profileData), expectedVersion);
   }
 }
@@ -0,0 +1,55 @@
+import { Column, DataSource, Entity, PrimaryGeneratedColumn, UpdateDateColumn, VersionColumn } from 'typeorm';
+import { diffEntity } from './audit-diff';
+
+@Entity('accounts')
+class Account {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column()
+  name!: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  closedAt?: Date | null;
+
+  @Column({ nullable: true })
+  apiKey?: string;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+
+  @VersionColumn()
+  version!: number;
+}
+
+describe('audit-diff', () => {
+  // Metadata is built without connecting to a database
+  const dataSource = new DataSource({ type: 'postgres', entities: [Account] });
+
+  beforeAll(async () => {
+    await (dataSource as unknown as { buildMetadatas(): Promise<void> }).buildMetadatas();
+  });
+
+  it('should record the changed properties only', () => {
+    const before = { id: 'a1', name: 'Old', closedAt: null, apiKey: 'k1', updatedAt: new Date(1), version: 1 };
+    const after = { ...before, name: 'New', closedAt: new Date('2026-01-02T00:00:00Z'), apiKey: 'k2', version: 2 };
+
+    expect(diffEntity(dataSource.getMetadata(Account), before, after, ['apiKey'])).toEqual({
+      name: { before: 'Old', after: 'New' },
+      closedAt: { before: null, after: '2026-01-02T00:00:00.000Z' },
+    });
+  });
+
+  it('should record every set property of inserts and removals', () => {
+    const metadata = dataSource.getMetadata(Account);
+
+    expect(diffEntity(metadata, undefined, { id: 'a1', name: 'New' })).toEqual({
+      id: { before: null, after: 'a1' },
+      name: { before: null, after: 'New' },
+    });
+    expect(diffEntity(metadata, { id: 'a1', name: 'Old', closedAt: null }, undefined)).toEqual({
+      id: { before: 'a1', after: null },
+      name: { before: 'Old', after: null },
+    });
+  });
+});
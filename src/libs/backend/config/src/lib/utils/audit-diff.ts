@@ -0,0 +1,53 @@
+/**
+ * Audit Diff Utilities
+ * Compute the field-level changes recorded in the audit trail
+ */
+
+import { EntityMetadata, ObjectLiteral } from 'typeorm';
+import { AuditChanges } from '../audit/entities/audit-log.entity';
+
+/**
+ * Convert a column value to its JSON representation in the audit trail
+ */
+function toAuditValue(value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * Compute the changed properties between two states of an entity.
+ * Version, update date and generated columns are left out, as well as the excluded properties.
+ * @param metadata Entity metadata
+ * @param before State before the change (undefined for inserts, or when unknown)
+ * @param after State after the change (undefined for removals); properties it does not hold are unchanged
+ * @param exclude Properties left out of the diff
+ * @returns Value before and after of each changed property
+ */
+export function diffEntity(
+  metadata: EntityMetadata,
+  before: ObjectLiteral | undefined,
+  after: ObjectLiteral | undefined,
+  exclude: string[] = [],
+): AuditChanges {
+  const changes: AuditChanges = {};
+
+  metadata.columns.forEach((column) => {
+    if (column.isVersion || column.isUpdateDate || column.generatedType || exclude.includes(column.propertyName)) {
+      return;
+    }
+    const afterValue = after ? column.getEntityValue(after) : null;
+    if (afterValue === undefined) {
+      return;
+    }
+
+    const previous = toAuditValue(before ? column.getEntityValue(before) : null);
+    const next = toAuditValue(afterValue);
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[column.propertyName] = { before: previous, after: next };
+    }
+  });
+
+  return changes;
+}
@@ -0,0 +1,62 @@
+import { ConflictException } from '@nestjs/common';
+import { EntityManager, QueryFailedError } from 'typeorm';
+import { runBulkOperation, summarizeBulkResults, toBulkItemError } from './bulk-operations';
+
+describe('bulk-operations', () => {
+  const createManager = () => {
+    const query = jest.fn().mockResolvedValue(undefined);
+    return { query, manager: { queryRunner: { isTransactionActive: true, query } } as unknown as EntityManager };
+  };
+
+  it('should write chunks at once', async () => {
+    const { manager, query } = createManager();
+    const writeChunk = jest.fn(async (chunk: string[]) => chunk.map((name) => ({ id: name.toUpperCase() })));
+
+    const results = await runBulkOperation(manager, ['a', 'b'], writeChunk, (entity) => entity.id);
+
+    expect(writeChunk).toHaveBeenCalledTimes(1);
+    expect(query.mock.calls.map(([sql]) => sql)).toEqual(['SAVEPOINT bulk_operation', 'RELEASE SAVEPOINT bulk_operation']);
+    expect(summarizeBulkResults(results)).toEqual({
+      results: [
+        { index: 0, success: true, id: 'A', item: { id: 'A' } },
+        { index: 1, success: true, id: 'B', item: { id: 'B' } },
+      ],
+      succeeded: 2,
+      failed: 0,
+    });
+  });
+
+  it('should isolate failing items when a chunk fails', async () => {
+    const { manager, query } = createManager();
+    const writeChunk = jest.fn(async (chunk: string[]) => {
+      if (chunk.includes('dup')) {
+        throw new ConflictException('dup already exists');
+      }
+      return chunk.map((name) => ({ id: name }));
+    });
+
+    const results = await runBulkOperation(manager, ['a', 'dup', 'b'], writeChunk, (entity) => entity.id);
+
+    expect(writeChunk).toHaveBeenCalledTimes(4);
+    expect(query).toHaveBeenCalledWith('ROLLBACK TO SAVEPOINT bulk_operation');
+    expect(summarizeBulkResults(results)).toMatchObject({
+      results: [
+        { index: 0, success: true, id: 'a' },
+        { index: 1, success: false, error: { statusCode: 409, message: 'dup already exists' } },
+        { index: 2, success: true, id: 'b' },
+      ],
+      succeeded: 2,
+      failed: 1,
+    });
+  });
+
+  it('should map database errors like the exceptions filter', () => {
+    const error = new QueryFailedError('INSERT', [], Object.assign(new Error('duplicate'), {
+      code: '23505',
+      detail: 'Key (email)=(a@test.com) already exists.',
+    }));
+
+    expect(toBulkItemError(error)).toEqual({ statusCode: 409, message: 'Key (email)=(a@test.com) already exists.' });
+    expect(toBulkItemError(new Error('connection lost'))).toEqual({ statusCode: 500, message: 'Database error occurred' });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Bulk Operation Utilities
+ * Write many items in one transaction, isolating the failing items with savepoints
+ */
+
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { EntityManager, QueryFailedError } from 'typeorm';
+import { BulkItemError, BulkItemResult, BulkOperationResponse } from '@libs/shared';
+
+/**
+ * Maximum number of items of a bulk request
+ */
+export const BULK_MAX_ITEMS = 5000;
+
+/**
+ * Number of items written with one statement
+ */
+export const BULK_CHUNK_SIZE = 500;
+
+const SAVEPOINT = 'bulk_operation';
+
+/**
+ * Convert the error of an item to its bulk result error
+ * @param error Error thrown while writing the item
+ * @returns Status code and message, as the exceptions filter would respond for a single item
+ */
+export function toBulkItemError(error: unknown): BulkItemError {
+  if (error instanceof HttpException) {
+    const response = error.getResponse();
+    const message =
+      typeof response === 'object' && response !== null ? (response as Record<string, unknown>)['message'] : response;
+    return {
+      statusCode: error.getStatus(),
+      message: Array.isArray(message) ? message.join(', ') : String(message ?? error.message),
+    };
+  }
+
+  if (error instanceof QueryFailedError) {
+    const driverError = error.driverError as { code?: string; detail?: string };
+    switch (driverError.code) {
+      case '23505':
+        return { statusCode: HttpStatus.CONFLICT, message: driverError.detail ?? 'Resource already exists' };
+      case '23503':
+        return { statusCode: HttpStatus.BAD_REQUEST, message: 'Referenced resource does not exist' };
+      case '23502':
+        return { statusCode: HttpStatus.BAD_REQUEST, message: 'Required field is missing' };
+    }
+  }
+
+  return { statusCode: HttpStatus.INTERNAL_SERVER_ERROR, message: 'Database error occurred' };
+}
+
+/**
+ * Run work within a savepoint of the current transaction, rolled back when the work fails
+ * @param manager Transactional entity manager
+ * @param work Work to run
+ * @returns Result of the work
+ */
+export async function runInSavepoint<R>(manager: EntityManager, work: () => Promise<R>): Promise<R> {
+  const queryRunner = manager.queryRunner;
+  if (!queryRunner?.isTransactionActive) {
+    throw new Error('Savepoints require a transactional entity manager');
+  }
+
+  await queryRunner.query(`SAVEPOINT ${SAVEPOINT}`);
+  try {
+    const result = await work();
+    await queryRunner.query(`RELEASE SAVEPOINT ${SAVEPOINT}`);
+    return result;
+  } catch (error) {
+    await queryRunner.query(`ROLLBACK TO SAVEPOINT ${SAVEPOINT}`);
+    throw error;
+  }
+}
+
+/**
+ * Write items in chunks within the transaction of the manager.
+ * Each chunk is written at once; when it fails, its items are written one by one to find the failing ones,
+ * so that a failure only discards its own item.
+ * @param manager Transactional entity manager
+ * @param items Items to write
+ * @param writeChunk Write a chunk of items, returning the written entity of each item in order
+ * @param getId Get the id of a written entity (removed entities no longer hold it, but their item may)
+ * @returns Result of each item, by position
+ */
+export async function runBulkOperation<I, R>(
+  manager: EntityManager,
+  items: I[],
+  writeChunk: (chunk: I[]) => Promise<R[]>,
+  getId: (entity: R, item: I) => string,
+): Promise<BulkItemResult<R>[]> {
+  const results: BulkItemResult<R>[] = [];
+  const succeed = (index: number, entity: R) =>
+    results.push({ index, success: true, id: getId(entity, items[index]), item: entity });
+
+  for (let start = 0; start < items.length; start += BULK_CHUNK_SIZE) {
+    const chunk = items.slice(start, start + BULK_CHUNK_SIZE);
+    try {
+      const written = await runInSavepoint(manager, () => writeChunk(chunk));
+      written.forEach((item, offset) => succeed(start + offset, item));
+    } catch {
+      for (let offset = 0; offset < chunk.length; offset++) {
+        try {
+          const [item] = await runInSavepoint(manager, () => writeChunk([chunk[offset]]));
+          succeed(start + offset, item);
+        } catch (error) {
+          results.push({ index: start + offset, success: false, error: toBulkItemError(error) });
+        }
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Count the successful and failed items of a bulk operation
+ * @param results Result of each item
+ * @returns Bulk operation response
+ */
+export function summarizeBulkResults<T>(results: BulkItemResult<T>[]): BulkOperationResponse<T> {
+  const succeeded = results.filter((result) => result.success).length;
+  return { results, succeeded, failed: results.length - succeeded };
+}
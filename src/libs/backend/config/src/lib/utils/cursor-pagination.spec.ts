@@ -0,0 +1,101 @@
+import { BadRequestException } from '@nestjs/common';
+import { Column, DataSource, Entity, Equal, PrimaryGeneratedColumn } from 'typeorm';
+import {
+  addKeysetCondition,
+  buildKeysetCondition,
+  decodeCursor,
+  describeSort,
+  encodeCursor,
+} from './cursor-pagination';
+
+@Entity('tasks')
+class Task {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  dueAt?: Date;
+
+  @Column()
+  title!: string;
+}
+
+describe('cursor-pagination', () => {
+  const sort = describeSort([
+    { prop: 'dueAt', direction: 'desc' },
+    { prop: 'id', direction: 'asc' },
+  ]);
+
+  describe('encodeCursor/decodeCursor', () => {
+    it('should round-trip signed cursors', () => {
+      const payload = { direction: 'next' as const, sort, values: ['2026-01-01 10:00:00.123456', 'a1'] };
+      expect(decodeCursor(encodeCursor(payload, 'secret'), 'secret', sort)).toEqual(payload);
+    });
+
+    it('should reject tampered, foreign and mismatched cursors', () => {
+      const cursor = encodeCursor({ direction: 'next', sort, values: [null, 'a1'] }, 'secret');
+      const [, signature] = cursor.split('.');
+      const forged = `${Buffer.from(JSON.stringify(['next', sort, [null, 'z9']])).toString('base64url')}.${signature}`;
+
+      expect(() => decodeCursor(forged, 'secret', sort)).toThrow(BadRequestException);
+      expect(() => decodeCursor(cursor, 'other-secret', sort)).toThrow('Invalid cursor');
+      expect(() => decodeCursor('garbage', 'secret', sort)).toThrow('Invalid cursor');
+      expect(() => decodeCursor(cursor, 'secret', 'id asc')).toThrow('Cursor does not match the sort order');
+    });
+  });
+
+  describe('buildKeysetCondition', () => {
+    it('should compare each key when the previous ones are equal', () => {
+      expect(
+        buildKeysetCondition(
+          't',
+          [
+            { prop: 'title', direction: 'asc', nullable: true },
+            { prop: 'id', direction: 'asc' },
+          ],
+          ['b', 'a1'],
+        ),
+      ).toEqual({
+        sql: '(t.title > :cursor_0 OR t.title IS NULL OR (t.title = :cursor_0 AND (t.id > :cursor_1)))',
+        parameters: { cursor_0: 'b', cursor_1: 'a1' },
+      });
+    });
+
+    it('should place nulls first in descending order', () => {
+      expect(
+        buildKeysetCondition(
+          't',
+          [
+            { prop: 'dueAt', direction: 'desc', nullable: true },
+            { prop: 'id', direction: 'asc' },
+          ],
+          [null, 'a1'],
+        ).sql,
+      ).toBe('(t.dueAt IS NOT NULL OR (t.dueAt IS NULL AND (t.id > :cursor_1)))');
+    });
+  });
+
+  describe('addKeysetCondition', () => {
+    // Metadata is built without connecting to a database
+    const dataSource = new DataSource({ type: 'postgres', entities: [Task] });
+
+    beforeAll(async () => {
+      await (dataSource as unknown as { buildMetadatas(): Promise<void> }).buildMetadatas();
+    });
+
+    it('should add the keyset condition to every alternative of the filter', () => {
+      const keyset = buildKeysetCondition('Task', [{ prop: 'id', direction: 'asc' }], ['a1']);
+      const where = addKeysetCondition<Task>([{ title: Equal('x') }, { id: Equal('b2') }], 'id', keyset);
+      const [sql, parameters] = dataSource
+        .getRepository(Task)
+        .createQueryBuilder('Task')
+        .setFindOptions({ where })
+        .getQueryAndParameters();
+
+      expect(sql).toContain(
+        '("Task"."title" = $1) AND (("Task"."id" > $2)))) OR (((("Task"."id" = $3 AND ("Task"."id" > $2)',
+      );
+      expect(parameters).toEqual(['x', 'a1', 'b2']);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Keyset (Cursor) Pagination Utilities
+ * Encode signed cursors and build the "after this row" conditions of keyset pagination
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { BadRequestException } from '@nestjs/common';
+import { FindOptionsWhere, Raw } from 'typeorm';
+import { FilterNode, OrderByItem } from '@libs/shared';
+import { addConditionToWhere } from './odata-filter-backend';
+
+/**
+ * Options of BaseService.findAllByCursor()
+ */
+export interface CursorPaginationOptions {
+  /** Sort keys; the primary key is appended to make the order unique */
+  sort?: OrderByItem[];
+  /** Cursor returned as nextCursor or prevCursor of a previous page */
+  cursor?: string;
+  /** Page size */
+  limit?: number;
+  /** Parsed $filter */
+  filter?: FilterNode | null;
+  /** Secret used to sign and verify cursors */
+  secret: string;
+}
+
+/**
+ * Decoded cursor: the sort key values of the row next to the requested page
+ */
+export interface CursorPayload {
+  /** 'next' pages start after the row, 'prev' pages end before it */
+  direction: 'next' | 'prev';
+  /** Sort spec the cursor was created for (e.g., "createdAt desc,id asc") */
+  sort: string;
+  /** Sort key values of the row, as text */
+  values: (string | null)[];
+}
+
+/**
+ * Describe a sort spec, to bind cursors to the order they were created for
+ * @param sort Sort keys
+ * @returns Sort spec as in $orderby
+ */
+export function describeSort(sort: OrderByItem[]): string {
+  return sort.map(({ prop, direction }) => `${prop} ${direction}`).join(',');
+}
+
+/**
+ * Sign a string with HMAC-SHA256
+ */
+function sign(data: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(data).digest();
+}
+
+/**
+ * Encode and sign a cursor
+ * @param payload Cursor payload
+ * @param secret Signing secret
+ * @returns Opaque cursor
+ */
+export function encodeCursor(payload: CursorPayload, secret: string): string {
+  const data = Buffer.from(JSON.stringify([payload.direction, payload.sort, payload.values])).toString('base64url');
+  return `${data}.${sign(data, secret).toString('base64url')}`;
+}
+
+/**
+ * Verify and decode a cursor
+ * @param cursor Opaque cursor
+ * @param secret Signing secret
+ * @param sort Sort spec of the current request, which must match the cursor's
+ * @returns Cursor payload
+ * @throws BadRequestException when the cursor is malformed, tampered with or made for another sort order
+ */
+export function decodeCursor(cursor: string, secret: string, sort: string): CursorPayload {
+  const [data, signature, ...rest] = cursor.split('.');
+  const expected = sign(data ?? '', secret);
+  const actual = Buffer.from(signature ?? '', 'base64url');
+  if (!data || rest.length > 0 || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  const [direction, cursorSort, values] = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+  if (cursorSort !== sort) {
+    throw new BadRequestException('Cursor does not match the sort order');
+  }
+  return { direction, sort: cursorSort, values };
+}
+
+/**
+ * Sort key of keyset pagination
+ */
+export interface KeysetSortKey extends OrderByItem {
+  /** Whether the column can be null */
+  nullable?: boolean;
+}
+
+/**
+ * Build the condition selecting the rows after a row in the given order.
+ * Nulls sort last in ascending order and first in descending order (PostgreSQL's default).
+ * @param alias Query alias of the entity
+ * @param sort Sort keys, unique as a whole
+ * @param values Sort key values of the row
+ * @returns SQL condition and its parameters
+ */
+export function buildKeysetCondition(
+  alias: string,
+  sort: KeysetSortKey[],
+  values: (string | null)[],
+): { sql: string; parameters: Record<string, string> } {
+  const parameters: Record<string, string> = {};
+  let condition = '';
+
+  // (k1 after v1) OR (k1 = v1 AND ((k2 after v2) OR (k2 = v2 AND ...)))
+  for (let i = sort.length - 1; i >= 0; i--) {
+    const column = `${alias}.${sort[i].prop}`;
+    const nullsLast = sort[i].direction === 'asc';
+    const value = values[i];
+    const alternatives: string[] = [];
+
+    if (value === null || value === undefined) {
+      if (!nullsLast) {
+        alternatives.push(`${column} IS NOT NULL`);
+      }
+      if (condition) {
+        alternatives.push(`(${column} IS NULL AND ${condition})`);
+      }
+    } else {
+      const parameter = `cursor_${i}`;
+      parameters[parameter] = value;
+      alternatives.push(`${column} ${nullsLast ? '>' : '<'} :${parameter}`);
+      if (nullsLast && sort[i].nullable) {
+        alternatives.push(`${column} IS NULL`);
+      }
+      if (condition) {
+        alternatives.push(`(${column} = :${parameter} AND ${condition})`);
+      }
+    }
+
+    condition = alternatives.length > 0 ? `(${alternatives.join(' OR ')})` : 'FALSE';
+  }
+
+  return { sql: condition, parameters };
+}
+
+/**
+ * Add a keyset condition to where conditions (to every alternative of a disjunction).
+ * The condition is attached to the primary column as a Raw operator, next to any condition already on it.
+ * @param where Where conditions from the filter
+ * @param primaryProp Primary column property
+ * @param keyset Keyset condition from buildKeysetCondition
+ * @returns Where conditions that also require the keyset condition
+ */
+export function addKeysetCondition<T>(
+  where: FindOptionsWhere<T>[],
+  primaryProp: string,
+  keyset: { sql: string; parameters: Record<string, string> },
+): FindOptionsWhere<T>[] {
+  return addConditionToWhere(where, primaryProp, Raw(() => keyset.sql, keyset.parameters));
+}
@@ -0,0 +1,92 @@
+import { PassThrough } from 'stream';
+import { BadRequestException } from '@nestjs/common';
+import { DataSource, EntityMetadata } from 'typeorm';
+import { User } from '../users/entities/user.entity';
+import { getExportColumns, resolveExportFormat, writeExport } from './export-backend';
+
+async function* toRows<T>(items: T[]): AsyncGenerator<T> {
+  yield* items;
+}
+
+async function collect(run: (output: PassThrough) => Promise<void>): Promise<Buffer> {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', (chunk: Buffer) => chunks.push(chunk));
+  await run(output);
+  return Buffer.concat(chunks);
+}
+
+describe('export-backend', () => {
+  // Metadata is built without connecting to a database
+  const dataSource = new DataSource({ type: 'postgres', entities: [User] });
+  let metadata: EntityMetadata;
+
+  const user = Object.assign(new User(), {
+    id: 'u1',
+    firstName: 'Ada',
+    lastName: '=HYPERLINK("x")',
+    email: 'ada@test.com',
+    bio: 'Line 1\nLine 2, "quoted"',
+    isActive: true,
+    version: 2,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+  });
+
+  beforeAll(async () => {
+    await (dataSource as unknown as { buildMetadatas(): Promise<void> }).buildMetadatas();
+    metadata = dataSource.getMetadata(User);
+  });
+
+  describe('resolveExportFormat', () => {
+    it('should prefer ?format= over the Accept header and default to CSV', () => {
+      expect(resolveExportFormat('XLSX', 'application/x-ndjson')).toBe('xlsx');
+      expect(resolveExportFormat(undefined, 'application/json;q=0.9, application/x-ndjson')).toBe('ndjson');
+      expect(resolveExportFormat(undefined, '*/*')).toBe('csv');
+      expect(() => resolveExportFormat('pdf', undefined)).toThrow(BadRequestException);
+    });
+  });
+
+  describe('getExportColumns', () => {
+    it('should leave out excluded and unselectable columns', () => {
+      expect(getExportColumns(metadata).map(({ prop }) => prop)).toEqual([
+        'id',
+        'deletedAt',
+        'version',
+        'firstName',
+        'lastName',
+        'email',
+        'bio',
+        'isActive',
+      ]);
+      expect(getExportColumns(metadata, ['lastName', 'firstName']).map(({ header }) => header)).toEqual([
+        'Last Name',
+        'First Name',
+      ]);
+    });
+  });
+
+  describe('writeExport', () => {
+    it('should write quoted CSV fields and neutralize formulas', async () => {
+      const columns = getExportColumns(metadata, ['firstName', 'lastName', 'bio', 'isActive']);
+      const csv = await collect((output) => writeExport('csv', columns, toRows([user]), output));
+
+      expect(csv.toString('utf8')).toBe(
+        '\uFEFFFirst Name,Last Name,Bio,Is Active\r\nAda,"\'=HYPERLINK(""x"")","Line 1\nLine 2, ""quoted""",true\r\n',
+      );
+    });
+
+    it('should write one JSON object per line and XLSX workbooks', async () => {
+      const columns = getExportColumns(metadata, ['id', 'email', 'deletedAt']);
+      const ndjson = await collect((output) => writeExport('ndjson', columns, toRows([user, user]), output));
+      const xlsx = await collect((output) => writeExport('xlsx', columns, toRows([user]), output));
+
+      expect(ndjson.toString('utf8').split('\n')).toEqual([
+        '{"id":"u1","email":"ada@test.com","deletedAt":null}',
+        '{"id":"u1","email":"ada@test.com","deletedAt":null}',
+        '',
+      ]);
+      // XLSX files are zip archives
+      expect(xlsx.subarray(0, 2).toString('latin1')).toBe('PK');
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Export Backend Utilities
+ * Pick the export format and columns, and write streamed entities as CSV, NDJSON or XLSX
+ */
+
+import { Writable } from 'stream';
+import { finished } from 'stream/promises';
+import { BadRequestException } from '@nestjs/common';
+import { instanceToPlain } from 'class-transformer';
+import { EntityMetadata } from 'typeorm';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+import { stream as excelStream } from 'exceljs';
+
+/**
+ * Formats of exported lists
+ */
+export type ExportFormat = 'csv' | 'ndjson' | 'xlsx';
+
+/**
+ * Content type of each export format
+ */
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Exported column of an entity
+ */
+export interface ExportColumn {
+  /** Property path (the key of NDJSON rows) */
+  prop: string;
+  /** Header of CSV and XLSX files (e.g., "First Name") */
+  header: string;
+  column: ColumnMetadata;
+}
+
+/**
+ * Entities streamed for an export, with the columns to write
+ */
+export interface EntityExport<T> {
+  /** Table name of the entity, used to name the file */
+  name: string;
+  columns: ExportColumn[];
+  rows: AsyncIterable<T>;
+}
+
+/**
+ * Pick the export format from ?format= or else from the Accept header
+ * @param format Value of the format query parameter
+ * @param accept Accept header
+ * @returns Requested format, CSV when none is requested
+ * @throws BadRequestException when the format query parameter is not supported
+ */
+export function resolveExportFormat(format: string | undefined, accept: string | undefined): ExportFormat {
+  if (format) {
+    const requested = format.toLowerCase();
+    if (!(requested in EXPORT_CONTENT_TYPES)) {
+      throw new BadRequestException(`Unsupported export format '${format}' (expected csv, ndjson or xlsx)`);
+    }
+    return requested as ExportFormat;
+  }
+
+  const mediaTypes = (accept ?? '').split(',').map((part) => part.split(';')[0].trim().toLowerCase());
+  for (const mediaType of mediaTypes) {
+    const match = (Object.keys(EXPORT_CONTENT_TYPES) as ExportFormat[]).find(
+      (candidate) => EXPORT_CONTENT_TYPES[candidate].split(';')[0] === mediaType,
+    );
+    if (match) {
+      return match;
+    }
+  }
+  return 'csv';
+}
+
+/**
+ * Convert a property path to a header (e.g., "firstName" to "First Name")
+ */
+function toHeader(prop: string): string {
+  return prop
+    .split('.')
+    .map((part) => part.replace(/([a-z0-9])([A-Z])/g, '$1 $2'))
+    .join(' ')
+    .replace(/(^|\s)\w/g, (letter) => letter.toUpperCase());
+}
+
+/**
+ * Get the exported columns of an entity: its selectable columns that are not excluded from serialization
+ * (e.g., @Exclude({ toPlainOnly: true }) on createdAt), in the order of $select when given
+ * @param metadata Entity metadata
+ * @param select Properties of $select
+ * @returns Columns in export order
+ */
+export function getExportColumns(metadata: EntityMetadata, select?: string[]): ExportColumn[] {
+  // class-transformer decides what is serialized, so a row with every column set shows the visible ones
+  const probe = metadata.create() as object;
+  metadata.columns.forEach((column) => column.setEntityValue(probe, null));
+  const visible = instanceToPlain(probe);
+
+  const columns = metadata.columns.filter(
+    (column) => column.isSelect && !column.relationMetadata && column.getEntityValue(visible) !== undefined,
+  );
+  const selected = select?.length
+    ? select
+        .map((prop) => columns.find((column) => column.propertyPath === prop))
+        .filter((column): column is ColumnMetadata => column !== undefined)
+    : columns;
+
+  return selected.map((column) => ({ prop: column.propertyPath, header: toHeader(column.propertyPath), column }));
+}
+
+/**
+ * Wait until a stream accepts more data
+ * @throws Error when the stream was closed (e.g., the client disconnected)
+ */
+async function drain(output: Writable): Promise<void> {
+  if (output.writableNeedDrain && !output.destroyed) {
+    await new Promise<void>((resolve) => {
+      const done = () => {
+        output.off('drain', done);
+        output.off('close', done);
+        resolve();
+      };
+      output.on('drain', done);
+      output.on('close', done);
+    });
+  }
+  if (output.destroyed) {
+    throw new Error('Export output was closed');
+  }
+}
+
+/**
+ * Format a value as a CSV field. Text starting like a formula is prefixed with an apostrophe,
+ * so that spreadsheets do not evaluate it.
+ */
+function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format a value as an XLSX cell; dates and numbers keep their type
+ */
+function toCellValue(value: unknown): unknown {
+  if (value === undefined) {
+    return null;
+  }
+  return value !== null && typeof value === 'object' && !(value instanceof Date) ? JSON.stringify(value) : value;
+}
+
+/**
+ * Write streamed entities to an output stream in an export format, then end the stream.
+ * Rows are written as they are read, waiting for the output to drain, so memory use does not grow with the list.
+ * @param format Export format
+ * @param columns Exported columns
+ * @param rows Entities
+ * @param output Stream written to (e.g., the response)
+ * @throws Error when the output is closed before the export is complete
+ */
+export async function writeExport(
+  format: ExportFormat,
+  columns: ExportColumn[],
+  rows: AsyncIterable<object>,
+  output: Writable,
+): Promise<void> {
+  const valuesOf = (row: object) => columns.map(({ column }) => column.getEntityValue(row));
+
+  if (format === 'xlsx') {
+    const workbook = new excelStream.xlsx.WorkbookWriter({ stream: output, useStyles: false, useSharedStrings: false });
+    const worksheet = workbook.addWorksheet('Export');
+    worksheet.columns = columns.map(({ prop, header }) => ({ key: prop, header }));
+    for await (const row of rows) {
+      worksheet.addRow(valuesOf(row).map(toCellValue)).commit();
+      await drain(output);
+    }
+    worksheet.commit();
+    await workbook.commit();
+    return;
+  }
+
+  if (format === 'csv') {
+    // The byte order mark makes spreadsheets read the file as UTF-8
+    output.write(`\uFEFF${columns.map(({ header }) => toCsvField(header)).join(',')}\r\n`);
+  }
+  for await (const row of rows) {
+    const values = valuesOf(row);
+    output.write(
+      format === 'csv'
+        ? `${values.map(toCsvField).join(',')}\r\n`
+        : `${JSON.stringify(Object.fromEntries(columns.map(({ prop }, index) => [prop, values[index] ?? null])))}\n`,
+    );
+    await drain(output);
+  }
+  output.end();
+  await finished(output);
+}
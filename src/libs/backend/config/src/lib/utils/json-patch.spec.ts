@@ -0,0 +1,114 @@
+import { BadRequestException, ConflictException, UnsupportedMediaTypeException } from '@nestjs/common';
+import { applyJsonPatch, applyMergePatch, checkPatchPaths, parsePatchRequest } from './json-patch';
+
+describe('json-patch', () => {
+  const user = { firstName: 'Ada', bio: 'Mathematician', tags: ['a', 'b'], address: { city: 'London', zip: 'N1' } };
+
+  describe('parsePatchRequest', () => {
+    it('should read merge patches and JSON Patches by content type', () => {
+      expect(parsePatchRequest('application/merge-patch+json; charset=utf-8', { bio: null })).toEqual({
+        kind: 'merge',
+        patch: { bio: null },
+      });
+      expect(parsePatchRequest('application/json', { bio: 'x' })).toEqual({ kind: 'merge', patch: { bio: 'x' } });
+      expect(parsePatchRequest('application/json-patch+json', [{ op: 'remove', path: '/bio' }])).toEqual({
+        kind: 'json-patch',
+        operations: [{ op: 'remove', path: '/bio' }],
+      });
+      expect(() => parsePatchRequest('text/plain', {})).toThrow(UnsupportedMediaTypeException);
+      expect(() => parsePatchRequest('application/merge-patch+json', ['x'])).toThrow(BadRequestException);
+    });
+
+    it('should list the invalid operations', () => {
+      expect.assertions(1);
+      try {
+        parsePatchRequest('application/json-patch+json', [
+          { op: 'add', path: '/tags/-', value: 'c' },
+          { op: 'delete', path: '/bio' },
+          { op: 'replace', path: '/bio' },
+        ]);
+      } catch (error) {
+        expect((error as BadRequestException).getResponse()).toMatchObject({
+          errors: [
+            { field: '1', message: 'op must be one of add, remove, replace, move, copy, test' },
+            { field: '2', message: 'value is required for replace' },
+          ],
+        });
+      }
+    });
+  });
+
+  describe('applyMergePatch', () => {
+    it('should merge objects, remove nulls and replace arrays', () => {
+      expect(applyMergePatch(user, { bio: null, tags: ['c'], address: { zip: null, country: 'UK' } })).toEqual({
+        firstName: 'Ada',
+        tags: ['c'],
+        address: { city: 'London', country: 'UK' },
+      });
+      expect(user.bio).toBe('Mathematician');
+    });
+  });
+
+  describe('applyJsonPatch', () => {
+    it('should apply the operations in order', () => {
+      expect(
+        applyJsonPatch(user, [
+          { op: 'test', path: '/firstName', value: 'Ada' },
+          { op: 'add', path: '/tags/1', value: 'x' },
+          { op: 'add', path: '/tags/-', value: 'z' },
+          { op: 'remove', path: '/tags/0' },
+          { op: 'replace', path: '/address/city', value: 'Paris' },
+          { op: 'move', from: '/bio', path: '/summary' },
+          { op: 'copy', from: '/address/zip', path: '/zip' },
+        ]),
+      ).toEqual({
+        firstName: 'Ada',
+        summary: 'Mathematician',
+        zip: 'N1',
+        tags: ['x', 'b', 'z'],
+        address: { city: 'Paris', zip: 'N1' },
+      });
+      expect(user.tags).toEqual(['a', 'b']);
+    });
+
+    it('should reject missing locations and failed tests', () => {
+      expect(() => applyJsonPatch(user, [{ op: 'replace', path: '/lastName', value: 'x' }])).toThrow(
+        'Operation 0 (replace /lastName): the path does not exist',
+      );
+      expect(() => applyJsonPatch(user, [{ op: 'remove', path: '/tags/2' }])).toThrow(BadRequestException);
+      expect(() => applyJsonPatch(user, [{ op: 'test', path: '/tags', value: ['b', 'a'] }])).toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('checkPatchPaths', () => {
+    it('should list the operations changing read-only properties', () => {
+      const readOnly = ['id', 'createdAt', 'version'];
+      expect.assertions(2);
+      expect(() => checkPatchPaths({ kind: 'merge', patch: { bio: null } }, readOnly)).not.toThrow();
+      try {
+        checkPatchPaths(
+          {
+            kind: 'json-patch',
+            operations: [
+              { op: 'test', path: '/version', value: 3 },
+              { op: 'replace', path: '/id', value: 'x' },
+              { op: 'remove', path: '/bio' },
+              { op: 'move', from: '/createdAt', path: '/bio' },
+            ],
+          },
+          readOnly,
+        );
+      } catch (error) {
+        expect((error as BadRequestException).getResponse()).toMatchObject({
+          message: 'The patch changes read-only properties',
+          errors: [
+            { field: '1', message: 'replace /id: id is read-only' },
+            { field: '3', message: 'move /bio: createdAt is read-only' },
+          ],
+        });
+      }
+    });
+  });
+});
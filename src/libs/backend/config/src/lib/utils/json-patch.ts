@@ -0,0 +1,304 @@
+/**
+ * JSON Patch Utilities
+ * Parse and apply JSON Merge Patch (RFC 7396) and JSON Patch (RFC 6902) documents to the JSON state of an entity
+ */
+
+import { BadRequestException, ConflictException, UnsupportedMediaTypeException } from '@nestjs/common';
+import { ValidationError } from '@libs/shared';
+
+export const MERGE_PATCH_CONTENT_TYPE = 'application/merge-patch+json';
+export const JSON_PATCH_CONTENT_TYPE = 'application/json-patch+json';
+
+/**
+ * Operations of a JSON Patch
+ */
+export type JsonPatchOperationType = 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+
+const OPERATION_TYPES: JsonPatchOperationType[] = ['add', 'remove', 'replace', 'move', 'copy', 'test'];
+
+/**
+ * Operation of a JSON Patch; path and from are JSON Pointers (RFC 6901), e.g. /tags/0
+ */
+export interface JsonPatchOperation {
+  op: JsonPatchOperationType;
+  path: string;
+  /** Source of move and copy */
+  from?: string;
+  /** Value of add, replace and test */
+  value?: unknown;
+}
+
+/**
+ * Patch of an entity: a merge patch (properties to set, null removing them) or a list of JSON Patch operations
+ */
+export type EntityPatch =
+  | { kind: 'merge'; patch: Record<string, unknown> }
+  | { kind: 'json-patch'; operations: JsonPatchOperation[] };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read the patch of a PATCH request from its body and content type.
+ * application/json bodies are taken as merge patches, which they are for JSON objects.
+ * @param contentType Content-Type header
+ * @param body Parsed body
+ * @returns Patch
+ * @throws UnsupportedMediaTypeException for other content types
+ * @throws BadRequestException when the body is not a valid patch
+ */
+export function parsePatchRequest(contentType: string | undefined, body: unknown): EntityPatch {
+  const mediaType = contentType?.split(';')[0].trim().toLowerCase();
+
+  if (mediaType === JSON_PATCH_CONTENT_TYPE) {
+    if (!Array.isArray(body)) {
+      throw new BadRequestException('A JSON Patch must be an array of operations');
+    }
+    const errors: ValidationError[] = [];
+    body.forEach((operation: unknown, index) => {
+      const field = `${index}`;
+      if (!isObject(operation) || !OPERATION_TYPES.includes(operation['op'] as JsonPatchOperationType)) {
+        errors.push({ field, message: `op must be one of ${OPERATION_TYPES.join(', ')}` });
+      } else if (typeof operation['path'] !== 'string') {
+        errors.push({ field, message: 'path must be a JSON Pointer' });
+      } else if ((operation['op'] === 'move' || operation['op'] === 'copy') && typeof operation['from'] !== 'string') {
+        errors.push({ field, message: `from must be a JSON Pointer for ${operation['op']}` });
+      } else if (['add', 'replace', 'test'].includes(operation['op'] as string) && !('value' in operation)) {
+        errors.push({ field, message: `value is required for ${operation['op']}` });
+      }
+    });
+    if (errors.length > 0) {
+      throw new BadRequestException({ message: 'Invalid JSON Patch', error: 'Bad Request', errors });
+    }
+    return { kind: 'json-patch', operations: body as JsonPatchOperation[] };
+  }
+
+  if (mediaType === undefined || mediaType === MERGE_PATCH_CONTENT_TYPE || mediaType === 'application/json') {
+    if (!isObject(body)) {
+      throw new BadRequestException('A merge patch must be a JSON object');
+    }
+    return { kind: 'merge', patch: body };
+  }
+
+  throw new UnsupportedMediaTypeException(
+    `PATCH accepts ${MERGE_PATCH_CONTENT_TYPE}, ${JSON_PATCH_CONTENT_TYPE} or application/json`,
+  );
+}
+
+/**
+ * Apply a JSON Merge Patch (RFC 7396): objects are merged recursively, null removes a property and any other
+ * value (arrays included) replaces it
+ * @param target Current value (not modified)
+ * @param patch Merge patch
+ * @returns Patched value
+ */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isObject(patch)) {
+    return structuredClone(patch);
+  }
+  const result: Record<string, unknown> = isObject(target) ? structuredClone(target) : {};
+  Object.entries(patch).forEach(([key, value]) => {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  });
+  return result;
+}
+
+/**
+ * Split a JSON Pointer (RFC 6901) into its reference tokens
+ * @throws BadRequestException when the pointer does not start with /
+ */
+function parsePointer(pointer: string, index: number): string[] {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/')) {
+    throw new BadRequestException(`Operation ${index}: ${pointer} is not a JSON Pointer`);
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Index of an array element; '-' is the end of the array, only valid when adding
+ */
+function toArrayIndex(array: unknown[], token: string, adding: boolean, at: string): number {
+  if (token === '-' && adding) {
+    return array.length;
+  }
+  if (!/^(0|[1-9][0-9]*)$/.test(token) || Number(token) > array.length || (!adding && Number(token) === array.length)) {
+    throw new BadRequestException(`${at}: index ${token} is out of bounds`);
+  }
+  return Number(token);
+}
+
+/**
+ * Parent of the location a pointer refers to, with the last token
+ */
+function resolveParent(document: unknown, tokens: string[], at: string): { parent: unknown; key: string } {
+  let parent = document;
+  for (const token of tokens.slice(0, -1)) {
+    const child = Array.isArray(parent)
+      ? parent[toArrayIndex(parent, token, false, at)]
+      : isObject(parent) && Object.prototype.hasOwnProperty.call(parent, token)
+        ? parent[token]
+        : undefined;
+    if (child === undefined) {
+      throw new BadRequestException(`${at}: the path does not exist`);
+    }
+    parent = child;
+  }
+  return { parent, key: tokens[tokens.length - 1] };
+}
+
+function getValue(document: unknown, tokens: string[], at: string): unknown {
+  if (tokens.length === 0) {
+    return document;
+  }
+  const { parent, key } = resolveParent(document, tokens, at);
+  if (Array.isArray(parent)) {
+    return parent[toArrayIndex(parent, key, false, at)];
+  }
+  if (isObject(parent) && Object.prototype.hasOwnProperty.call(parent, key)) {
+    return parent[key];
+  }
+  throw new BadRequestException(`${at}: the path does not exist`);
+}
+
+function addValue(document: unknown, tokens: string[], value: unknown, at: string): unknown {
+  if (tokens.length === 0) {
+    return value;
+  }
+  const { parent, key } = resolveParent(document, tokens, at);
+  if (Array.isArray(parent)) {
+    parent.splice(toArrayIndex(parent, key, true, at), 0, value);
+  } else if (isObject(parent)) {
+    parent[key] = value;
+  } else {
+    throw new BadRequestException(`${at}: the path does not exist`);
+  }
+  return document;
+}
+
+function removeValue(document: unknown, tokens: string[], at: string): unknown {
+  const removed = getValue(document, tokens, at);
+  if (tokens.length === 0) {
+    throw new BadRequestException(`${at}: the whole document cannot be removed`);
+  }
+  const { parent, key } = resolveParent(document, tokens, at);
+  if (Array.isArray(parent)) {
+    parent.splice(toArrayIndex(parent, key, false, at), 1);
+  } else {
+    delete (parent as Record<string, unknown>)[key];
+  }
+  return removed;
+}
+
+/**
+ * Compare JSON values structurally, as the test operation does
+ */
+function isEqualJson(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => isEqualJson(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => key in b && isEqualJson(a[key], b[key]));
+  }
+  return a === b;
+}
+
+/**
+ * Apply the operations of a JSON Patch (RFC 6902) in order; the patch applies as a whole or not at all
+ * @param document Current value (not modified)
+ * @param operations Operations
+ * @returns Patched value
+ * @throws BadRequestException when an operation refers to a missing location
+ * @throws ConflictException when a test operation fails
+ */
+export function applyJsonPatch(document: unknown, operations: JsonPatchOperation[]): unknown {
+  let result = structuredClone(document);
+  operations.forEach((operation, index) => {
+    const at = `Operation ${index} (${operation.op} ${operation.path})`;
+    const path = parsePointer(operation.path, index);
+    switch (operation.op) {
+      case 'add':
+        result = addValue(result, path, structuredClone(operation.value), at);
+        break;
+      case 'remove':
+        removeValue(result, path, at);
+        break;
+      case 'replace': {
+        if (path.length === 0) {
+          result = structuredClone(operation.value);
+          break;
+        }
+        getValue(result, path, at);
+        const { parent, key } = resolveParent(result, path, at);
+        if (Array.isArray(parent)) {
+          parent[Number(key)] = structuredClone(operation.value);
+        } else {
+          (parent as Record<string, unknown>)[key] = structuredClone(operation.value);
+        }
+        break;
+      }
+      case 'move': {
+        const from = parsePointer(operation.from!, index);
+        if (operation.path.startsWith(`${operation.from}/`)) {
+          throw new BadRequestException(`${at}: a value cannot be moved into itself`);
+        }
+        result = addValue(result, path, removeValue(result, from, at), at);
+        break;
+      }
+      case 'copy':
+        result = addValue(result, path, structuredClone(getValue(result, parsePointer(operation.from!, index), at)), at);
+        break;
+      case 'test':
+        if (!isEqualJson(getValue(result, path, at), operation.value)) {
+          throw new ConflictException(`${at} failed: the value differs`);
+        }
+        break;
+    }
+  });
+  return result;
+}
+
+/**
+ * Check that a patch leaves read-only properties alone (tests may still read them)
+ * @param patch Patch
+ * @param readOnly Read-only top-level properties (e.g., id, createdAt, version)
+ * @throws BadRequestException listing the offending operations
+ */
+export function checkPatchPaths(patch: EntityPatch, readOnly: string[]): void {
+  const errors: ValidationError[] = [];
+  if (patch.kind === 'merge') {
+    Object.keys(patch.patch)
+      .filter((key) => readOnly.includes(key))
+      .forEach((key) => errors.push({ field: key, message: `${key} is read-only`, value: patch.patch[key] }));
+  } else {
+    patch.operations.forEach((operation, index) => {
+      if (operation.op === 'test') {
+        return;
+      }
+      const pointers = operation.op === 'move' ? [operation.from!, operation.path] : [operation.path];
+      const props = pointers.map((pointer): string | undefined => parsePointer(pointer, index)[0]);
+      if (props.some((touched) => touched === undefined)) {
+        errors.push({ field: `${index}`, message: `${operation.op} of the whole entity is not allowed`, value: operation });
+        return;
+      }
+      const prop = props.find((touched) => readOnly.includes(touched!));
+      if (prop) {
+        errors.push({ field: `${index}`, message: `${operation.op} ${operation.path}: ${prop} is read-only`, value: operation });
+      }
+    });
+  }
+  if (errors.length > 0) {
+    throw new BadRequestException({ message: 'The patch changes read-only properties', error: 'Bad Request', errors });
+  }
+}
@@ -0,0 +1,74 @@
+import { Column, CreateDateColumn, DataSource, Entity, PrimaryGeneratedColumn } from 'typeorm';
+import { parseODataQueryOptions } from '@libs/shared';
+import { applyAggregationToQueryBuilder, toAggregateRows } from './odata-apply-backend';
+
+@Entity('orders')
+class Order {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column()
+  status!: string;
+
+  @Column('decimal')
+  total!: string;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
+
+describe('odata-apply-backend', () => {
+  // Metadata is built without connecting to a database
+  const dataSource = new DataSource({ type: 'postgres', entities: [Order] });
+
+  beforeAll(async () => {
+    await (dataSource as unknown as { buildMetadatas(): Promise<void> }).buildMetadatas();
+  });
+
+  const toSql = (query: Record<string, string>) => {
+    const queryBuilder = dataSource.getRepository(Order).createQueryBuilder('Order');
+    const numericColumns = applyAggregationToQueryBuilder(
+      queryBuilder,
+      parseODataQueryOptions(query),
+      dataSource.getMetadata(Order),
+    );
+    return { numericColumns, query: queryBuilder.getQueryAndParameters() };
+  };
+
+  it('should group and aggregate filtered rows', () => {
+    const { numericColumns, query } = toSql({
+      $filter: "status ne 'draft'",
+      $apply: "filter(total gt 10)/groupby((status),aggregate($count as orders,total with sum as amount))",
+      $orderby: 'amount desc',
+    });
+
+    expect(query[0]).toBe(
+      'SELECT "Order"."status" AS "status", COUNT(*) AS "orders", SUM("Order"."total") AS "amount" ' +
+        'FROM "orders" "Order" WHERE ("Order"."status" != $1) AND ("Order"."total" > $2) ' +
+        'GROUP BY "Order"."status" ORDER BY "amount" DESC',
+    );
+    expect(query[1]).toEqual(['draft', 10]);
+    expect(numericColumns).toEqual(['orders', 'amount']);
+  });
+
+  it('should group by computed properties', () => {
+    const { numericColumns, query } = toSql({
+      $apply:
+        'compute(year(createdAt) as year,month(createdAt) as month)' +
+        '/groupby((year,month),aggregate(total with max as largest))',
+    });
+
+    expect(query[0]).toBe(
+      'SELECT EXTRACT(YEAR FROM "Order"."createdAt") AS "year", EXTRACT(MONTH FROM "Order"."createdAt") AS "month", ' +
+        'MAX("Order"."total") AS "largest" FROM "orders" "Order" ' +
+        'GROUP BY EXTRACT(YEAR FROM "Order"."createdAt"), EXTRACT(MONTH FROM "Order"."createdAt")',
+    );
+    expect(numericColumns).toEqual(['year', 'month']);
+  });
+
+  it('should convert numeric columns of raw rows', () => {
+    expect(toAggregateRows([{ status: 'open', orders: '3', amount: null }], ['orders', 'amount'])).toEqual([
+      { status: 'open', orders: 3, amount: null },
+    ]);
+  });
+});
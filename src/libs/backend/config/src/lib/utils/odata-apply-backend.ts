@@ -0,0 +1,147 @@
+/**
+ * OData $apply Backend Utilities
+ * Translate $apply transformations (filter, compute, groupby, aggregate) to TypeORM query builder calls
+ */
+
+import { EntityMetadata, ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { AggregateExpression, FilterFunction, ODataQueryOptions } from '@libs/shared';
+import { applyFilterFunctions, convertFilterTreeToBrackets } from './odata-filter-backend';
+
+/**
+ * Functions returning numbers (the driver returns numeric results as strings)
+ */
+const NUMERIC_FUNCTIONS = [
+  FilterFunction.LENGTH,
+  FilterFunction.YEAR,
+  FilterFunction.MONTH,
+  FilterFunction.DAY,
+  FilterFunction.HOUR,
+  FilterFunction.MINUTE,
+  FilterFunction.SECOND,
+  FilterFunction.ROUND,
+  FilterFunction.FLOOR,
+  FilterFunction.CEILING,
+];
+
+/**
+ * SQL for each aggregation method, given the SQL of the aggregated expression
+ */
+const AGGREGATE_SQL: Record<AggregateExpression['method'], (argument: string) => string> = {
+  count: () => 'COUNT(*)',
+  countdistinct: (argument) => `COUNT(DISTINCT ${argument})`,
+  sum: (argument) => `SUM(${argument})`,
+  avg: (argument) => `AVG(${argument})`,
+  min: (argument) => `MIN(${argument})`,
+  max: (argument) => `MAX(${argument})`,
+};
+
+/**
+ * Apply $filter and $apply to a query builder: filters become where conditions, groupby and
+ * aggregate replace the selection, and $orderby sorts the aggregated rows. Paging is left to the caller.
+ * Options must have been checked with validateApplyOptions.
+ * @param queryBuilder Query builder over the entity
+ * @param options Parsed query options with $apply
+ * @param metadata Entity metadata, required when filters contain any/all
+ * @returns Result columns holding numbers, to be converted with toAggregateRows
+ */
+export function applyAggregationToQueryBuilder<T extends ObjectLiteral>(
+  queryBuilder: SelectQueryBuilder<T>,
+  options: ODataQueryOptions,
+  metadata: EntityMetadata,
+): string[] {
+  const alias = queryBuilder.alias;
+  const computed = new Map<string, string>();
+  const numericComputed = new Set<string>();
+  const numericColumns: string[] = [];
+  const toSql = (prop: string) => computed.get(prop) ?? `${alias}.${prop}`;
+
+  const addAggregates = (aggregate: AggregateExpression[]) => {
+    aggregate.forEach(({ prop, method, alias: name }) => {
+      queryBuilder.addSelect(AGGREGATE_SQL[method](prop ? toSql(prop) : ''), name);
+      if ((method !== 'min' && method !== 'max') || (prop && numericComputed.has(prop))) {
+        numericColumns.push(name);
+      }
+    });
+  };
+
+  queryBuilder.select([]);
+  if (options.filter) {
+    queryBuilder.andWhere(convertFilterTreeToBrackets(options.filter, alias, 'filter', metadata));
+  }
+
+  options.apply?.forEach((transformation, index) => {
+    switch (transformation.kind) {
+      case 'filter':
+        queryBuilder.andWhere(convertFilterTreeToBrackets(transformation.filter, alias, `apply_${index}`, metadata));
+        break;
+
+      case 'compute':
+        transformation.compute.forEach(({ prop, functions, alias: name }) => {
+          computed.set(name, applyFilterFunctions(toSql(prop), functions));
+          if (NUMERIC_FUNCTIONS.includes(functions[functions.length - 1])) {
+            numericComputed.add(name);
+          }
+        });
+        break;
+
+      case 'groupby':
+        transformation.groupBy.forEach((prop) => {
+          queryBuilder.addSelect(toSql(prop), prop).addGroupBy(toSql(prop));
+          if (numericComputed.has(prop)) {
+            numericColumns.push(prop);
+          }
+        });
+        addAggregates(transformation.aggregate ?? []);
+        break;
+
+      case 'aggregate':
+        addAggregates(transformation.aggregate);
+        break;
+    }
+  });
+
+  options.orderBy?.forEach(({ prop, direction }) => {
+    queryBuilder.addOrderBy(queryBuilder.escape(prop), direction === 'desc' ? 'DESC' : 'ASC');
+  });
+
+  return numericColumns;
+}
+
+/**
+ * Count the rows of an aggregation query (the number of groups)
+ * @param queryBuilder Query builder prepared with applyAggregationToQueryBuilder, without paging
+ * @returns Number of rows
+ */
+export async function countAggregationRows<T extends ObjectLiteral>(
+  queryBuilder: SelectQueryBuilder<T>,
+): Promise<number> {
+  const rows = queryBuilder.clone().orderBy();
+  const result = await queryBuilder.connection
+    .createQueryBuilder()
+    .select('COUNT(*)', 'count')
+    .from(`(${rows.getQuery()})`, 'rows')
+    .setParameters(rows.getParameters())
+    .getRawOne<{ count: string }>();
+  return Number(result?.count ?? 0);
+}
+
+/**
+ * Convert numeric result columns of raw aggregation rows to numbers
+ * @param rows Raw rows
+ * @param numericColumns Result columns holding numbers
+ * @returns Rows with numbers
+ */
+export function toAggregateRows(
+  rows: Record<string, unknown>[],
+  numericColumns: string[],
+): Record<string, unknown>[] {
+  return rows.map((row) => {
+    const converted = { ...row };
+    numericColumns.forEach((column) => {
+      if (converted[column] !== null && converted[column] !== undefined) {
+        converted[column] = Number(converted[column]);
+      }
+    });
+    return converted;
+  });
+}
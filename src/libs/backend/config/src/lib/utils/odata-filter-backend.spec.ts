@@ -0,0 +1,209 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  And,
+  Column,
+  DataSource,
+  Entity,
+  Equal,
+  FindOperator,
+  In,
+  IsNull,
+  LessThan,
+  ManyToOne,
+  MoreThan,
+  Not,
+  OneToMany,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { parseFilterExpression } from '@libs/shared';
+import {
+  addConditionToWhere,
+  convertFilterTreeToBrackets,
+  convertFilterTreeToFindOptionsWhere,
+  parseFilterTreeFromQuery,
+} from './odata-filter-backend';
+
+@Entity('customers')
+class Customer {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column()
+  name!: string;
+
+  @OneToMany(() => Order, (order) => order.customer)
+  orders!: Order[];
+}
+
+@Entity('orders')
+class Order {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column()
+  status!: string;
+
+  @ManyToOne(() => Customer, (customer) => customer.orders)
+  customer!: Customer;
+}
+
+describe('odata-filter-backend', () => {
+  describe('parseFilterTreeFromQuery', () => {
+    it('should report malformed expressions as bad requests', () => {
+      expect(() => parseFilterTreeFromQuery({ filter: 'a eq 1 or' })).toThrow(BadRequestException);
+      expect(() => parseFilterTreeFromQuery({ filter: 'a like 1' })).toThrow(BadRequestException);
+    });
+
+    it('should limit the alternative conditions a filter expands to', () => {
+      const filter = '(a eq 1 or a eq 2) and (b eq 1 or b eq 2) and (c eq 1 or c eq 2)';
+
+      expect(() => parseFilterTreeFromQuery({ filter }, { maxBranches: 8 })).not.toThrow();
+      expect(() => parseFilterTreeFromQuery({ filter }, { maxBranches: 4 })).toThrow(
+        'Invalid filter expression: Expression expands to more than 4 alternative conditions',
+      );
+      // Negated, the conjunction of disjunctions becomes a disjunction of three conjunctions
+      expect(() => parseFilterTreeFromQuery({ filter: `not (${filter})` }, { maxBranches: 4 })).not.toThrow();
+    });
+
+    it('should point at the offending token in the error response', () => {
+      expect.assertions(1);
+      try {
+        parseFilterTreeFromQuery({ filter: "name eq 'a' and age like 1" });
+      } catch (error) {
+        expect((error as BadRequestException).getResponse()).toMatchObject({
+          errors: [{ field: '$filter', value: 'like', position: 20 }],
+        });
+      }
+    });
+
+    it('should enforce the filter limits', () => {
+      const filter = Array.from({ length: 3 }, (_, i) => `a eq ${i}`).join(' or ');
+      expect(() => parseFilterTreeFromQuery({ filter }, { maxPredicates: 2 })).toThrow(BadRequestException);
+      expect(parseFilterTreeFromQuery({ filter }, { maxPredicates: 3 })).not.toBeNull();
+    });
+  });
+
+  describe('convertFilterTreeToFindOptionsWhere', () => {
+    it('should expand or into separate where objects', () => {
+      const tree = parseFilterExpression("(status eq 'a' or status eq 'b') and age gt 18");
+
+      expect(convertFilterTreeToFindOptionsWhere(tree)).toEqual([
+        { status: Equal('a'), age: MoreThan(18) },
+        { status: Equal('b'), age: MoreThan(18) },
+      ]);
+    });
+
+    it('should push negations down to the comparisons', () => {
+      const tree = parseFilterExpression('not (a eq null and b in (1, 2))');
+
+      expect(convertFilterTreeToFindOptionsWhere(tree)).toEqual([
+        { a: Not(IsNull()) },
+        { b: Not(In([1, 2])) },
+      ]);
+    });
+
+    it('should map icontains to a case-insensitive like with escaped wildcards', () => {
+      const [{ name }] = convertFilterTreeToFindOptionsWhere(parseFilterExpression("name icontains '50%_off'"));
+      const operator = name as FindOperator<unknown>;
+
+      expect(operator.getSql?.('"name"')).toBe(`"name" ILIKE :filter_0 ESCAPE '\\'`);
+      expect(operator.objectLiteralParameters).toEqual({ filter_0: '%50\\%\\_off%' });
+    });
+
+    it('should combine conditions on the same property', () => {
+      const tree = parseFilterExpression('age gt 18 and age lt 65');
+
+      expect(convertFilterTreeToFindOptionsWhere(tree)).toEqual([
+        { age: And(MoreThan(18), LessThan(65)) },
+      ]);
+    });
+  });
+
+  describe('any/all lambdas', () => {
+    // Metadata is built without connecting to a database
+    const dataSource = new DataSource({ type: 'postgres', entities: [Customer, Order] });
+
+    beforeAll(async () => {
+      await (dataSource as unknown as { buildMetadatas(): Promise<void> }).buildMetadatas();
+    });
+
+    const toSql = (expression: string) => {
+      const metadata = dataSource.getMetadata(Customer);
+      const where = convertFilterTreeToFindOptionsWhere(parseFilterExpression(expression), metadata);
+      return dataSource
+        .getRepository(Customer)
+        .createQueryBuilder('Customer')
+        .setFindOptions({ where })
+        .getQueryAndParameters();
+    };
+
+    it('should compile any to a correlated EXISTS subquery', () => {
+      const [sql, parameters] = toSql("orders/any(o: o/status eq 'open') and name eq 'ACME'");
+
+      expect(sql).toContain(
+        'EXISTS (SELECT 1 FROM "customers" "filter_0" INNER JOIN "orders" "filter_1" ON "filter_1"."customerId"="filter_0"."id" ' +
+          'WHERE ("filter_1"."status" = $1) AND "filter_0"."id" = "Customer"."id")',
+      );
+      expect(parameters).toEqual(['open', 'ACME']);
+    });
+
+    it('should compile all and negated lambdas to NOT EXISTS', () => {
+      const [allSql] = toSql("orders/all(o: o/status eq 'closed')");
+      const [noneSql] = toSql('not orders/any()');
+
+      expect(allSql).toContain('NOT EXISTS (SELECT 1 FROM "customers" "filter_0"');
+      expect(allSql).toContain('WHERE NOT("filter_1"."status" = $1)');
+      expect(noneSql).toMatch(
+        /NOT\(EXISTS \(SELECT 1 FROM "customers" "filter_0" INNER JOIN "orders" "filter_1" ON [^)]+ WHERE "filter_0"."id" = "Customer"."id"\)\)/,
+      );
+    });
+
+    it('should support lambdas in query builder brackets', () => {
+      const metadata = dataSource.getMetadata(Customer);
+      const tree = parseFilterExpression("orders/any(o: o/status eq 'open')")!;
+      const [sql] = dataSource
+        .getRepository(Customer)
+        .createQueryBuilder('c')
+        .where(convertFilterTreeToBrackets(tree, 'c', 'filter', metadata))
+        .getQueryAndParameters();
+
+      expect(sql).toContain('WHERE (EXISTS (SELECT 1 FROM "customers" "filter_0"');
+      expect(sql).toContain('"filter_0"."id" = "c"."id"');
+    });
+
+    it('should escape the wildcards of LIKE patterns in subqueries', () => {
+      const [sql, parameters] = toSql("orders/any(o: o/status startswith 'a_b\\\\')");
+
+      expect(sql).toContain(`WHERE ("filter_1"."status" LIKE $1 ESCAPE '\\')`);
+      expect(parameters).toEqual(['a\\_b\\\\%']);
+    });
+
+    it('should apply functions to the compared property', () => {
+      const [sql, parameters] = toSql("tolower(trim(name)) eq 'acme' and orders/any(o: year(o/status) eq 2026)");
+
+      expect(sql).toContain('LOWER(TRIM("Customer"."name")) = $1');
+      expect(sql).toContain('WHERE (EXTRACT(YEAR FROM "filter_2"."status") = $2)');
+      expect(parameters).toEqual(['acme', 2026]);
+    });
+
+    it('should reject lambdas over properties that are not collections', () => {
+      const metadata = dataSource.getMetadata(Order);
+      expect(() =>
+        convertFilterTreeToFindOptionsWhere(parseFilterExpression("customer/any(c: c/name eq 'x')"), metadata),
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  describe('addConditionToWhere', () => {
+    it('should add the condition to every alternative, next to existing conditions', () => {
+      expect(addConditionToWhere<any>([{ name: 'a' }, { deletedAt: MoreThan(1) }], 'deletedAt', Not(IsNull()))).toEqual([
+        { name: 'a', deletedAt: Not(IsNull()) },
+        { deletedAt: And(MoreThan(1), Not(IsNull())) },
+      ]);
+      expect(addConditionToWhere<any>({ deletedAt: 2 }, 'deletedAt', Not(IsNull()))).toEqual([
+        { deletedAt: And(Equal(2), Not(IsNull())) },
+      ]);
+      expect(addConditionToWhere<any>(undefined, 'deletedAt', Not(IsNull()))).toEqual([{ deletedAt: Not(IsNull()) }]);
+    });
+  });
+});
@@ -1,347 +1,674 @@
 /**
  * OData Filter Backend Utilities
  * Parse OData standard format query parameters and convert to TypeORM FindOptionsWhere
+ * any/all lambdas are compiled to EXISTS subqueries with the query builder,
+ * function calls (tolower, year, round, ...) to Raw SQL conditions
  */
 
 import {
   FindOptionsWhere,
+  FindOperator,
   Equal,
   Not,
   MoreThan,
   MoreThanOrEqual,
   LessThan,
   LessThanOrEqual,
-  Like,
   In,
   IsNull,
+  And,
+  Raw,
+  Brackets,
+  NotBrackets,
+  WhereExpressionBuilder,
+  EntityMetadata,
+  ObjectLiteral,
 } from 'typeorm';
-import { FilterOperator, ParsedFilter } from '@libs/shared';
+import { BadRequestException } from '@nestjs/common';
+import {
+  FilterComparisonNode,
+  FilterFunction,
+  FilterLambdaNode,
+  FilterLimits,
+  FilterNode,
+  FilterOperator,
+  FilterSyntaxError,
+  ParsedFilter,
+  parseFilterExpression,
+} from '@libs/shared';
 
 /**
- * Tokenize OData filter expression
- * @param expression OData filter expression (e.g., "email eq 'test@test.com' and status eq active")
- * @returns Array of tokens
+ * Limits applied to filter expressions unless configured otherwise
  */
-function tokenizeODataExpression(expression: string): string[] {
-  const tokens: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  let quoteChar = '';
-
-  for (let i = 0; i < expression.length; i++) {
-    const char = expression[i];
-    const nextChar = expression[i + 1];
-
-    // Handle quotes
-    if ((char === "'" || char === '"') && (i === 0 || expression[i - 1] !== '\\')) {
-      if (!inQuotes) {
-        inQuotes = true;
-        quoteChar = char;
-        if (current.trim()) {
-          tokens.push(current.trim());
-          current = '';
-        }
-        current += char;
-      } else if (char === quoteChar) {
-        inQuotes = false;
-        current += char;
-        tokens.push(current);
-        current = '';
-        quoteChar = '';
-        continue;
-      } else {
-        current += char;
-      }
-      continue;
-    }
+export const DEFAULT_FILTER_LIMITS: Required<FilterLimits> = {
+  maxDepth: 10,
+  maxPredicates: 50,
+  maxInListLength: 100,
+  maxStringLength: 500,
+  maxBranches: 64,
+};
 
-    if (inQuotes) {
-      current += char;
-      continue;
-    }
+/**
+ * Convert a filter syntax error to a 400 response pointing to the offending token
+ * @param error Filter syntax error
+ * @returns BadRequestException whose response carries an errors[] entry with the token position
+ */
+export function createFilterSyntaxException(error: FilterSyntaxError): BadRequestException {
+  const message = `Invalid filter expression: ${error.message} at position ${error.position}`;
+  return new BadRequestException({
+    message,
+    error: 'Bad Request',
+    errors: [
+      {
+        field: `$${error.option}`,
+        message: error.message,
+        value: error.token,
+        position: error.position,
+      },
+    ],
+  });
+}
 
-    // Handle whitespace
-    if (/\s/.test(char)) {
-      if (current.trim()) {
-        tokens.push(current.trim());
-        current = '';
-      }
-      continue;
-    }
+/**
+ * Parse the filter query parameter into an expression tree
+ * @param query Query parameters object
+ * @param limits Depth, predicate, list and string limits
+ * @returns Expression tree, or null when no filter is present
+ * @throws BadRequestException when the expression is malformed or exceeds a limit
+ */
+export function parseFilterTreeFromQuery(
+  query: Record<string, unknown>,
+  limits: FilterLimits = DEFAULT_FILTER_LIMITS,
+): FilterNode | null {
+  const filterExpression = query['$filter'] ?? query['filter'];
 
-    // Handle parentheses
-    if (char === '(' || char === ')') {
-      if (current.trim()) {
-        tokens.push(current.trim());
-        current = '';
-      }
-      tokens.push(char);
-      continue;
+  if (!filterExpression || typeof filterExpression !== 'string') {
+    return null;
+  }
+
+  let tree: FilterNode | null;
+  try {
+    tree = parseFilterExpression(filterExpression, limits);
+  } catch (error) {
+    if (error instanceof FilterSyntaxError) {
+      throw createFilterSyntaxException(error);
     }
+    throw error;
+  }
+  assertFilterBranchLimit(tree, limits.maxBranches);
+  return tree;
+}
 
-    current += char;
+/**
+ * Count the alternative conditions (OR branches) of the disjunctive normal form of an expression tree,
+ * without expanding it
+ * @param node Expression tree
+ * @param negated Whether the node is under an odd number of 'not'
+ * @returns Number of conjunctions
+ */
+function countFilterBranches(node: FilterNode, negated = false): number {
+  switch (node.kind) {
+    case 'comparison':
+    case 'any':
+    case 'all':
+      return 1;
+
+    case 'not':
+      return countFilterBranches(node.operand, !negated);
   }
 
-  if (current.trim()) {
-    tokens.push(current.trim());
+  const counts = node.operands.map((operand) => countFilterBranches(operand, negated));
+  const isDisjunction = (node.kind === 'or') !== negated;
+  return isDisjunction ? counts.reduce((sum, count) => sum + count, 0) : counts.reduce((product, count) => product * count, 1);
+}
+
+/**
+ * Check that a filter does not expand to too many alternative conditions when converted to FindOptionsWhere[]
+ * @param node Expression tree
+ * @param maxBranches Largest number of alternatives (the maxBranches filter limit)
+ * @throws BadRequestException when the filter expands to more alternatives
+ */
+export function assertFilterBranchLimit(
+  node: FilterNode | null | undefined,
+  maxBranches = DEFAULT_FILTER_LIMITS.maxBranches,
+): void {
+  if (node && countFilterBranches(node) > maxBranches) {
+    const message = `Expression expands to more than ${maxBranches} alternative conditions`;
+    throw new BadRequestException({
+      message: `Invalid filter expression: ${message}`,
+      error: 'Bad Request',
+      errors: [{ field: '$filter', message }],
+    });
   }
+}
 
-  return tokens.filter((token) => token.length > 0);
+/**
+ * SQL (PostgreSQL) for each filter function, given the SQL of its argument
+ */
+const FILTER_FUNCTION_SQL: Record<FilterFunction, (argument: string) => string> = {
+  [FilterFunction.TOLOWER]: (argument) => `LOWER(${argument})`,
+  [FilterFunction.TOUPPER]: (argument) => `UPPER(${argument})`,
+  [FilterFunction.TRIM]: (argument) => `TRIM(${argument})`,
+  [FilterFunction.LENGTH]: (argument) => `LENGTH(${argument})`,
+  [FilterFunction.YEAR]: (argument) => `EXTRACT(YEAR FROM ${argument})`,
+  [FilterFunction.MONTH]: (argument) => `EXTRACT(MONTH FROM ${argument})`,
+  [FilterFunction.DAY]: (argument) => `EXTRACT(DAY FROM ${argument})`,
+  [FilterFunction.HOUR]: (argument) => `EXTRACT(HOUR FROM ${argument})`,
+  [FilterFunction.MINUTE]: (argument) => `EXTRACT(MINUTE FROM ${argument})`,
+  [FilterFunction.SECOND]: (argument) => `FLOOR(EXTRACT(SECOND FROM ${argument}))`,
+  [FilterFunction.DATE]: (argument) => `CAST(${argument} AS DATE)`,
+  [FilterFunction.ROUND]: (argument) => `ROUND(${argument})`,
+  [FilterFunction.FLOOR]: (argument) => `FLOOR(${argument})`,
+  [FilterFunction.CEILING]: (argument) => `CEIL(${argument})`,
+};
+
+/**
+ * Wrap a column expression in the SQL of the given functions
+ * @param column Column expression
+ * @param functions Functions, innermost first
+ * @returns SQL expression
+ */
+export function applyFilterFunctions(column: string, functions: FilterFunction[] = []): string {
+  return functions.reduce((expression, name) => FILTER_FUNCTION_SQL[name](expression), column);
 }
 
 /**
- * Parse a value from token
- * @param token Token string
- * @returns Parsed value
+ * Operators compiled to LIKE patterns
  */
-function parseValue(token: string): string | number | boolean | string[] | null {
-  // Handle null
-  if (token === 'null') {
-    return null;
+const LIKE_OPERATORS: FilterOperator[] = [
+  FilterOperator.CONTAINS,
+  FilterOperator.ICONTAINS,
+  FilterOperator.STARTSWITH,
+  FilterOperator.ENDSWITH,
+];
+
+/**
+ * Escape the wildcards of a value (%, _ and the escape character \) so that a LIKE pattern matches it literally
+ * @param value Filter value
+ * @returns Escaped value, for patterns declaring ESCAPE '\'
+ */
+function escapeLikeValue(value: unknown): string {
+  return String(value).replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * Convert a single parsed filter to a TypeORM find operator
+ * Filters with functions and LIKE patterns (which need an ESCAPE clause) become Raw conditions on the property.
+ * @param filter Parsed filter
+ * @param nextParameter Generator of unique parameter names for Raw conditions
+ * @returns TypeORM find operator
+ */
+export function convertFilterToFindOperator(
+  filter: ParsedFilter,
+  nextParameter: () => string = createParameterGenerator('filter'),
+): FindOperator<unknown> {
+  const { operator, value, functions } = filter;
+
+  if ((functions && functions.length > 0) || LIKE_OPERATORS.includes(operator)) {
+    const parameter = nextParameter();
+    const condition = (column: string) =>
+      buildComparisonCondition(filter, applyFilterFunctions(column, functions), () => parameter);
+    return Raw((column) => condition(column).sql, condition('').parameters);
   }
 
-  // Handle quoted strings
-  if ((token.startsWith("'") && token.endsWith("'")) || (token.startsWith('"') && token.endsWith('"'))) {
-    return token.slice(1, -1).replace(/''/g, "'");
+  switch (operator) {
+    case FilterOperator.EQ:
+      return value === null ? IsNull() : Equal(value);
+
+    case FilterOperator.NE:
+      return value === null ? Not(IsNull()) : Not(Equal(value));
+
+    case FilterOperator.GT:
+      return MoreThan(value);
+
+    case FilterOperator.GE:
+      return MoreThanOrEqual(value);
+
+    case FilterOperator.LT:
+      return LessThan(value);
+
+    case FilterOperator.LE:
+      return LessThanOrEqual(value);
+
+    case FilterOperator.IN:
+      return In(Array.isArray(value) ? value : [value]);
+
+    case FilterOperator.NOT_IN:
+      return Not(In(Array.isArray(value) ? value : [value]));
+
+    case FilterOperator.IS_NULL:
+      return IsNull();
+
+    case FilterOperator.IS_NOT_NULL:
+      return Not(IsNull());
+
+    default:
+      // For unknown operators, use equality
+      return Equal(value);
   }
+}
+
+/**
+ * Convert parsed filters to TypeORM FindOptionsWhere (all filters are combined with AND)
+ * @param filters Array of parsed filters
+ * @returns TypeORM FindOptionsWhere object
+ */
+export function convertFiltersToFindOptionsWhere<T = any>(
+  filters: ParsedFilter[],
+): FindOptionsWhere<T> {
+  const operatorsByProp = new Map<string, FindOperator<unknown>[]>();
+  const nextParameter = createParameterGenerator('filter');
+
+  filters.forEach((filter) => {
+    const operators = operatorsByProp.get(filter.prop) ?? [];
+    operators.push(convertFilterToFindOperator(filter, nextParameter));
+    operatorsByProp.set(filter.prop, operators);
+  });
+
+  const where: any = {};
+  operatorsByProp.forEach((operators, prop) => {
+    where[prop] = operators.length === 1 ? operators[0] : And(...operators);
+  });
+
+  return where as FindOptionsWhere<T>;
+}
+
+/**
+ * A comparison or lambda that may have to be negated, as found in the leaves of a normalized tree
+ */
+interface FilterLiteral {
+  node: FilterComparisonNode | FilterLambdaNode;
+  negated: boolean;
+}
 
-  // Handle arrays (for 'in' operator)
-  if (token.startsWith('(') && token.endsWith(')')) {
-    const content = token.slice(1, -1);
-    return content.split(',').map((v) => parseValue(v.trim()) as string);
+/**
+ * Expand an expression tree to disjunctive normal form (an OR of AND-ed literals),
+ * pushing negations down to the comparisons using De Morgan's laws
+ * @param node Expression tree
+ * @param negated Whether the node is under an odd number of 'not'
+ * @returns Array of conjunctions
+ */
+function toDisjunctiveNormalForm(node: FilterNode, negated = false): FilterLiteral[][] {
+  switch (node.kind) {
+    case 'comparison':
+    case 'any':
+    case 'all':
+      return [[{ node, negated }]];
+
+    case 'not':
+      return toDisjunctiveNormalForm(node.operand, !negated);
   }
 
-  // Handle booleans
-  if (token === 'true') return true;
-  if (token === 'false') return false;
+  const branches = node.operands.map((operand) => toDisjunctiveNormalForm(operand, negated));
+  const isDisjunction = (node.kind === 'or') !== negated;
 
-  // Handle numbers
-  if (!isNaN(Number(token)) && token !== '') {
-    const num = Number(token);
-    if (isFinite(num)) {
-      return num;
-    }
+  if (isDisjunction) {
+    return branches.flat();
   }
 
-  return token;
+  return branches.reduce((product, branch) => product.flatMap((left) => branch.map((right) => [...left, ...right])));
 }
 
 /**
- * Parse OData filter expression to array of ParsedFilter
- * @param expression OData filter expression (e.g., "email eq 'test@test.com' and status eq active")
- * @returns Array of parsed filters
+ * Get the single primary column used to correlate lambda subqueries
+ * @param metadata Entity metadata
+ * @returns Primary column
  */
-function parseODataExpression(expression: string): ParsedFilter[] {
-  const tokens = tokenizeODataExpression(expression);
-  const filters: ParsedFilter[] = [];
-  let i = 0;
-
-  while (i < tokens.length) {
-    // Skip logical operators at the start
-    const lowerToken = tokens[i].toLowerCase();
-    if (lowerToken === 'and' || lowerToken === 'or') {
-      i++;
-      continue;
+function getLambdaPrimaryColumn(metadata: EntityMetadata) {
+  if (metadata.primaryColumns.length !== 1) {
+    throw new BadRequestException(
+      `Invalid filter expression: 'any' and 'all' require ${metadata.name} to have a single primary column`,
+    );
+  }
+  return metadata.primaryColumns[0];
+}
+
+/**
+ * Convert an expression tree to TypeORM FindOptionsWhere[] (entries are combined with OR)
+ * Lambdas are attached to the primary column as Raw EXISTS conditions, so they need the entity metadata.
+ * The number of entries is bounded by assertFilterBranchLimit, applied to filters parsed from requests.
+ * @param node Expression tree
+ * @param metadata Metadata of the filtered entity, required when the tree contains any/all
+ * @param parameterPrefix Prefix of the lambda parameter names (must be unique per query)
+ * @returns Array of TypeORM FindOptionsWhere objects, empty when there is no filter
+ */
+export function convertFilterTreeToFindOptionsWhere<T = ObjectLiteral>(
+  node: FilterNode | null,
+  metadata?: EntityMetadata,
+  parameterPrefix = 'filter',
+): FindOptionsWhere<T>[] {
+  if (!node) {
+    return [];
+  }
+
+  const nextParameter = createParameterGenerator(parameterPrefix);
+  const lambdaOperators = new Map<FilterLambdaNode, FindOperator<unknown>>();
+
+  const toFindOperator = (literal: FilterComparisonNode | FilterLambdaNode): [string, FindOperator<unknown>] => {
+    if (literal.kind === 'comparison') {
+      return [literal.prop, convertFilterToFindOperator(literal, nextParameter)];
+    }
+    if (!metadata) {
+      throw new Error("Entity metadata is required to convert 'any' and 'all' filters");
     }
 
-    // Parse filter: prop operator value
-    if (i + 2 < tokens.length) {
-      const prop = tokens[i];
-      const operator = tokens[i + 1].toLowerCase();
-      let valueToken = tokens[i + 2];
-
-      // Handle array values for 'in' operator
-      if (operator === FilterOperator.IN || operator === FilterOperator.NOT_IN) {
-        if (valueToken === '(' && i + 3 < tokens.length) {
-          // Collect array values
-          const arrayValues: string[] = [];
-          let j = i + 3;
-          while (j < tokens.length && tokens[j] !== ')') {
-            if (tokens[j] !== ',' && tokens[j] !== '(') {
-              arrayValues.push(tokens[j]);
-            }
-            j++;
-          }
-          valueToken = `(${arrayValues.join(', ')})`;
-          i = j + 1;
-        } else {
-          i += 3;
-        }
-      } else {
-        i += 3;
-      }
+    // DNF may repeat a lambda in several branches; build its subquery once
+    let findOperator = lambdaOperators.get(literal);
+    if (!findOperator) {
+      const { sql, parameters } = buildLambdaCondition(literal, metadata, nextParameter);
+      findOperator = Raw((column) => sql(column), parameters);
+      lambdaOperators.set(literal, findOperator);
+    }
+    return [getLambdaPrimaryColumn(metadata).propertyName, findOperator];
+  };
+
+  return toDisjunctiveNormalForm(node).map((conjunction) => {
+    const operatorsByProp = new Map<string, FindOperator<unknown>[]>();
+
+    conjunction.forEach(({ node: literal, negated }) => {
+      const [prop, findOperator] = toFindOperator(literal);
+      const operators = operatorsByProp.get(prop) ?? [];
+      operators.push(negated ? Not(findOperator) : findOperator);
+      operatorsByProp.set(prop, operators);
+    });
+
+    const where: Record<string, FindOperator<unknown>> = {};
+    operatorsByProp.forEach((operators, prop) => {
+      where[prop] = operators.length === 1 ? operators[0] : And(...operators);
+    });
 
-      // Validate operator
-      if (Object.values(FilterOperator).includes(operator as FilterOperator)) {
-        const parsedValue = parseValue(valueToken);
-        filters.push({
-          prop,
-          operator: operator as FilterOperator,
-          value: parsedValue,
-        });
+    return where as FindOptionsWhere<T>;
+  });
+}
+
+/**
+ * Build the SQL condition for a single comparison
+ * @param filter Parsed filter
+ * @param column SQL expression of the compared value (functions already applied)
+ * @param nextParameter Generator of unique parameter names
+ * @returns SQL condition and its parameters
+ */
+function buildComparisonCondition(
+  filter: ParsedFilter,
+  column: string,
+  nextParameter: () => string,
+): { sql: string; parameters: Record<string, unknown> } {
+  const { operator, value } = filter;
+  const param = nextParameter();
+
+  switch (operator) {
+    case FilterOperator.EQ:
+      return value === null
+        ? { sql: `${column} IS NULL`, parameters: {} }
+        : { sql: `${column} = :${param}`, parameters: { [param]: value } };
+
+    case FilterOperator.NE:
+      return value === null
+        ? { sql: `${column} IS NOT NULL`, parameters: {} }
+        : { sql: `${column} != :${param}`, parameters: { [param]: value } };
+
+    case FilterOperator.GT:
+      return { sql: `${column} > :${param}`, parameters: { [param]: value } };
+
+    case FilterOperator.GE:
+      return { sql: `${column} >= :${param}`, parameters: { [param]: value } };
+
+    case FilterOperator.LT:
+      return { sql: `${column} < :${param}`, parameters: { [param]: value } };
+
+    case FilterOperator.LE:
+      return { sql: `${column} <= :${param}`, parameters: { [param]: value } };
+
+    case FilterOperator.CONTAINS:
+      return { sql: `${column} LIKE :${param} ESCAPE '\\'`, parameters: { [param]: `%${escapeLikeValue(value)}%` } };
+
+    case FilterOperator.ICONTAINS:
+      return { sql: `${column} ILIKE :${param} ESCAPE '\\'`, parameters: { [param]: `%${escapeLikeValue(value)}%` } };
+
+    case FilterOperator.STARTSWITH:
+      return { sql: `${column} LIKE :${param} ESCAPE '\\'`, parameters: { [param]: `${escapeLikeValue(value)}%` } };
+
+    case FilterOperator.ENDSWITH:
+      return { sql: `${column} LIKE :${param} ESCAPE '\\'`, parameters: { [param]: `%${escapeLikeValue(value)}` } };
+
+    case FilterOperator.IN:
+    case FilterOperator.NOT_IN: {
+      const values = Array.isArray(value) ? value : [value];
+      if (values.length === 0) {
+        return { sql: operator === FilterOperator.IN ? '1 = 0' : '1 = 1', parameters: {} };
       }
-    } else {
-      i++;
+      const keyword = operator === FilterOperator.IN ? 'IN' : 'NOT IN';
+      return { sql: `${column} ${keyword} (:...${param})`, parameters: { [param]: values } };
     }
+
+    case FilterOperator.IS_NULL:
+      return { sql: `${column} IS NULL`, parameters: {} };
+
+    case FilterOperator.IS_NOT_NULL:
+      return { sql: `${column} IS NOT NULL`, parameters: {} };
+
+    default:
+      return { sql: `${column} = :${param}`, parameters: { [param]: value } };
+  }
+}
+
+/**
+ * Build the EXISTS subquery of an any/all lambda.
+ * any: EXISTS (item matching the predicate); all: NOT EXISTS (item not matching the predicate).
+ * @param node Lambda node
+ * @param metadata Metadata of the entity owning the collection
+ * @param nextParameter Generator of unique parameter and alias names
+ * @returns SQL condition for a given outer primary column expression, and its parameters
+ */
+function buildLambdaCondition(
+  node: FilterLambdaNode,
+  metadata: EntityMetadata,
+  nextParameter: () => string,
+): { sql: (outerColumn: string) => string; parameters: Record<string, unknown> } {
+  const relation = metadata.findRelationWithPropertyPath(node.prop);
+  if (!relation || !(relation.isOneToMany || relation.isManyToMany)) {
+    throw new BadRequestException(
+      `Invalid filter expression: '${node.prop}' is not a collection of ${metadata.name}`,
+    );
   }
 
-  return filters;
+  const primaryColumn = getLambdaPrimaryColumn(metadata);
+  const parentAlias = nextParameter();
+  const itemAlias = nextParameter();
+
+  // Joining through the owner entity lets TypeORM resolve one-to-many and many-to-many relations alike
+  const subQuery = metadata.connection
+    .createQueryBuilder()
+    .select('1')
+    .from(metadata.target, parentAlias)
+    .innerJoin(`${parentAlias}.${relation.propertyPath}`, itemAlias);
+
+  if (node.predicate) {
+    const predicate = node.predicate;
+    const itemMetadata = relation.inverseEntityMetadata;
+    const applyPredicate = (qb: WhereExpressionBuilder) =>
+      applyFilterNode(qb, predicate, itemAlias, nextParameter, itemMetadata);
+    subQuery.andWhere(node.kind === 'any' ? new Brackets(applyPredicate) : new NotBrackets(applyPredicate));
+  }
+
+  const correlation = `${parentAlias}.${primaryColumn.propertyPath}`;
+  const keyword = node.kind === 'any' ? 'EXISTS' : 'NOT EXISTS';
+  return {
+    sql: (outerColumn) =>
+      `${keyword} (${subQuery.clone().andWhere(`${correlation} = ${outerColumn}`).getQuery()})`,
+    parameters: subQuery.getParameters(),
+  };
 }
 
 /**
- * Parse query parameters in OData standard format (filter=email eq test@test.com)
- * @param query Query parameters object
- * @returns Array of parsed filters
+ * Apply an expression tree to a where expression builder
+ * @param qb Where expression builder
+ * @param node Expression tree
+ * @param alias Query builder alias of the filtered entity
+ * @param nextParameter Generator of unique parameter names
+ * @param metadata Metadata of the filtered entity, required for any/all
  */
-export function parseFilterQueryParams(query: Record<string, any>): ParsedFilter[] {
-  const filterExpression = query['filter'];
+function applyFilterNode(
+  qb: WhereExpressionBuilder,
+  node: FilterNode,
+  alias: string,
+  nextParameter: () => string,
+  metadata?: EntityMetadata,
+): void {
+  switch (node.kind) {
+    case 'comparison':
+    case 'any':
+    case 'all': {
+      const { sql, parameters } = buildFilterCondition(node, alias, nextParameter, metadata);
+      qb.where(sql, parameters);
+      return;
+    }
 
-  if (!filterExpression || typeof filterExpression !== 'string') {
-    return [];
+    case 'not':
+      qb.where(new NotBrackets((inner) => applyFilterNode(inner, node.operand, alias, nextParameter, metadata)));
+      return;
   }
 
-  // Split by logical operators (and/or) while preserving them
-  const parts: string[] = [];
-  let current = '';
-  let i = 0;
-
-  while (i < filterExpression.length) {
-    const remaining = filterExpression.slice(i);
-    const andMatch = remaining.match(/^\s+and\s+/i);
-    const orMatch = remaining.match(/^\s+or\s+/i);
-
-    if (andMatch) {
-      if (current.trim()) {
-        parts.push(current.trim());
-        parts.push('AND');
-        current = '';
-      }
-      i += andMatch[0].length;
-    } else if (orMatch) {
-      if (current.trim()) {
-        parts.push(current.trim());
-        parts.push('OR');
-        current = '';
-      }
-      i += orMatch[0].length;
+  node.operands.forEach((operand, index) => {
+    const brackets = new Brackets((inner) => applyFilterNode(inner, operand, alias, nextParameter, metadata));
+    if (index === 0) {
+      qb.where(brackets);
+    } else if (node.kind === 'and') {
+      qb.andWhere(brackets);
     } else {
-      current += filterExpression[i];
-      i++;
+      qb.orWhere(brackets);
     }
-  }
+  });
+}
 
-  if (current.trim()) {
-    parts.push(current.trim());
-  }
+/**
+ * Build the SQL condition of an expression tree
+ * @param node Expression tree
+ * @param alias Query builder alias of the filtered entity
+ * @param nextParameter Generator of unique parameter names
+ * @param metadata Metadata of the filtered entity, required for any/all
+ * @returns SQL condition and its parameters
+ */
+function buildFilterCondition(
+  node: FilterNode,
+  alias: string,
+  nextParameter: () => string,
+  metadata?: EntityMetadata,
+): { sql: string; parameters: Record<string, unknown> } {
+  switch (node.kind) {
+    case 'comparison':
+      return buildComparisonCondition(node, applyFilterFunctions(`${alias}.${node.prop}`, node.functions), nextParameter);
+
+    case 'any':
+    case 'all': {
+      if (!metadata) {
+        throw new Error("Entity metadata is required to convert 'any' and 'all' filters");
+      }
+      const { sql, parameters } = buildLambdaCondition(node, metadata, nextParameter);
+      const primaryColumn = getLambdaPrimaryColumn(metadata);
+      const escape = (name: string) => metadata.connection.driver.escape(name);
+      return { sql: sql(`${escape(alias)}.${escape(primaryColumn.databaseName)}`), parameters };
+    }
 
-  // For now, we'll combine all filters with AND logic
-  // TODO: Support OR logic in the future
-  const allFilters: ParsedFilter[] = [];
-  for (const part of parts) {
-    if (part !== 'AND' && part !== 'OR') {
-      const filters = parseODataExpression(part);
-      allFilters.push(...filters);
+    case 'not': {
+      const { sql, parameters } = buildFilterCondition(node.operand, alias, nextParameter, metadata);
+      return { sql: `NOT (${sql})`, parameters };
     }
   }
 
-  return allFilters;
+  const operands = node.operands.map((operand) => buildFilterCondition(operand, alias, nextParameter, metadata));
+  return {
+    sql: operands.map(({ sql }) => `(${sql})`).join(node.kind === 'and' ? ' AND ' : ' OR '),
+    parameters: Object.assign({}, ...operands.map(({ parameters }) => parameters)),
+  };
 }
 
 /**
- * Convert parsed filters to TypeORM FindOptionsWhere
- * @param filters Array of parsed filters
- * @returns TypeORM FindOptionsWhere object
+ * Create a generator of unique parameter names
+ * @param parameterPrefix Prefix of the generated names
+ * @returns Generator returning prefix_0, prefix_1, ...
  */
-export function convertFiltersToFindOptionsWhere<T = any>(
-  filters: ParsedFilter[],
-): FindOptionsWhere<T> {
-  const where: any = {};
+function createParameterGenerator(parameterPrefix: string): () => string {
+  let parameterIndex = 0;
+  return () => `${parameterPrefix}_${parameterIndex++}`;
+}
 
-  filters.forEach((filter) => {
-    const { prop, operator, value } = filter;
-
-    switch (operator) {
-      case FilterOperator.EQ:
-        if (value === null) {
-          where[prop] = IsNull();
-        } else {
-          where[prop] = Equal(value);
-        }
-        break;
-
-      case FilterOperator.NE:
-        if (value === null) {
-          where[prop] = Not(IsNull());
-        } else {
-          where[prop] = Not(Equal(value));
-        }
-        break;
-
-      case FilterOperator.GT:
-        where[prop] = MoreThan(value);
-        break;
-
-      case FilterOperator.GE:
-        where[prop] = MoreThanOrEqual(value);
-        break;
-
-      case FilterOperator.LT:
-        where[prop] = LessThan(value);
-        break;
-
-      case FilterOperator.LE:
-        where[prop] = LessThanOrEqual(value);
-        break;
-
-      case FilterOperator.CONTAINS:
-        where[prop] = Like(`%${value}%`);
-        break;
-
-      case FilterOperator.STARTSWITH:
-        where[prop] = Like(`${value}%`);
-        break;
-
-      case FilterOperator.ENDSWITH:
-        where[prop] = Like(`%${value}`);
-        break;
-
-      case FilterOperator.IN:
-        if (Array.isArray(value) && value.length > 0) {
-          where[prop] = In(value);
-        }
-        break;
-
-      case FilterOperator.NOT_IN:
-        if (Array.isArray(value) && value.length > 0) {
-          where[prop] = Not(In(value));
-        }
-        break;
-
-      case FilterOperator.IS_NULL:
-        where[prop] = IsNull();
-        break;
-
-      case FilterOperator.IS_NOT_NULL:
-        where[prop] = Not(IsNull());
-        break;
-
-      default:
-        // For unknown operators, use equality
-        where[prop] = Equal(value);
-    }
-  });
+/**
+ * Convert an expression tree to TypeORM Brackets for use with the query builder
+ * @param node Expression tree
+ * @param alias Query builder alias of the filtered entity
+ * @param parameterPrefix Prefix of the generated parameter names (must be unique per query)
+ * @param metadata Metadata of the filtered entity, required when the tree contains any/all
+ * @returns Brackets to pass to where/andWhere/orWhere
+ */
+export function convertFilterTreeToBrackets(
+  node: FilterNode,
+  alias: string,
+  parameterPrefix = 'filter',
+  metadata?: EntityMetadata,
+): Brackets {
+  const nextParameter = createParameterGenerator(parameterPrefix);
+  return new Brackets((qb) => applyFilterNode(qb, node, alias, nextParameter, metadata));
+}
 
-  return where as FindOptionsWhere<T>;
+/**
+ * Convert an expression tree to a SQL condition, for query builder methods taking conditions as strings
+ * (e.g., the join conditions of leftJoinAndSelect)
+ * @param node Expression tree
+ * @param alias Query builder alias of the filtered entity
+ * @param parameterPrefix Prefix of the generated parameter names (must be unique per query)
+ * @param metadata Metadata of the filtered entity, required when the tree contains any/all
+ * @returns SQL condition and its parameters
+ */
+export function convertFilterTreeToSql(
+  node: FilterNode,
+  alias: string,
+  parameterPrefix = 'filter',
+  metadata?: EntityMetadata,
+): { sql: string; parameters: Record<string, unknown> } {
+  return buildFilterCondition(node, alias, createParameterGenerator(parameterPrefix), metadata);
 }
 
 /**
- * Parse query parameters and convert directly to TypeORM FindOptionsWhere
- * @param query Query parameters object
- * @returns TypeORM FindOptionsWhere object
+ * Add a condition on a property to where conditions (to every alternative of a disjunction),
+ * next to any condition already on the property
+ * @param where Where conditions (e.g., from the filter)
+ * @param prop Property of the condition
+ * @param condition Find operator the property must also satisfy
+ * @returns Where conditions that also require the condition
  */
-export function parseFiltersFromQuery<T = any>(
-  query: Record<string, any>,
-): FindOptionsWhere<T> {
-  const filters = parseFilterQueryParams(query);
-  return convertFiltersToFindOptionsWhere<T>(filters);
+export function addConditionToWhere<T>(
+  where: FindOptionsWhere<T> | FindOptionsWhere<T>[] | undefined,
+  prop: string,
+  condition: FindOperator<unknown>,
+): FindOptionsWhere<T>[] {
+  const alternatives = Array.isArray(where) ? where : where ? [where] : [];
+  return (alternatives.length > 0 ? alternatives : [{}]).map((alternative) => {
+    const existing = (alternative as Record<string, unknown>)[prop];
+    const operator =
+      existing === undefined
+        ? condition
+        : And(existing instanceof FindOperator ? existing : Equal(existing), condition);
+    return { ...alternative, [prop]: operator } as FindOptionsWhere<T>;
+  });
+}
+
+/**
+ * Restrict where conditions to alternative conditions (e.g., the entities an authorization policy grants):
+ * every alternative of the where conditions is combined with every restriction
+ * @param where Where conditions (e.g., from the filter)
+ * @param restriction Alternative conditions (combined with OR), at least one of which must also hold
+ * @returns Where conditions that also satisfy the restriction
+ */
+export function restrictWhere<T>(
+  where: FindOptionsWhere<T> | FindOptionsWhere<T>[] | undefined,
+  restriction: FindOptionsWhere<T>[],
+): FindOptionsWhere<T>[] {
+  return restriction.flatMap((conditions) =>
+    Object.entries(conditions).reduce<FindOptionsWhere<T> | FindOptionsWhere<T>[] | undefined>(
+      (restricted, [prop, condition]) =>
+        addConditionToWhere(restricted, prop, condition instanceof FindOperator ? condition : Equal(condition)),
+      where,
+    ) as FindOptionsWhere<T>[],
+  );
 }
@@ -0,0 +1,234 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  Column,
+  DataSource,
+  Entity,
+  Equal,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { buildODataQueryParams } from '@libs/shared';
+import {
+  applyExpandToQueryBuilder,
+  buildNextLink,
+  convertQueryOptionsToFindManyOptions,
+  parseQueryOptionsFromQuery,
+} from './odata-query-backend';
+
+@Entity('customers')
+class Customer {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column()
+  isActive!: boolean;
+
+  @OneToMany(() => Order, (order) => order.customer)
+  orders!: Order[];
+}
+
+@Entity('orders')
+class Order {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column()
+  total!: number;
+
+  @Column()
+  createdAt!: Date;
+
+  @ManyToOne(() => Customer, (customer) => customer.orders)
+  customer!: Customer;
+
+  @OneToMany(() => OrderItem, (item) => item.order)
+  items!: OrderItem[];
+}
+
+@Entity('order_items')
+class OrderItem {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @ManyToOne(() => Order, (order) => order.items)
+  order!: Order;
+}
+
+describe('odata-query-backend', () => {
+  describe('parseQueryOptionsFromQuery', () => {
+    it('should parse all options and accept the "$" prefix', () => {
+      const options = parseQueryOptionsFromQuery({
+        $filter: 'isActive eq true',
+        $orderby: 'lastName, createdAt desc',
+        $select: 'email,firstName',
+        $top: '5',
+        $skip: '10',
+        $count: 'true',
+      });
+
+      expect(options).toMatchObject({
+        orderBy: [
+          { prop: 'lastName', direction: 'asc' },
+          { prop: 'createdAt', direction: 'desc' },
+        ],
+        select: ['email', 'firstName'],
+        top: 5,
+        skip: 10,
+        count: true,
+      });
+    });
+
+    it('should apply the default and maximum page size', () => {
+      expect(parseQueryOptionsFromQuery({})).toEqual({ top: 10, skip: 0 });
+      expect(parseQueryOptionsFromQuery({ top: '1000' }, { maxTop: 50 }).top).toBe(50);
+    });
+
+    it('should parse nested $expand options and enforce the maximum depth', () => {
+      const options = parseQueryOptionsFromQuery({
+        $expand: "orders($filter=note eq 'a;b' or total gt 10;$orderby=createdAt desc;$expand=items),profile",
+      });
+
+      expect(options.expand).toEqual([
+        expect.objectContaining({
+          prop: 'orders',
+          orderBy: [{ prop: 'createdAt', direction: 'desc' }],
+          expand: [{ prop: 'items' }],
+        }),
+        { prop: 'profile' },
+      ]);
+      expect(() => parseQueryOptionsFromQuery({ $expand: 'a($expand=b($expand=c))' })).toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should parse $apply pipelines and print them back', () => {
+      const $apply =
+        'filter(isActive eq true)/compute(month(createdAt) as month)/groupby((month),aggregate($count as total))';
+      const options = parseQueryOptionsFromQuery({ $apply });
+
+      expect(options.apply).toEqual([
+        { kind: 'filter', filter: expect.objectContaining({ prop: 'isActive', value: true }) },
+        { kind: 'compute', compute: [{ prop: 'createdAt', functions: ['month'], alias: 'month' }] },
+        { kind: 'groupby', groupBy: ['month'], aggregate: [{ method: 'count', alias: 'total' }] },
+      ]);
+      expect(buildODataQueryParams(options)['$apply']).toBe($apply);
+      expect(() => parseQueryOptionsFromQuery({ $apply: 'aggregate($count as total)/filter(a eq 1)' })).toThrow(
+        BadRequestException,
+      );
+      expect(() => parseQueryOptionsFromQuery({ $apply: 'groupby((a),aggregate(b with median as m))' })).toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should parse $search and $highlight', () => {
+      expect(parseQueryOptionsFromQuery({ $search: ' "big cats" -lions ', $highlight: 'true' })).toMatchObject({
+        search: '"big cats" -lions',
+        highlight: true,
+      });
+      expect(() => parseQueryOptionsFromQuery({ $highlight: 'true' })).toThrow(BadRequestException);
+      expect(() => parseQueryOptionsFromQuery({ $search: 'x'.repeat(501) })).toThrow(BadRequestException);
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => parseQueryOptionsFromQuery({ $top: '-1' })).toThrow(BadRequestException);
+      expect(() => parseQueryOptionsFromQuery({ $skip: '99999999999999999999' })).toThrow(BadRequestException);
+      expect(parseQueryOptionsFromQuery({ $skip: String(Number.MAX_SAFE_INTEGER) }).skip).toBe(Number.MAX_SAFE_INTEGER);
+      expect(() => parseQueryOptionsFromQuery({ $orderby: 'email sideways' })).toThrow(BadRequestException);
+      expect(() => parseQueryOptionsFromQuery({ $count: 'yes' })).toThrow(BadRequestException);
+    });
+
+    it('should report nested filter errors relative to the $expand option', () => {
+      expect.assertions(1);
+      try {
+        parseQueryOptionsFromQuery({ $expand: 'profile,orders($filter=total gt)' });
+      } catch (error) {
+        expect((error as BadRequestException).getResponse()).toMatchObject({
+          errors: [{ field: '$expand', position: 31 }],
+        });
+      }
+    });
+  });
+
+  describe('convertQueryOptionsToFindManyOptions', () => {
+    it('should map options to find options', () => {
+      const options = parseQueryOptionsFromQuery({
+        $filter: 'isActive eq true',
+        $orderby: 'createdAt desc',
+        $select: 'email',
+        $top: '5',
+        $skip: '10',
+      });
+
+      expect(convertQueryOptionsToFindManyOptions(options)).toEqual({
+        where: { isActive: Equal(true) },
+        order: { createdAt: 'DESC' },
+        select: { id: true, email: true },
+        skip: 10,
+        take: 5,
+      });
+    });
+
+    it('should leave $expand out of the find options', () => {
+      const options = parseQueryOptionsFromQuery({
+        $filter: 'isActive eq true',
+        $expand: 'orders($filter=total gt 10;$orderby=createdAt desc;$expand=items)',
+      });
+
+      expect(convertQueryOptionsToFindManyOptions(options)).toEqual({
+        where: { isActive: Equal(true) },
+        skip: 0,
+        take: 10,
+      });
+    });
+  });
+
+  describe('applyExpandToQueryBuilder', () => {
+    // Metadata is built without connecting to a database
+    const dataSource = new DataSource({ type: 'postgres', entities: [Customer, Order, OrderItem] });
+
+    beforeAll(async () => {
+      await (dataSource as unknown as { buildMetadatas(): Promise<void> }).buildMetadatas();
+    });
+
+    it('should join expanded relations with nested filters as join conditions', () => {
+      const options = parseQueryOptionsFromQuery({
+        $filter: 'isActive eq true',
+        $expand: 'orders($filter=total gt 10;$orderby=createdAt desc;$expand=items)',
+      });
+      const metadata = dataSource.getMetadata(Customer);
+      const queryBuilder = dataSource
+        .getRepository(Customer)
+        .createQueryBuilder('Customer')
+        .setFindOptions({ where: convertQueryOptionsToFindManyOptions(options, metadata).where });
+
+      const [sql, parameters] = applyExpandToQueryBuilder(queryBuilder, options.expand).getQueryAndParameters();
+
+      expect(sql).toContain(
+        'LEFT JOIN "orders" "Customer_orders" ON "Customer_orders"."customerId"="Customer"."id" ' +
+          'AND ("Customer_orders"."total" > $1)',
+      );
+      expect(sql).toContain(
+        'LEFT JOIN "order_items" "Customer_orders_items" ON "Customer_orders_items"."orderId"="Customer_orders"."id"',
+      );
+      expect(sql).toMatch(/WHERE \(\("Customer"."isActive" = \$2\)\) ORDER BY "Customer_orders"."createdAt" DESC$/);
+      expect(parameters).toEqual([10, true]);
+    });
+
+    it('should reject properties that are not relations', () => {
+      const queryBuilder = dataSource.getRepository(Customer).createQueryBuilder('Customer');
+
+      expect(() => applyExpandToQueryBuilder(queryBuilder, [{ prop: 'isActive' }])).toThrow(BadRequestException);
+    });
+  });
+
+  describe('buildNextLink', () => {
+    it('should link to the next page only when more items may exist', () => {
+      const options = { top: 2, skip: 0, count: true };
+
+      expect(buildNextLink('/api/users', options, 2, 5)).toBe('/api/users?$top=2&$skip=2&$count=true');
+      expect(buildNextLink('/api/users', { ...options, skip: 4 }, 1, 5)).toBeUndefined();
+      expect(buildNextLink('/api/users', { ...options, skip: 3 }, 2, 5)).toBeUndefined();
+    });
+  });
+});
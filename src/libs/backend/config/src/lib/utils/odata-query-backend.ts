@@ -0,0 +1,242 @@
+/**
+ * OData Query Options Backend Utilities
+ * Parse $filter, $orderby, $select, $expand, $top, $skip and $count and convert to TypeORM FindManyOptions and joins
+ */
+
+import {
+  EntityMetadata,
+  FindManyOptions,
+  FindOptionsOrder,
+  FindOptionsSelect,
+  ObjectLiteral,
+  SelectQueryBuilder,
+} from 'typeorm';
+import { BadRequestException } from '@nestjs/common';
+import {
+  ExpandItem,
+  FilterLimits,
+  FilterSyntaxError,
+  ODataQueryOptions,
+  OrderByItem,
+  QueryOptionError,
+  buildODataQueryString,
+  getExpandDepth,
+  parseODataQueryOptions,
+} from '@libs/shared';
+import {
+  DEFAULT_FILTER_LIMITS,
+  assertFilterBranchLimit,
+  convertFilterTreeToFindOptionsWhere,
+  convertFilterTreeToSql,
+  createFilterSyntaxException,
+} from './odata-filter-backend';
+
+/**
+ * Page size used when $top is not specified
+ */
+export const DEFAULT_PAGE_SIZE = 10;
+
+/**
+ * Largest page size a client may request with $top
+ */
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Deepest $expand nesting a client may request
+ */
+export const MAX_EXPAND_DEPTH = 2;
+
+/**
+ * Paging, expansion and filter limits applied when parsing query options
+ */
+export interface QueryOptionsLimits {
+  defaultTop?: number;
+  maxTop?: number;
+  maxExpandDepth?: number;
+  filter?: FilterLimits;
+}
+
+/**
+ * Parse OData query options from query parameters, applying paging limits
+ * @param query Query parameters object
+ * @param limits Paging, expansion and filter limits
+ * @returns Parsed query options with top and skip always set
+ * @throws BadRequestException when an option is malformed or exceeds a limit
+ */
+export function parseQueryOptionsFromQuery(
+  query: Record<string, unknown>,
+  limits: QueryOptionsLimits = {},
+): ODataQueryOptions {
+  const {
+    defaultTop = DEFAULT_PAGE_SIZE,
+    maxTop = MAX_PAGE_SIZE,
+    maxExpandDepth = MAX_EXPAND_DEPTH,
+    filter: filterLimits = DEFAULT_FILTER_LIMITS,
+  } = limits;
+  let options: ODataQueryOptions;
+
+  try {
+    options = parseODataQueryOptions(query, filterLimits);
+  } catch (error) {
+    if (error instanceof FilterSyntaxError) {
+      throw createFilterSyntaxException(error);
+    }
+    if (error instanceof QueryOptionError) {
+      throw new BadRequestException({
+        message: error.message,
+        error: 'Bad Request',
+        errors: [{ field: `$${error.option}`, message: error.message }],
+      });
+    }
+    throw error;
+  }
+
+  assertFilterBranchLimit(options.filter, filterLimits.maxBranches);
+
+  if (getExpandDepth(options.expand) > maxExpandDepth) {
+    throw new BadRequestException(`$expand cannot be nested more than ${maxExpandDepth} levels deep`);
+  }
+
+  return {
+    ...options,
+    top: Math.min(options.top ?? defaultTop, maxTop),
+    skip: options.skip ?? 0,
+  };
+}
+
+/**
+ * Convert $orderby items to a TypeORM order object
+ * @param orderBy Order by items
+ * @returns Order object keyed by property
+ */
+function convertOrderBy(orderBy: OrderByItem[] | undefined): Record<string, 'ASC' | 'DESC'> {
+  const order: Record<string, 'ASC' | 'DESC'> = {};
+  orderBy?.forEach(({ prop, direction }) => {
+    order[prop] = direction === 'desc' ? 'DESC' : 'ASC';
+  });
+  return order;
+}
+
+/**
+ * Convert OData query options to TypeORM FindManyOptions.
+ * $expand is not converted: relations are joined with applyExpandToQueryBuilder.
+ * @param options Parsed query options
+ * @param metadata Entity metadata, required when filters contain any/all
+ * @returns TypeORM FindManyOptions
+ */
+export function convertQueryOptionsToFindManyOptions<T = ObjectLiteral>(
+  options: ODataQueryOptions,
+  metadata?: EntityMetadata,
+): FindManyOptions<T> {
+  const findOptions: FindManyOptions<T> = {};
+
+  const where = convertFilterTreeToFindOptionsWhere<T>(options.filter ?? null, metadata);
+  if (where.length > 0) {
+    findOptions.where = where.length === 1 ? where[0] : where;
+  }
+
+  const order = convertOrderBy(options.orderBy);
+  if (Object.keys(order).length > 0) {
+    findOptions.order = order as FindOptionsOrder<T>;
+  }
+
+  if (options.select && options.select.length > 0) {
+    const select: Record<string, boolean> = { id: true };
+    // The version is the entity tag of the response
+    if (metadata?.versionColumn) {
+      select[metadata.versionColumn.propertyName] = true;
+    }
+    options.select.forEach((prop) => {
+      select[prop] = true;
+    });
+    findOptions.select = select as FindOptionsSelect<T>;
+  }
+
+  if (options.skip !== undefined) {
+    findOptions.skip = options.skip;
+  }
+
+  if (options.top !== undefined) {
+    findOptions.take = options.top;
+  }
+
+  return findOptions;
+}
+
+/**
+ * Join and select the relations of $expand items, recursively
+ * @param queryBuilder Query builder
+ * @param expand Expand items
+ * @param parentAlias Alias of the expanding entity
+ * @param metadata Metadata of the expanding entity
+ */
+function joinExpandItems<T extends ObjectLiteral>(
+  queryBuilder: SelectQueryBuilder<T>,
+  expand: ExpandItem[],
+  parentAlias: string,
+  metadata: EntityMetadata,
+): void {
+  expand.forEach((item) => {
+    const relation = metadata.findRelationWithPropertyPath(item.prop);
+    if (!relation) {
+      throw new BadRequestException(`Cannot expand '${item.prop}': not a relation of ${metadata.name}`);
+    }
+    const alias = `${parentAlias}_${item.prop}`;
+    const relatedMetadata = relation.inverseEntityMetadata;
+    const condition = item.filter ? convertFilterTreeToSql(item.filter, alias, alias, relatedMetadata) : undefined;
+
+    queryBuilder.leftJoinAndSelect(`${parentAlias}.${item.prop}`, alias, condition?.sql, condition?.parameters);
+    item.orderBy?.forEach(({ prop, direction }) => {
+      queryBuilder.addOrderBy(`${alias}.${prop}`, direction === 'desc' ? 'DESC' : 'ASC');
+    });
+    joinExpandItems(queryBuilder, item.expand ?? [], alias, relatedMetadata);
+  });
+}
+
+/**
+ * Load the relations requested with $expand. Nested $filter options are conditions of the joins,
+ * so they select the related rows only: parents without a matching related row are still returned
+ * (with an empty collection, or null). Nested $orderby options sort the related rows after the
+ * order of the query.
+ * @param queryBuilder Query builder of the expanding entity (its main alias)
+ * @param expand Expand items
+ * @returns The query builder
+ */
+export function applyExpandToQueryBuilder<T extends ObjectLiteral>(
+  queryBuilder: SelectQueryBuilder<T>,
+  expand: ExpandItem[] | undefined,
+): SelectQueryBuilder<T> {
+  const mainAlias = queryBuilder.expressionMap.mainAlias;
+  if (expand?.length && mainAlias) {
+    joinExpandItems(queryBuilder, expand, mainAlias.name, mainAlias.metadata);
+  }
+  return queryBuilder;
+}
+
+/**
+ * Build the link to the next page of a list response
+ * @param path Request path (without query string)
+ * @param options Query options of the current page
+ * @param itemCount Number of items returned for the current page
+ * @param totalCount Total number of matching items, when known
+ * @returns Next page link, or undefined on the last page
+ */
+export function buildNextLink(
+  path: string,
+  options: ODataQueryOptions,
+  itemCount: number,
+  totalCount?: number,
+): string | undefined {
+  const skip = options.skip ?? 0;
+  const top = options.top;
+
+  if (top === undefined || top === 0 || itemCount < top) {
+    return undefined;
+  }
+
+  if (totalCount !== undefined && skip + itemCount >= totalCount) {
+    return undefined;
+  }
+
+  return `${path}?${buildODataQueryString({ ...options, skip: skip + itemCount })}`;
+}
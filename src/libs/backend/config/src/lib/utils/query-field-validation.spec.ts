@@ -0,0 +1,94 @@
+import { BadRequestException } from '@nestjs/common';
+import { EntityMetadata } from 'typeorm';
+import { FilterFunction, FilterOperator, parseApply, parseFilterExpression } from '@libs/shared';
+import { User } from '../users/entities/user.entity';
+import { validateApplyOptions, validateFilterTree, validateQueryOptions } from './query-field-validation';
+
+const COLUMN_TYPES: Record<string, unknown> = {
+  id: 'uuid',
+  firstName: String,
+  lastName: String,
+  email: String,
+  bio: 'text',
+  isActive: Boolean,
+  createdAt: 'timestamp',
+  updatedAt: 'timestamp',
+};
+
+const metadata = {
+  name: 'User',
+  target: User,
+  findColumnWithPropertyName: (prop: string) =>
+    prop in COLUMN_TYPES ? { propertyName: prop, type: COLUMN_TYPES[prop], isSelect: true } : undefined,
+  findRelationWithPropertyPath: () => undefined,
+} as unknown as EntityMetadata;
+
+describe('query-field-validation', () => {
+  it('should coerce filter values to column types', () => {
+    const node = validateFilterTree(
+      parseFilterExpression("isActive eq 'true' and createdAt ge '2024-01-01' and firstName eq 42")!,
+      metadata,
+    );
+
+    expect(node).toEqual({
+      kind: 'and',
+      operands: [
+        { kind: 'comparison', prop: 'isActive', operator: FilterOperator.EQ, value: true },
+        { kind: 'comparison', prop: 'createdAt', operator: FilterOperator.GE, value: new Date('2024-01-01') },
+        { kind: 'comparison', prop: 'firstName', operator: FilterOperator.EQ, value: '42' },
+      ],
+    });
+  });
+
+  it('should check function arguments and coerce values to the function result type', () => {
+    expect(validateFilterTree(parseFilterExpression("year(createdAt) eq '2026'")!, metadata)).toMatchObject({
+      value: 2026,
+      functions: [FilterFunction.YEAR],
+    });
+    expect(() => validateFilterTree(parseFilterExpression('year(email) eq 2026')!, metadata)).toThrow(
+      "Function 'year' cannot be applied to 'email'",
+    );
+    expect(() => validateFilterTree(parseFilterExpression("length(email) icontains 'a'")!, metadata)).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should reject fields that are not whitelisted', () => {
+    expect(() => validateFilterTree(parseFilterExpression("bio eq 'x'")!, metadata)).toThrow(
+      BadRequestException,
+    );
+    expect(() => validateQueryOptions({ orderBy: [{ prop: 'bio', direction: 'asc' }] }, metadata)).toThrow(
+      BadRequestException,
+    );
+    expect(() => validateQueryOptions({ select: ['password'] }, metadata)).toThrow(BadRequestException);
+  });
+
+  it('should reject disallowed operators and invalid values', () => {
+    expect(() => validateFilterTree(parseFilterExpression("id contains 'a'")!, metadata)).toThrow(
+      "Operator 'contains' is not allowed on 'id'",
+    );
+    expect(() => validateFilterTree(parseFilterExpression("id eq 'abc'")!, metadata)).toThrow(
+      "Invalid value 'abc' for 'id': expected a UUID",
+    );
+    expect(() => validateFilterTree(parseFilterExpression('isActive eq 1')!, metadata)).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should only aggregate filterable columns and sort by aggregated results', () => {
+    const apply = parseApply('groupby((isActive),aggregate($count as total))');
+    expect(() => validateApplyOptions({ apply, orderBy: [{ prop: 'total', direction: 'desc' }] }, metadata)).not.toThrow();
+    expect(() => validateApplyOptions({ apply, orderBy: [{ prop: 'email', direction: 'asc' }] }, metadata)).toThrow(
+      BadRequestException,
+    );
+    expect(() => validateApplyOptions({ apply: parseApply('groupby((bio))') }, metadata)).toThrow(
+      "Property 'bio' cannot be used in $apply",
+    );
+    expect(() => validateApplyOptions({ apply: parseApply('aggregate(email with sum as total)') }, metadata)).toThrow(
+      "Aggregation 'sum' cannot be applied to 'email'",
+    );
+    expect(() => validateApplyOptions({ apply: parseApply('filter(isActive eq true)') }, metadata)).toThrow(
+      BadRequestException,
+    );
+  });
+});
@@ -0,0 +1,404 @@
+/**
+ * Query Field Validation
+ * Check $filter/$orderby/$select/$apply fields against entity metadata and coerce filter values to column types
+ */
+
+import { BadRequestException } from '@nestjs/common';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+import { EntityMetadata } from 'typeorm';
+import {
+  AggregateExpression,
+  ApplyTransformation,
+  ExpandItem,
+  FilterFunction,
+  FilterNode,
+  FilterOperator,
+  FilterPrimitive,
+  ODataQueryOptions,
+  OrderByItem,
+} from '@libs/shared';
+import { getFilterableFields, getSortableFields } from '../decorators/query-field.decorators';
+
+type ColumnKind = 'string' | 'uuid' | 'number' | 'boolean' | 'date' | 'enum' | 'other';
+
+const EQUALITY_OPERATORS = [
+  FilterOperator.EQ,
+  FilterOperator.NE,
+  FilterOperator.IN,
+  FilterOperator.NOT_IN,
+  FilterOperator.IS_NULL,
+  FilterOperator.IS_NOT_NULL,
+];
+
+const RANGE_OPERATORS = [
+  ...EQUALITY_OPERATORS,
+  FilterOperator.GT,
+  FilterOperator.GE,
+  FilterOperator.LT,
+  FilterOperator.LE,
+];
+
+/**
+ * Operators supported by each kind of column
+ */
+const OPERATORS_BY_KIND: Record<ColumnKind, FilterOperator[]> = {
+  string: Object.values(FilterOperator),
+  uuid: EQUALITY_OPERATORS,
+  number: RANGE_OPERATORS,
+  boolean: EQUALITY_OPERATORS,
+  date: RANGE_OPERATORS,
+  enum: EQUALITY_OPERATORS,
+  other: EQUALITY_OPERATORS,
+};
+
+/**
+ * Column kinds accepted and returned by each filter function
+ */
+const FUNCTION_SIGNATURES: Record<FilterFunction, { argument: ColumnKind; result: ColumnKind }> = {
+  [FilterFunction.TOLOWER]: { argument: 'string', result: 'string' },
+  [FilterFunction.TOUPPER]: { argument: 'string', result: 'string' },
+  [FilterFunction.TRIM]: { argument: 'string', result: 'string' },
+  [FilterFunction.LENGTH]: { argument: 'string', result: 'number' },
+  [FilterFunction.YEAR]: { argument: 'date', result: 'number' },
+  [FilterFunction.MONTH]: { argument: 'date', result: 'number' },
+  [FilterFunction.DAY]: { argument: 'date', result: 'number' },
+  [FilterFunction.HOUR]: { argument: 'date', result: 'number' },
+  [FilterFunction.MINUTE]: { argument: 'date', result: 'number' },
+  [FilterFunction.SECOND]: { argument: 'date', result: 'number' },
+  [FilterFunction.DATE]: { argument: 'date', result: 'date' },
+  [FilterFunction.ROUND]: { argument: 'number', result: 'number' },
+  [FilterFunction.FLOOR]: { argument: 'number', result: 'number' },
+  [FilterFunction.CEILING]: { argument: 'number', result: 'number' },
+};
+
+/**
+ * Column kinds accepted by each aggregation method (any kind when unset)
+ */
+const AGGREGATE_KINDS: Partial<Record<AggregateExpression['method'], ColumnKind[]>> = {
+  sum: ['number'],
+  avg: ['number'],
+  min: ['number', 'date', 'string'],
+  max: ['number', 'date', 'string'],
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const NUMERIC_TYPES = [
+  'int', 'int2', 'int4', 'int8', 'integer', 'smallint', 'bigint', 'float', 'float4', 'float8',
+  'double', 'double precision', 'decimal', 'numeric', 'real', 'number',
+];
+
+const DATE_TYPES = [
+  'date', 'datetime', 'timestamp', 'timestamptz', 'timestamp with time zone',
+  'timestamp without time zone', 'time', 'timetz',
+];
+
+const STRING_TYPES = ['varchar', 'character varying', 'char', 'character', 'text', 'citext', 'string'];
+
+/**
+ * Classify a column by the kind of values it holds
+ * @param column Column metadata
+ * @returns Column kind
+ */
+function getColumnKind(column: ColumnMetadata): ColumnKind {
+  if (column.enum) {
+    return 'enum';
+  }
+
+  const type = (typeof column.type === 'function' ? column.type.name : String(column.type)).toLowerCase();
+
+  if (type === 'uuid') return 'uuid';
+  if (type === 'boolean' || type === 'bool') return 'boolean';
+  if (NUMERIC_TYPES.includes(type)) return 'number';
+  if (DATE_TYPES.includes(type)) return 'date';
+  if (STRING_TYPES.includes(type)) return 'string';
+  return 'other';
+}
+
+/**
+ * Check the functions applied to a property and compute the kind of the compared value
+ * @param kind Kind of the property column
+ * @param functions Functions, innermost first
+ * @param prop Property name used in error messages
+ * @returns Kind of the function result
+ * @throws BadRequestException when a function does not accept its argument
+ */
+function getFunctionResultKind(kind: ColumnKind, functions: FilterFunction[] = [], prop: string): ColumnKind {
+  return functions.reduce((argumentKind, name) => {
+    const signature = FUNCTION_SIGNATURES[name];
+    if (signature.argument !== argumentKind) {
+      throw new BadRequestException(`Function '${name}' cannot be applied to '${prop}'`);
+    }
+    return signature.result;
+  }, kind);
+}
+
+/**
+ * Coerce a literal to the type of a column
+ * @param value Literal value from the filter expression
+ * @param column Column metadata
+ * @param kind Column kind
+ * @returns Coerced value
+ * @throws BadRequestException when the value cannot represent the column type
+ */
+function coerceValue(value: FilterPrimitive, column: ColumnMetadata, kind: ColumnKind): FilterPrimitive {
+  if (value === null) {
+    return null;
+  }
+
+  const invalid = (expected: string) =>
+    new BadRequestException(`Invalid value '${String(value)}' for '${column.propertyName}': expected ${expected}`);
+
+  switch (kind) {
+    case 'string':
+      return value instanceof Date ? value.toISOString() : String(value);
+
+    case 'uuid':
+      if (typeof value !== 'string' || !UUID_PATTERN.test(value)) {
+        throw invalid('a UUID');
+      }
+      return value;
+
+    case 'number': {
+      const num = typeof value === 'number' ? value : Number(value);
+      if (typeof value === 'boolean' || value instanceof Date || value === '' || !isFinite(num)) {
+        throw invalid('a number');
+      }
+      return num;
+    }
+
+    case 'boolean':
+      if (value === true || value === 'true') return true;
+      if (value === false || value === 'false') return false;
+      throw invalid('true or false');
+
+    case 'date': {
+      const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : null;
+      if (!date || isNaN(date.getTime())) {
+        throw invalid('an ISO 8601 date');
+      }
+      return date;
+    }
+
+    case 'enum': {
+      const allowed = (column.enum ?? []).map(String);
+      if (!allowed.includes(String(value))) {
+        throw invalid(`one of ${allowed.join(', ')}`);
+      }
+      return String(value);
+    }
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Validate the fields and operators of a filter tree and coerce its values to column types
+ * @param node Expression tree
+ * @param metadata Metadata of the filtered entity
+ * @returns Tree with coerced values
+ * @throws BadRequestException for unknown or non-filterable fields and disallowed operators
+ */
+export function validateFilterTree(node: FilterNode, metadata: EntityMetadata): FilterNode {
+  switch (node.kind) {
+    case 'and':
+    case 'or':
+      return { kind: node.kind, operands: node.operands.map((operand) => validateFilterTree(operand, metadata)) };
+
+    case 'not':
+      return { kind: 'not', operand: validateFilterTree(node.operand, metadata) };
+
+    case 'any':
+    case 'all': {
+      const relation = metadata.findRelationWithPropertyPath(node.prop);
+      if (!getFilterableFields(metadata.target as object).has(node.prop) || !relation) {
+        throw new BadRequestException(`Property '${node.prop}' cannot be used in $filter`);
+      }
+      if (!relation.isOneToMany && !relation.isManyToMany) {
+        throw new BadRequestException(`Operator '${node.kind}' requires a collection but '${node.prop}' is not one`);
+      }
+      return {
+        ...node,
+        predicate: node.predicate
+          ? validateFilterTree(node.predicate, relation.inverseEntityMetadata)
+          : node.predicate,
+      };
+    }
+
+    case 'comparison': {
+      const options = getFilterableFields(metadata.target as object).get(node.prop);
+      const column = metadata.findColumnWithPropertyName(node.prop);
+      if (!options || !column) {
+        throw new BadRequestException(`Property '${node.prop}' cannot be used in $filter`);
+      }
+
+      const kind = getFunctionResultKind(getColumnKind(column), node.functions, node.prop);
+      const allowedOperators = options.operators ?? OPERATORS_BY_KIND[kind];
+      if (!allowedOperators.includes(node.operator) || !OPERATORS_BY_KIND[kind].includes(node.operator)) {
+        throw new BadRequestException(`Operator '${node.operator}' is not allowed on '${node.prop}'`);
+      }
+
+      const value = Array.isArray(node.value)
+        ? node.value.map((item) => coerceValue(item, column, kind))
+        : coerceValue(node.value, column, kind);
+
+      return { ...node, value };
+    }
+  }
+}
+
+/**
+ * Validate $orderby fields against the sortable whitelist
+ * @param orderBy Order by items
+ * @param metadata Entity metadata
+ * @throws BadRequestException for non-sortable fields
+ */
+function validateOrderBy(orderBy: OrderByItem[] | undefined, metadata: EntityMetadata): void {
+  const sortable = getSortableFields(metadata.target as object);
+  orderBy?.forEach(({ prop }) => {
+    if (!sortable.has(prop) || !metadata.findColumnWithPropertyName(prop)) {
+      throw new BadRequestException(`Property '${prop}' cannot be used in $orderby`);
+    }
+  });
+}
+
+/**
+ * Validate nested $expand options against the related entities
+ * @param expand Expand items
+ * @param metadata Metadata of the expanding entity
+ * @returns Expand items with coerced filter values
+ */
+function validateExpand(expand: ExpandItem[] | undefined, metadata: EntityMetadata): ExpandItem[] | undefined {
+  return expand?.map((item) => {
+    const relation = metadata.findRelationWithPropertyPath(item.prop);
+    if (!relation) {
+      throw new BadRequestException(`Cannot expand '${item.prop}': not a relation of ${metadata.name}`);
+    }
+    const related = relation.inverseEntityMetadata;
+    validateOrderBy(item.orderBy, related);
+    return {
+      ...item,
+      filter: item.filter ? validateFilterTree(item.filter, related) : item.filter,
+      expand: validateExpand(item.expand, related),
+    };
+  });
+}
+
+/**
+ * Validate query options against entity metadata: only @Filterable fields may be filtered,
+ * only @Sortable fields may be sorted, and only existing columns may be selected.
+ * @param options Parsed query options
+ * @param metadata Entity metadata
+ * @returns Query options with filter values coerced to column types
+ * @throws BadRequestException when a field is unknown or not allowed
+ */
+export function validateQueryOptions(options: ODataQueryOptions, metadata: EntityMetadata): ODataQueryOptions {
+  validateOrderBy(options.orderBy, metadata);
+
+  options.select?.forEach((prop) => {
+    const column = metadata.findColumnWithPropertyName(prop);
+    if (!column || column.isSelect === false) {
+      throw new BadRequestException(`Property '${prop}' cannot be used in $select`);
+    }
+  });
+
+  return {
+    ...options,
+    filter: options.filter ? validateFilterTree(options.filter, metadata) : options.filter,
+    expand: validateExpand(options.expand, metadata),
+  };
+}
+
+/**
+ * Validate $apply against entity metadata: filter, compute, group and aggregate only @Filterable
+ * columns (or computed properties), and sort only by the resulting columns.
+ * @param options Parsed query options with $apply
+ * @param metadata Entity metadata
+ * @returns Query options with filter values coerced to column types
+ * @throws BadRequestException when the pipeline does not aggregate or uses a field that is not allowed
+ */
+export function validateApplyOptions(options: ODataQueryOptions, metadata: EntityMetadata): ODataQueryOptions {
+  const apply = options.apply ?? [];
+  const last = apply[apply.length - 1];
+  if (!last || (last.kind !== 'groupby' && last.kind !== 'aggregate')) {
+    throw new BadRequestException('$apply must end with a groupby or aggregate transformation');
+  }
+  if (options.select?.length || options.expand?.length || options.search) {
+    throw new BadRequestException('$select, $expand and $search cannot be combined with $apply');
+  }
+
+  const filterable = getFilterableFields(metadata.target as object);
+  const computed = new Map<string, ColumnKind>();
+  const results = new Set<string>();
+
+  const getKind = (prop: string): ColumnKind => {
+    const computedKind = computed.get(prop);
+    if (computedKind) {
+      return computedKind;
+    }
+    const column = metadata.findColumnWithPropertyName(prop);
+    if (!filterable.has(prop) || !column) {
+      throw new BadRequestException(`Property '${prop}' cannot be used in $apply`);
+    }
+    return getColumnKind(column);
+  };
+
+  const addResult = (name: string) => {
+    if (results.has(name)) {
+      throw new BadRequestException(`Duplicate property '${name}' in $apply`);
+    }
+    results.add(name);
+  };
+
+  const validateAggregate = ({ prop, method, alias }: AggregateExpression) => {
+    if (prop !== undefined) {
+      const kind = getKind(prop);
+      const allowedKinds = AGGREGATE_KINDS[method];
+      if (allowedKinds && !allowedKinds.includes(kind)) {
+        throw new BadRequestException(`Aggregation '${method}' cannot be applied to '${prop}'`);
+      }
+    }
+    addResult(alias);
+  };
+
+  const validated = apply.map((transformation): ApplyTransformation => {
+    switch (transformation.kind) {
+      case 'filter':
+        return { kind: 'filter', filter: validateFilterTree(transformation.filter, metadata) };
+
+      case 'compute':
+        transformation.compute.forEach(({ prop, functions, alias }) => {
+          if (computed.has(alias) || metadata.findColumnWithPropertyName(alias)) {
+            throw new BadRequestException(`Duplicate property '${alias}' in $apply`);
+          }
+          computed.set(alias, getFunctionResultKind(getKind(prop), functions, prop));
+        });
+        return transformation;
+
+      case 'groupby':
+        transformation.groupBy.forEach((prop) => {
+          getKind(prop);
+          addResult(prop);
+        });
+        transformation.aggregate?.forEach(validateAggregate);
+        return transformation;
+
+      case 'aggregate':
+        transformation.aggregate.forEach(validateAggregate);
+        return transformation;
+    }
+  });
+
+  options.orderBy?.forEach(({ prop }) => {
+    if (!results.has(prop)) {
+      throw new BadRequestException(`Property '${prop}' cannot be used in $orderby: not a result of $apply`);
+    }
+  });
+
+  return {
+    ...options,
+    filter: options.filter ? validateFilterTree(options.filter, metadata) : options.filter,
+    apply: validated,
+  };
+}
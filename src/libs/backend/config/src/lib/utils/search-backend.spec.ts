@@ -0,0 +1,87 @@
+import { BadRequestException } from '@nestjs/common';
+import { Column, DataSource, Entity, PrimaryGeneratedColumn } from 'typeorm';
+import { Searchable, SearchVectorColumn } from '../decorators/query-field.decorators';
+import { addSearchCondition, applySearchRanking, extractSearchHighlights } from './search-backend';
+
+@Entity('articles')
+class Article {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'headline' })
+  @Searchable({ weight: 'A' })
+  title!: string;
+
+  @Column({ type: 'text', nullable: true })
+  @Searchable()
+  body?: string;
+
+  @Column({ default: false })
+  published!: boolean;
+
+  @SearchVectorColumn({ config: 'english' })
+  searchVector?: string;
+}
+
+@Entity('tags')
+class Tag {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+}
+
+describe('search-backend', () => {
+  // Metadata is built without connecting to a database
+  const dataSource = new DataSource({ type: 'postgres', entities: [Article, Tag] });
+
+  beforeAll(async () => {
+    await (dataSource as unknown as { buildMetadatas(): Promise<void> }).buildMetadatas();
+  });
+
+  it('should generate a weighted tsvector column with an unsynchronized index', () => {
+    const metadata = dataSource.getMetadata(Article);
+    const column = metadata.findColumnWithPropertyName('searchVector')!;
+
+    expect(column.asExpression).toBe(
+      `setweight(to_tsvector('english', coalesce("headline", '')), 'A') || ` +
+        `setweight(to_tsvector('english', coalesce("body", '')), 'D')`,
+    );
+    expect(column.isSelect).toBe(false);
+    expect(metadata.indices.find((index) => index.name === 'IDX_Article_searchVector')?.synchronize).toBe(false);
+  });
+
+  it('should match, rank and highlight search results', () => {
+    const metadata = dataSource.getMetadata(Article);
+    const where = addSearchCondition<Article>([{ published: true }, { title: 'x' }], 'big cats', metadata);
+    const queryBuilder = dataSource
+      .getRepository(Article)
+      .createQueryBuilder('Article')
+      .setFindOptions({ where, order: { title: 'ASC' } });
+    applySearchRanking(queryBuilder, 'big cats', metadata, { orderByRank: true, highlight: true });
+    const [sql, parameters] = queryBuilder.getQueryAndParameters();
+
+    expect(sql).toContain(
+      `("Article"."published" = $2) AND ("Article"."searchVector" @@ websearch_to_tsquery('english', $1)))) OR ` +
+        `((("Article"."headline" = $3) AND ("Article"."searchVector" @@ websearch_to_tsquery('english', $1)))`,
+    );
+    expect(sql).toContain(`ts_rank("Article"."searchVector", websearch_to_tsquery('english', $1)) AS "search_rank"`);
+    expect(sql).toContain(`ts_headline('english', coalesce("Article"."body", '')`);
+    expect(sql).toMatch(/ORDER BY search_rank DESC, "Article"."headline" ASC$/);
+    expect(parameters).toEqual(['big cats', true, 'x']);
+  });
+
+  it('should collect escaped snippets with matches', () => {
+    const metadata = dataSource.getMetadata(Article);
+    const raw = [
+      { Article_id: '1', search_highlight_title: '<mark>Big</mark> <b>cats</b>', search_highlight_body: 'none' },
+      { Article_id: '2', search_highlight_title: 'none', search_highlight_body: null },
+    ];
+
+    expect(extractSearchHighlights(raw, 'Article', metadata)).toEqual({
+      '1': { title: '<mark>Big</mark> &#60;b&#62;cats&#60;/b&#62;' },
+    });
+  });
+
+  it('should reject entities without a search vector', () => {
+    expect(() => addSearchCondition(undefined, 'x', dataSource.getMetadata(Tag))).toThrow(BadRequestException);
+  });
+});
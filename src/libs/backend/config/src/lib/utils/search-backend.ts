@@ -0,0 +1,143 @@
+/**
+ * Full-text Search Backend Utilities
+ * Translate $search to PostgreSQL tsquery conditions, relevance ranking and highlighted snippets
+ */
+
+import { BadRequestException } from '@nestjs/common';
+import { EntityMetadata, FindOptionsWhere, ObjectLiteral, Raw, SelectQueryBuilder } from 'typeorm';
+import {
+  SearchVectorMetadata,
+  getSearchVector,
+  getSearchableFields,
+} from '../decorators/query-field.decorators';
+
+const SEARCH_PARAMETER = 'search_query';
+
+/**
+ * Alias of the selected search rank
+ */
+export const SEARCH_RANK_ALIAS = 'search_rank';
+
+const HIGHLIGHT_ALIAS_PREFIX = 'search_highlight_';
+
+const HIGHLIGHT_START = '<mark>';
+const HIGHLIGHT_STOP = '</mark>';
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=20, MinWords=5, MaxFragments=2`;
+
+/**
+ * SQL of the search query ("quoted phrases", "or" and "-excluded" words are understood)
+ */
+function toTsQuery(config: string): string {
+  return `websearch_to_tsquery('${config}', :${SEARCH_PARAMETER})`;
+}
+
+/**
+ * Get the search vector column of an entity
+ * @param metadata Entity metadata
+ * @returns Search vector column
+ * @throws BadRequestException when the entity has no @SearchVectorColumn()
+ */
+function getSearchVectorOrFail(metadata: EntityMetadata): SearchVectorMetadata {
+  const searchVector = getSearchVector(metadata.target as object);
+  if (!searchVector) {
+    throw new BadRequestException(`$search is not supported on ${metadata.name}`);
+  }
+  return searchVector;
+}
+
+/**
+ * Add the search match to where conditions (to every alternative of a disjunction)
+ * @param where Where conditions from the other query options
+ * @param search Search terms
+ * @param metadata Entity metadata
+ * @returns Where conditions that also require the search vector to match
+ */
+export function addSearchCondition<T>(
+  where: FindOptionsWhere<T> | FindOptionsWhere<T>[] | undefined,
+  search: string,
+  metadata: EntityMetadata,
+): FindOptionsWhere<T> | FindOptionsWhere<T>[] {
+  const { propertyName, config } = getSearchVectorOrFail(metadata);
+  const condition = Raw((column) => `${column} @@ ${toTsQuery(config)}`, { [SEARCH_PARAMETER]: search });
+  const alternatives = (Array.isArray(where) ? where : [where ?? {}]).map(
+    (alternative) => ({ ...alternative, [propertyName]: condition }) as FindOptionsWhere<T>,
+  );
+  return alternatives.length === 1 ? alternatives[0] : alternatives;
+}
+
+/**
+ * Select the search rank and highlighted snippets of the searchable properties
+ * @param queryBuilder Query builder with the search condition
+ * @param search Search terms
+ * @param metadata Entity metadata
+ * @param options orderByRank sorts by relevance before any other order; highlight selects snippets
+ */
+export function applySearchRanking<T extends ObjectLiteral>(
+  queryBuilder: SelectQueryBuilder<T>,
+  search: string,
+  metadata: EntityMetadata,
+  options: { orderByRank: boolean; highlight: boolean },
+): void {
+  const { propertyName, config } = getSearchVectorOrFail(metadata);
+  const alias = queryBuilder.alias;
+  queryBuilder.setParameter(SEARCH_PARAMETER, search);
+
+  if (options.orderByRank) {
+    queryBuilder
+      .addSelect(`ts_rank(${alias}.${propertyName}, ${toTsQuery(config)})`, SEARCH_RANK_ALIAS)
+      .orderBy({ [SEARCH_RANK_ALIAS]: 'DESC', ...queryBuilder.expressionMap.orderBys });
+  }
+
+  if (options.highlight) {
+    getSearchableFields(metadata.target as object).forEach((_, prop) => {
+      queryBuilder.addSelect(
+        `ts_headline('${config}', coalesce(${alias}.${prop}, ''), ${toTsQuery(config)}, '${HEADLINE_OPTIONS}')`,
+        `${HIGHLIGHT_ALIAS_PREFIX}${prop}`,
+      );
+    });
+  }
+}
+
+/**
+ * Escape HTML special characters
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Collect the highlighted snippets selected by applySearchRanking.
+ * The stored text is HTML-escaped so that only the <mark> tags are markup.
+ * @param raw Raw rows returned with the entities
+ * @param alias Query builder alias of the entity
+ * @param metadata Entity metadata
+ * @returns Snippets keyed by entity id, then by property (only properties with a match)
+ */
+export function extractSearchHighlights(
+  raw: Record<string, unknown>[],
+  alias: string,
+  metadata: EntityMetadata,
+): Record<string, Record<string, string>> {
+  const idKey = `${alias}_${metadata.primaryColumns[0].databaseName}`;
+  const fields = [...getSearchableFields(metadata.target as object).keys()];
+  const highlights: Record<string, Record<string, string>> = {};
+
+  raw.forEach((row) => {
+    fields.forEach((prop) => {
+      const snippet = row[`${HIGHLIGHT_ALIAS_PREFIX}${prop}`];
+      if (typeof snippet !== 'string' || !snippet.includes(HIGHLIGHT_START)) {
+        return;
+      }
+      const id = String(row[idKey]);
+      highlights[id] = {
+        ...highlights[id],
+        [prop]: snippet
+          .split(HIGHLIGHT_START)
+          .map((part) => part.split(HIGHLIGHT_STOP).map(escapeHtml).join(HIGHLIGHT_STOP))
+          .join(HIGHLIGHT_START),
+      };
+    });
+  });
+
+  return highlights;
+}
@@ -1,5 +1,6 @@
 export * from './lib/models/shared-models';
 export * from './lib/models/odata-filter.models';
+export * from './lib/models/odata-query.models';
 export * from './lib/utils';
 export * from './lib/validations';
 export * from './lib/components';
\ No newline at end of file
@@ -17,6 +17,7 @@ export enum FilterOperator {
 
   // String operators
   CONTAINS = 'contains', // Contains substring
+  ICONTAINS = 'icontains', // Contains substring, case-insensitive
   STARTSWITH = 'startswith', // Starts with
   ENDSWITH = 'endswith', // Ends with
 
@@ -29,6 +30,31 @@ export enum FilterOperator {
   IS_NOT_NULL = 'isNotNull', // Is not null
 }
 
+/**
+ * Functions that can be applied to a property before comparing it
+ */
+export enum FilterFunction {
+  // String functions
+  TOLOWER = 'tolower',
+  TOUPPER = 'toupper',
+  TRIM = 'trim',
+  LENGTH = 'length',
+
+  // Date functions
+  YEAR = 'year',
+  MONTH = 'month',
+  DAY = 'day',
+  HOUR = 'hour',
+  MINUTE = 'minute',
+  SECOND = 'second',
+  DATE = 'date',
+
+  // Math functions
+  ROUND = 'round',
+  FLOOR = 'floor',
+  CEILING = 'ceiling',
+}
+
 /**
  * OData filter structure
  */
@@ -36,6 +62,7 @@ export interface ODataFilter {
   prop: string;
   operator: FilterOperator;
   value: any;
+  functions?: FilterFunction[];
 }
 
 /**
@@ -44,5 +71,70 @@ export interface ODataFilter {
 export interface ParsedFilter {
   prop: string;
   operator: FilterOperator;
-  value: string | number | boolean | string[] | null;
+  value: FilterPrimitive | FilterPrimitive[];
+  /**
+   * Functions applied to the property, innermost first ("tolower(trim(email))" is [trim, tolower])
+   */
+  functions?: FilterFunction[];
+}
+
+/**
+ * Literal value that can appear in a filter expression
+ */
+export type FilterPrimitive = string | number | boolean | Date | null;
+
+/**
+ * Comparison leaf of a filter expression tree (e.g. "email eq 'test@test.com'")
+ */
+export interface FilterComparisonNode extends ParsedFilter {
+  kind: 'comparison';
+}
+
+/**
+ * Logical conjunction/disjunction of two or more expressions
+ */
+export interface FilterLogicalNode {
+  kind: 'and' | 'or';
+  operands: FilterNode[];
+}
+
+/**
+ * Logical negation of an expression
+ */
+export interface FilterNotNode {
+  kind: 'not';
+  operand: FilterNode;
+}
+
+/**
+ * Lambda over a collection property (e.g. "orders/any(o: o/status eq 'open')")
+ * Properties in the predicate are relative to the collection items. A lambda without
+ * predicate ("orders/any()") matches when the collection is not empty.
+ */
+export interface FilterLambdaNode {
+  kind: 'any' | 'all';
+  prop: string;
+  variable?: string;
+  predicate?: FilterNode;
+}
+
+/**
+ * Filter expression tree (AST) shared by the frontend builder and the backend parser
+ */
+export type FilterNode = FilterComparisonNode | FilterLogicalNode | FilterNotNode | FilterLambdaNode;
+
+/**
+ * Limits checked while parsing a filter expression; unset limits are not enforced
+ */
+export interface FilterLimits {
+  /** Deepest nesting of parentheses, not, lambdas and function calls */
+  maxDepth?: number;
+  /** Largest number of comparisons and lambdas */
+  maxPredicates?: number;
+  /** Largest number of values in an in/notIn list */
+  maxInListLength?: number;
+  /** Longest string literal */
+  maxStringLength?: number;
+  /** Largest number of alternative conditions (OR branches) the expression expands to; checked by the backend */
+  maxBranches?: number;
 }
@@ -0,0 +1,125 @@
+/**
+ * OData Query Options Models
+ * Shared types for sorting, projection and paging of list endpoints
+ */
+
+import { FilterFunction, FilterNode } from './odata-filter.models';
+
+/**
+ * Sort direction
+ */
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Single $orderby entry (e.g., "createdAt desc")
+ */
+export interface OrderByItem {
+  prop: string;
+  direction: SortDirection;
+}
+
+/**
+ * Single $expand entry with its nested options
+ * (e.g., "orders($filter=total gt 10;$orderby=createdAt desc;$expand=items)")
+ */
+export interface ExpandItem {
+  prop: string;
+  filter?: FilterNode | null;
+  orderBy?: OrderByItem[];
+  expand?: ExpandItem[];
+}
+
+/**
+ * Aggregation methods of $apply (e.g., "amount with sum as total")
+ */
+export type AggregateMethod = 'sum' | 'avg' | 'min' | 'max' | 'countdistinct';
+
+/**
+ * Single aggregate expression of $apply; "$count as total" has no property and the "count" method
+ */
+export interface AggregateExpression {
+  prop?: string;
+  method: AggregateMethod | 'count';
+  alias: string;
+}
+
+/**
+ * Property with functions applied, exposed under an alias (e.g., "month(createdAt) as month")
+ */
+export interface ComputeExpression {
+  prop: string;
+  /** Functions applied to the property, innermost first */
+  functions: FilterFunction[];
+  alias: string;
+}
+
+/**
+ * $apply transformation restricting the input set: "filter(isActive eq true)"
+ */
+export interface ApplyFilterTransformation {
+  kind: 'filter';
+  filter: FilterNode;
+}
+
+/**
+ * $apply transformation adding computed properties: "compute(year(createdAt) as year)"
+ */
+export interface ApplyComputeTransformation {
+  kind: 'compute';
+  compute: ComputeExpression[];
+}
+
+/**
+ * $apply transformation grouping the input set: "groupby((isActive),aggregate($count as total))"
+ */
+export interface ApplyGroupByTransformation {
+  kind: 'groupby';
+  groupBy: string[];
+  aggregate?: AggregateExpression[];
+}
+
+/**
+ * $apply transformation aggregating the whole input set: "aggregate(amount with sum as total)"
+ */
+export interface ApplyAggregateTransformation {
+  kind: 'aggregate';
+  aggregate: AggregateExpression[];
+}
+
+/**
+ * Step of an $apply pipeline; steps are separated by "/"
+ */
+export type ApplyTransformation =
+  | ApplyFilterTransformation
+  | ApplyComputeTransformation
+  | ApplyGroupByTransformation
+  | ApplyAggregateTransformation;
+
+/**
+ * Parsed OData query options
+ */
+export interface ODataQueryOptions {
+  filter?: FilterNode | null;
+  orderBy?: OrderByItem[];
+  select?: string[];
+  expand?: ExpandItem[];
+  top?: number;
+  skip?: number;
+  count?: boolean;
+  apply?: ApplyTransformation[];
+  /** Full-text search terms ("quoted phrases", "or" and "-excluded" words are supported) */
+  search?: string;
+  /** Return highlighted snippets of the search matches */
+  highlight?: boolean;
+}
+
+/**
+ * Response envelope of list endpoints driven by OData query options
+ */
+export interface QueryResponse<T> {
+  items: T[];
+  count?: number;
+  nextLink?: string;
+  /** Snippets of $search matches keyed by item id, then by property; matches are wrapped in <mark> */
+  highlights?: Record<string, Record<string, string>>;
+}
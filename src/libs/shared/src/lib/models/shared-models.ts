@@ -21,6 +21,80 @@ export interface PaginatedResponse<T> {
   total: number;
 }
 
+/**
+ * Page of a cursor-paginated list; cursors are opaque and absent when there are no more rows
+ */
+export interface CursorPaginatedResponse<T> {
+  items: T[];
+  nextCursor?: string;
+  prevCursor?: string;
+}
+
+/**
+ * Error of one item of a bulk operation
+ */
+export interface BulkItemError {
+  statusCode: number;
+  message: string;
+}
+
+/**
+ * Outcome of one item of a bulk operation
+ */
+export interface BulkItemResult<T> {
+  index: number; // Position of the item in the request, or of the row among the matched rows
+  success: boolean;
+  id?: string;
+  item?: T;
+  error?: BulkItemError;
+}
+
+/**
+ * Per-item results of a bulk operation; the successful items are committed even when others fail
+ */
+export interface BulkOperationResponse<T> {
+  results: BulkItemResult<T>[];
+  succeeded: number;
+  failed: number;
+}
+
+/**
+ * Validation errors of one row of an imported file
+ */
+export interface ImportRowError {
+  row: number; // Row number in the file, the header being row 1
+  errors: string[];
+}
+
+/**
+ * Outcome of importing a file; in a dry run nothing is created and created is 0
+ */
+export interface ImportReport {
+  dryRun: boolean;
+  total: number; // Data rows read, empty rows left out
+  valid: number;
+  invalid: number;
+  created: number;
+  failed: number; // Valid rows that could not be created (e.g., duplicates)
+  ignoredColumns: string[]; // Headers that do not match a property
+  errors: ImportRowError[]; // Invalid and failed rows, in file order
+  errorsTruncated?: boolean; // Set when more rows failed than are reported
+}
+
+/**
+ * Import running in the background
+ */
+export interface ImportJob {
+  id: string;
+  status: 'running' | 'completed' | 'failed';
+  processed: number; // Rows read so far
+  progress: number; // Share of the file read so far, from 0 to 1
+  startedAt: string;
+  finishedAt?: string;
+  report?: ImportReport; // Set once completed
+  error?: string; // Set when failed
+}
+
 /**
  * Standard error response format from API
  */
@@ -42,6 +116,7 @@ export interface ValidationError {
   field: string;
   message: string;
   value?: any;
+  position?: number; // Offset of the offending token, for query syntax errors
 }
 
 /**
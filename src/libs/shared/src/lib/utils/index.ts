@@ -2,7 +2,9 @@
  * Shared utility functions for both frontend and backend
  */
 
+export * from './odata-filter-parser';
 export * from './odata-filter-frontend';
+export * from './odata-query-options';
 
 /**
  * Capitalize the first letter of a string
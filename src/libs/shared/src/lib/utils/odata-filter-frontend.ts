@@ -3,74 +3,122 @@
  * Convert filter objects to OData standard format query parameters
  */
 
-import { ODataFilter, FilterOperator } from '../models/odata-filter.models';
+import {
+  ODataFilter,
+  FilterFunction,
+  FilterOperator,
+  FilterNode,
+  FilterPrimitive,
+} from '../models/odata-filter.models';
+import { printFilterExpression } from './odata-filter-parser';
 
 /**
- * Format a filter value for OData expression
+ * Normalize a filter value to a literal supported by the filter grammar
  * @param value Filter value
- * @returns Formatted string value
+ * @returns Literal value
  */
-function formatFilterValue(value: any): string {
+function toFilterPrimitive(value: any): FilterPrimitive {
   if (value === null || value === undefined) {
-    return 'null';
+    return null;
   }
 
-  if (Array.isArray(value)) {
-    // For 'in' and 'notIn' operators, format as array
-    const formattedValues = value.map((v) => {
-      if (typeof v === 'string' && (v.includes(' ') || v.includes("'") || v.includes('"'))) {
-        return `'${v.replace(/'/g, "''")}'`;
-      }
-      return typeof v === 'string' ? v : String(v);
-    });
-    return `(${formattedValues.join(', ')})`;
+  if (value instanceof Date || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
   }
 
-  if (typeof value === 'boolean') {
-    return value.toString();
-  }
+  return String(value);
+}
+
+/**
+ * Convert a single filter to a comparison node
+ * @param filter Filter object
+ * @returns Comparison node
+ */
+function filterToNode(filter: ODataFilter): FilterNode {
+  const { prop, operator, value, functions } = filter;
+  const node = { kind: 'comparison' as const, prop, operator, ...(functions?.length ? { functions } : {}) };
 
-  if (value instanceof Date) {
-    return value.toISOString();
+  // Null operators take no value
+  if (operator === FilterOperator.IS_NULL || operator === FilterOperator.IS_NOT_NULL) {
+    return { ...node, value: null };
   }
 
-  if (typeof value === 'string') {
-    // Add quotes if string contains spaces or special characters
-    if (value.includes(' ') || value.includes("'") || value.includes('"') || value.includes('@')) {
-      return `'${value.replace(/'/g, "''")}'`;
-    }
-    return value;
+  // Array operators take a list of values
+  if (operator === FilterOperator.IN || operator === FilterOperator.NOT_IN) {
+    const values = Array.isArray(value) ? value : [value];
+    return { ...node, value: values.map(toFilterPrimitive) };
   }
 
-  return String(value);
+  return { ...node, value: toFilterPrimitive(value) };
 }
 
 /**
- * Convert a single filter to OData expression string
- * @param filter Filter object
- * @returns OData expression string (e.g., "email eq 'test@test.com'")
+ * Create a filter that compares the result of functions applied to a property
+ * @param functions Function, or functions innermost first (e.g., [TRIM, TOLOWER] for "tolower(trim(prop))")
+ * @param prop Property name
+ * @param operator Filter operator
+ * @param value Filter value
+ * @returns Filter object (e.g., year(createdAt) eq 2026)
  */
-function filterToODataExpression(filter: ODataFilter): string {
-  const { prop, operator, value } = filter;
+export function buildFunctionFilter(
+  functions: FilterFunction | FilterFunction[],
+  prop: string,
+  operator: FilterOperator,
+  value: any,
+): ODataFilter {
+  return { prop, operator, value, functions: Array.isArray(functions) ? functions : [functions] };
+}
 
-  // Handle null operators
-  if (operator === FilterOperator.IS_NULL) {
-    return `${prop} isNull`;
+/**
+ * Create a case-insensitive string filter
+ * contains becomes icontains; other operators compare tolower(prop) with the lowercased value.
+ * @param prop Property name
+ * @param value String value
+ * @param operator Filter operator, default: eq
+ * @returns Filter object
+ */
+export function buildCaseInsensitiveFilter(
+  prop: string,
+  value: string,
+  operator: FilterOperator = FilterOperator.EQ,
+): ODataFilter {
+  if (operator === FilterOperator.CONTAINS || operator === FilterOperator.ICONTAINS) {
+    return { prop, operator: FilterOperator.ICONTAINS, value };
   }
+  return buildFunctionFilter(FilterFunction.TOLOWER, prop, operator, value.toLowerCase());
+}
 
-  if (operator === FilterOperator.IS_NOT_NULL) {
-    return `${prop} isNotNull`;
+/**
+ * Combine an array of OData filters into a filter expression tree
+ * @param filters Array of filter objects
+ * @param logicalOperator Logical operator to join filters ('and' or 'or'), default: 'and'
+ * @returns Expression tree, or null when there are no filters
+ */
+export function buildFilterTree(
+  filters: ODataFilter[],
+  logicalOperator: 'and' | 'or' = 'and',
+): FilterNode | null {
+  if (filters.length === 0) {
+    return null;
   }
 
-  // Handle array operators
-  if (operator === FilterOperator.IN || operator === FilterOperator.NOT_IN) {
-    const formattedValue = formatFilterValue(value);
-    return `${prop} ${operator} ${formattedValue}`;
+  const operands = filters.map(filterToNode);
+  return operands.length === 1 ? operands[0] : { kind: logicalOperator, operands };
+}
+
+/**
+ * Convert a filter expression tree to OData standard format query parameter
+ * @param node Expression tree
+ * @returns Object with 'filter' query parameter
+ */
+export function buildFilterQueryParamsFromTree(node: FilterNode | null): Record<string, string> {
+  if (!node) {
+    return {};
   }
 
-  // Handle other operators
-  const formattedValue = formatFilterValue(value);
-  return `${prop} ${operator} ${formattedValue}`;
+  return {
+    filter: printFilterExpression(node),
+  };
 }
 
 /**
@@ -83,16 +131,7 @@ export function buildFilterQueryParams(
   filters: ODataFilter[],
   logicalOperator: 'and' | 'or' = 'and',
 ): Record<string, string> {
-  if (filters.length === 0) {
-    return {};
-  }
-
-  const expressions = filters.map(filterToODataExpression);
-  const filterExpression = expressions.join(` ${logicalOperator} `);
-
-  return {
-    filter: filterExpression,
-  };
+  return buildFilterQueryParamsFromTree(buildFilterTree(filters, logicalOperator));
 }
 
 /**
@@ -114,7 +153,7 @@ export function buildSingleFilterQueryParam(
  * Convert filters object to query string
  * @param filters Array of filter objects
  * @param logicalOperator Logical operator to join filters ('and' or 'or'), default: 'and'
- * @returns Query string (e.g., "filter=email eq 'test@test.com' and status eq active")
+ * @returns Query string (e.g., "filter=email eq 'test@test.com' and status eq 'active'")
  */
 export function buildFilterQueryString(
   filters: ODataFilter[],
@@ -0,0 +1,198 @@
+import { FilterFunction, FilterOperator } from '../models/odata-filter.models';
+import {
+  buildCaseInsensitiveFilter,
+  buildFilterQueryParams,
+  buildFunctionFilter,
+} from './odata-filter-frontend';
+import {
+  FilterSyntaxError,
+  parseFilterExpression,
+  printFilterExpression,
+} from './odata-filter-parser';
+
+describe('odata-filter-parser', () => {
+  describe('parseFilterExpression', () => {
+    it('should give and precedence over or', () => {
+      expect(parseFilterExpression('a eq 1 or b eq 2 and c eq 3')).toEqual({
+        kind: 'or',
+        operands: [
+          { kind: 'comparison', prop: 'a', operator: FilterOperator.EQ, value: 1 },
+          {
+            kind: 'and',
+            operands: [
+              { kind: 'comparison', prop: 'b', operator: FilterOperator.EQ, value: 2 },
+              { kind: 'comparison', prop: 'c', operator: FilterOperator.EQ, value: 3 },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should support grouping, not and in lists', () => {
+      expect(parseFilterExpression("not (status in ('a', 'b c') or email isNull)")).toEqual({
+        kind: 'not',
+        operand: {
+          kind: 'or',
+          operands: [
+            { kind: 'comparison', prop: 'status', operator: FilterOperator.IN, value: ['a', 'b c'] },
+            { kind: 'comparison', prop: 'email', operator: FilterOperator.IS_NULL, value: null },
+          ],
+        },
+      });
+    });
+
+    it('should unescape doubled and backslash-escaped quotes', () => {
+      expect(parseFilterExpression("name eq 'O''Brien' or name eq 'O\\'Neil'")).toEqual({
+        kind: 'or',
+        operands: [
+          { kind: 'comparison', prop: 'name', operator: FilterOperator.EQ, value: "O'Brien" },
+          { kind: 'comparison', prop: 'name', operator: FilterOperator.EQ, value: "O'Neil" },
+        ],
+      });
+    });
+
+    it('should parse any/all lambdas with properties relative to the variable', () => {
+      expect(parseFilterExpression("orders/any(o: o.status eq 'open' and o/items/all(i:i/qty gt 0))")).toEqual({
+        kind: 'any',
+        prop: 'orders',
+        variable: 'o',
+        predicate: {
+          kind: 'and',
+          operands: [
+            { kind: 'comparison', prop: 'status', operator: FilterOperator.EQ, value: 'open' },
+            {
+              kind: 'all',
+              prop: 'items',
+              variable: 'i',
+              predicate: { kind: 'comparison', prop: 'qty', operator: FilterOperator.GT, value: 0 },
+            },
+          ],
+        },
+      });
+      expect(parseFilterExpression('not orders/any()')).toEqual({
+        kind: 'not',
+        operand: { kind: 'any', prop: 'orders' },
+      });
+    });
+
+    it('should reject lambda properties without the variable prefix', () => {
+      expect(() => parseFilterExpression("orders/any(o: status eq 'open')")).toThrow(
+        expect.objectContaining({ position: 14, token: 'status' }),
+      );
+      expect(() => parseFilterExpression('orders/all()')).toThrow(FilterSyntaxError);
+      expect(() => parseFilterExpression('orders/count eq 1')).toThrow(FilterSyntaxError);
+    });
+
+    it('should parse function calls applied to properties', () => {
+      expect(parseFilterExpression("year(createdAt) eq 2026 and tolower(trim(email)) eq 'a@b.c'")).toEqual({
+        kind: 'and',
+        operands: [
+          {
+            kind: 'comparison',
+            prop: 'createdAt',
+            operator: FilterOperator.EQ,
+            value: 2026,
+            functions: [FilterFunction.YEAR],
+          },
+          {
+            kind: 'comparison',
+            prop: 'email',
+            operator: FilterOperator.EQ,
+            value: 'a@b.c',
+            functions: [FilterFunction.TRIM, FilterFunction.TOLOWER],
+          },
+        ],
+      });
+      expect(() => parseFilterExpression('sqrt(total) gt 2')).toThrow(FilterSyntaxError);
+    });
+
+    it('should parse typed literals', () => {
+      const guid = '0f8fad5b-d9cb-469f-a165-70867728950e';
+
+      expect(parseFilterExpression(`createdAt ge 2026-01-01T00:00:00Z`)).toMatchObject({
+        value: new Date('2026-01-01T00:00:00Z'),
+      });
+      expect(parseFilterExpression(`createdAt lt datetime'2026-02-01'`)).toMatchObject({
+        value: new Date('2026-02-01'),
+      });
+      expect(parseFilterExpression(`id eq guid'${guid.toUpperCase()}'`)).toMatchObject({ value: guid });
+      expect(() => parseFilterExpression("id eq guid'123'")).toThrow(
+        expect.objectContaining({ position: 10 }),
+      );
+    });
+
+    it('should report the position of the offending token', () => {
+      expect(() => parseFilterExpression('a eq 1 and b like 2')).toThrow(
+        expect.objectContaining({ position: 13, token: 'like' }),
+      );
+      expect(() => parseFilterExpression("a eq 'open")).toThrow(FilterSyntaxError);
+      expect(() => parseFilterExpression('(a eq 1')).toThrow(FilterSyntaxError);
+    });
+  });
+
+  describe('limits', () => {
+    it('should enforce depth, predicate, list and string limits at the offending token', () => {
+      expect(() => parseFilterExpression('((a eq 1))', { maxDepth: 1 })).toThrow(
+        expect.objectContaining({ position: 1, token: '(' }),
+      );
+      expect(() => parseFilterExpression('not not a eq 1', { maxDepth: 1 })).toThrow(FilterSyntaxError);
+      expect(() => parseFilterExpression('a eq 1 or b eq 2 or c eq 3', { maxPredicates: 2 })).toThrow(
+        expect.objectContaining({ position: 20, token: 'c' }),
+      );
+      expect(() => parseFilterExpression('a in (1, 2, 3)', { maxInListLength: 2 })).toThrow(
+        expect.objectContaining({ position: 12, token: '3' }),
+      );
+      expect(() => parseFilterExpression("a eq 'abcd'", { maxStringLength: 3 })).toThrow(
+        expect.objectContaining({ position: 5 }),
+      );
+      const limits = { maxDepth: 1, maxPredicates: 2, maxInListLength: 2, maxStringLength: 3 };
+      expect(parseFilterExpression("(a in (1, 2)) and b eq 'abc'", limits)).not.toBeNull();
+    });
+  });
+
+  describe('printFilterExpression', () => {
+    it.each([
+      "status eq 'a' or status eq 'b'",
+      "(status eq 'a' or status eq 'b') and age gt 18",
+      "not (email isNull) and tags notIn ('x,y', 'it''s', 'back\\\\slash')",
+      "code eq '123' and count eq 123 and flag eq true and other eq null",
+      "orders/any(o: o/status eq 'open' or o/lines/all(l: l/qty gt 0)) and not (tags/any())",
+      "month(createdAt) in (1, 2) and updatedAt lt 2026-01-01T00:00:00.000Z and name icontains 'x'",
+    ])('should round-trip %s', (expression) => {
+      const tree = parseFilterExpression(expression);
+      expect(tree).not.toBeNull();
+      const printed = printFilterExpression(tree!);
+      expect(printed).toEqual(expression);
+      expect(parseFilterExpression(printed)).toEqual(tree);
+    });
+  });
+
+  describe('function filter helpers', () => {
+    it('should build function and case-insensitive filters', () => {
+      const { filter } = buildFilterQueryParams([
+        buildFunctionFilter(FilterFunction.YEAR, 'createdAt', FilterOperator.EQ, 2026),
+        buildCaseInsensitiveFilter('email', 'A@B.C'),
+        buildCaseInsensitiveFilter('name', 'Ann', FilterOperator.CONTAINS),
+      ]);
+
+      expect(filter).toBe("year(createdAt) eq 2026 and tolower(email) eq 'a@b.c' and name icontains 'Ann'");
+    });
+  });
+
+  describe('buildFilterQueryParams', () => {
+    it('should quote values the backend parser can read back', () => {
+      const { filter } = buildFilterQueryParams([
+        { prop: 'tags', operator: FilterOperator.IN, value: ['foo,bar', 'baz'] },
+        { prop: 'code', operator: FilterOperator.EQ, value: '007' },
+      ]);
+
+      expect(parseFilterExpression(filter)).toEqual({
+        kind: 'and',
+        operands: [
+          { kind: 'comparison', prop: 'tags', operator: FilterOperator.IN, value: ['foo,bar', 'baz'] },
+          { kind: 'comparison', prop: 'code', operator: FilterOperator.EQ, value: '007' },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,607 @@
+/**
+ * OData Filter Parser
+ * Single grammar for filter expressions: lexer, parser and printer shared by frontend and backend
+ */
+
+import {
+  FilterComparisonNode,
+  FilterFunction,
+  FilterLambdaNode,
+  FilterLimits,
+  FilterNode,
+  FilterOperator,
+  FilterPrimitive,
+} from '../models/odata-filter.models';
+
+/**
+ * Error thrown when a filter expression cannot be parsed or exceeds the configured limits
+ */
+export class FilterSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number,
+    public readonly token?: string,
+    public readonly option = 'filter',
+  ) {
+    super(message);
+    this.name = 'FilterSyntaxError';
+    Object.setPrototypeOf(this, FilterSyntaxError.prototype);
+  }
+}
+
+type FilterTokenType = 'word' | 'string' | 'punctuation';
+
+/**
+ * Lexical token with its offset in the source expression
+ */
+interface FilterToken {
+  type: FilterTokenType;
+  text: string;
+  value: string;
+  position: number;
+}
+
+/**
+ * Property names allowed in filter expressions
+ */
+const PROPERTY_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Check whether a name can be used as a property in query expressions
+ * @param name Property name
+ * @returns True for plain identifiers
+ */
+export function isValidPropertyName(name: string): boolean {
+  return PROPERTY_NAME_PATTERN.test(name);
+}
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+
+/**
+ * ISO 8601 date or date-time (e.g. 2026-01-01, 2026-01-01T00:00:00Z, 2026-01-01T10:30:00.000+02:00)
+ */
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const PUNCTUATION = ['(', ')', ','];
+
+/**
+ * Split a filter expression into tokens
+ * Strings may be quoted with ' or "; the quote is escaped by doubling it or with a backslash.
+ * @param expression Filter expression
+ * @returns Array of tokens
+ */
+function tokenize(expression: string): FilterToken[] {
+  const tokens: FilterToken[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (PUNCTUATION.includes(char)) {
+      tokens.push({ type: 'punctuation', text: char, value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      const start = i;
+      let value = '';
+      i++;
+      for (;;) {
+        if (i >= expression.length) {
+          throw new FilterSyntaxError('Unterminated string literal', start, expression.slice(start));
+        }
+        const current = expression[i];
+        const next = expression[i + 1];
+        if (current === '\\' && (next === char || next === '\\')) {
+          value += next;
+          i += 2;
+        } else if (current === char && next === char) {
+          value += char;
+          i += 2;
+        } else if (current === char) {
+          i++;
+          break;
+        } else {
+          value += current;
+          i++;
+        }
+      }
+      tokens.push({ type: 'string', text: expression.slice(start, i), value, position: start });
+      continue;
+    }
+
+    const start = i;
+    while (
+      i < expression.length &&
+      !/\s/.test(expression[i]) &&
+      !PUNCTUATION.includes(expression[i]) &&
+      expression[i] !== "'" &&
+      expression[i] !== '"'
+    ) {
+      i++;
+    }
+    const text = expression.slice(start, i);
+    tokens.push({ type: 'word', text, value: text, position: start });
+  }
+
+  return tokens;
+}
+
+/**
+ * Resolve an operator token to a FilterOperator (case-insensitive)
+ * @param token Operator token
+ * @returns Matching operator or undefined
+ */
+function parseOperator(token: string): FilterOperator | undefined {
+  const lowerToken = token.toLowerCase();
+  return Object.values(FilterOperator).find((operator) => operator.toLowerCase() === lowerToken);
+}
+
+/**
+ * Resolve a function name token to a FilterFunction (case-insensitive)
+ * @param token Function name token
+ * @returns Matching function or undefined
+ */
+function parseFunction(token: string): FilterFunction | undefined {
+  const lowerToken = token.toLowerCase();
+  return Object.values(FilterFunction).find((name) => name === lowerToken);
+}
+
+/**
+ * Parse an ISO 8601 date or date-time literal
+ * @param text Literal text
+ * @returns Date, or undefined when the text is not a valid date
+ */
+function parseDateTime(text: string): Date | undefined {
+  if (!DATE_TIME_PATTERN.test(text)) {
+    return undefined;
+  }
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Recursive descent parser for filter expressions.
+ *
+ * Grammar (lowest to highest precedence):
+ *   or         := and ('or' and)*
+ *   and        := unary ('and' unary)*
+ *   unary      := 'not' unary | primary
+ *   primary    := '(' or ')' | lambda | comparison
+ *   lambda     := prop '/' ('any' | 'all') '(' [variable ':' or] ')'
+ *   comparison := operand operator value | operand ('isNull' | 'isNotNull') | operand ('in' | 'notIn') '(' [value (',' value)*] ')'
+ *   operand    := prop | function '(' operand ')'
+ *   value      := string | number | true | false | null | datetime | "guid'...'" | "datetime'...'"
+ *
+ * Inside a lambda, properties are prefixed with the lambda variable ("o/status" or "o.status").
+ * Nested logical nodes of the same kind are flattened, so the resulting tree is canonical.
+ */
+class FilterParser {
+  private index = 0;
+  private depth = 0;
+  private predicates = 0;
+
+  // Variables of the enclosing lambdas, innermost last
+  private readonly variables: string[] = [];
+
+  constructor(
+    private readonly tokens: FilterToken[],
+    private readonly expressionLength: number,
+    private readonly limits: FilterLimits,
+  ) {}
+
+  parse(): FilterNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token) {
+      this.fail(`Unexpected token '${token.text}'`, token);
+    }
+    return node;
+  }
+
+  private parseOr(): FilterNode {
+    const operands = [this.parseAnd()];
+    while (this.acceptKeyword('or')) {
+      operands.push(this.parseAnd());
+    }
+    return this.combine('or', operands);
+  }
+
+  private parseAnd(): FilterNode {
+    const operands = [this.parseUnary()];
+    while (this.acceptKeyword('and')) {
+      operands.push(this.parseUnary());
+    }
+    return this.combine('and', operands);
+  }
+
+  private parseUnary(): FilterNode {
+    const token = this.peek();
+    if (this.acceptKeyword('not')) {
+      return this.nested(token, () => ({ kind: 'not', operand: this.parseUnary() }));
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FilterNode {
+    const token = this.peek();
+    if (this.acceptPunctuation('(')) {
+      return this.nested(token, () => {
+        const node = this.parseOr();
+        this.expectPunctuation(')');
+        return node;
+      });
+    }
+    return this.parseComparison();
+  }
+
+  /**
+   * Parse a nested construct, enforcing the maximum depth
+   */
+  private nested<N>(token: FilterToken | undefined, parse: () => N): N {
+    const { maxDepth } = this.limits;
+    if (maxDepth !== undefined && ++this.depth > maxDepth) {
+      this.fail(`Expression exceeds the maximum depth of ${maxDepth}`, token);
+    }
+    const node = parse();
+    this.depth--;
+    return node;
+  }
+
+  private parseComparison(): FilterComparisonNode | FilterLambdaNode {
+    const propToken = this.next('property name');
+    const { maxPredicates } = this.limits;
+    if (maxPredicates !== undefined && ++this.predicates > maxPredicates) {
+      this.fail(`Expression exceeds the maximum of ${maxPredicates} predicates`, propToken);
+    }
+    let functions: FilterFunction[] = [];
+    let prop: string;
+
+    const functionName = propToken.type === 'word' ? parseFunction(propToken.value) : undefined;
+    if (functionName && this.peek()?.text === '(') {
+      ({ prop, functions } = this.parseFunctionCall(functionName));
+    } else {
+      const path = this.resolvePropertyPath(propToken);
+      const lambdaOperator = path.length === 2 ? path[1].toLowerCase() : undefined;
+
+      if (lambdaOperator === 'any' || lambdaOperator === 'all') {
+        return this.parseLambda(path[0], lambdaOperator, propToken);
+      }
+      if (path.length !== 1) {
+        this.fail(`Invalid property name '${propToken.text}'`, propToken);
+      }
+      prop = path[0];
+    }
+
+    const operatorToken = this.next('operator');
+    const operator = operatorToken.type === 'word' ? parseOperator(operatorToken.value) : undefined;
+    if (!operator) {
+      this.fail(`Unknown operator '${operatorToken.text}'`, operatorToken);
+    }
+
+    const comparison = (value: FilterPrimitive | FilterPrimitive[]): FilterComparisonNode =>
+      functions.length > 0
+        ? { kind: 'comparison', prop, operator, value, functions }
+        : { kind: 'comparison', prop, operator, value };
+
+    if (operator === FilterOperator.IS_NULL || operator === FilterOperator.IS_NOT_NULL) {
+      return comparison(null);
+    }
+
+    if (operator === FilterOperator.IN || operator === FilterOperator.NOT_IN) {
+      this.expectPunctuation('(');
+      const values: FilterPrimitive[] = [];
+      const { maxInListLength } = this.limits;
+      if (!this.acceptPunctuation(')')) {
+        do {
+          if (maxInListLength !== undefined && values.length >= maxInListLength) {
+            this.fail(`List exceeds the maximum of ${maxInListLength} values`, this.peek());
+          }
+          values.push(this.parseLiteral());
+        } while (this.acceptPunctuation(','));
+        this.expectPunctuation(')');
+      }
+      return comparison(values);
+    }
+
+    return comparison(this.parseLiteral());
+  }
+
+  /**
+   * Parse the argument of a function call whose name was already consumed
+   * @returns Property and the functions applied to it, innermost first
+   */
+  private parseFunctionCall(name: FilterFunction): { prop: string; functions: FilterFunction[] } {
+    return this.nested(this.peek(), () => this.parseFunctionArgument(name));
+  }
+
+  private parseFunctionArgument(name: FilterFunction): { prop: string; functions: FilterFunction[] } {
+    this.expectPunctuation('(');
+    const argumentToken = this.next('function argument');
+    const innerName = argumentToken.type === 'word' ? parseFunction(argumentToken.value) : undefined;
+
+    let result: { prop: string; functions: FilterFunction[] };
+    if (innerName && this.peek()?.text === '(') {
+      result = this.parseFunctionCall(innerName);
+    } else {
+      const path = this.resolvePropertyPath(argumentToken);
+      if (path.length !== 1) {
+        this.fail(`Invalid property name '${argumentToken.text}'`, argumentToken);
+      }
+      result = { prop: path[0], functions: [] };
+    }
+
+    this.expectPunctuation(')');
+    return { prop: result.prop, functions: [...result.functions, name] };
+  }
+
+  /**
+   * Split a property token into its path segments, removing the lambda variable prefix
+   */
+  private resolvePropertyPath(token: FilterToken): string[] {
+    if (token.type !== 'word') {
+      this.fail(`Invalid property name '${token.text}'`, token);
+    }
+
+    let text = token.value;
+    const variable = this.variables[this.variables.length - 1];
+    if (variable !== undefined) {
+      const prefix = text.slice(0, variable.length + 1);
+      if (prefix !== `${variable}/` && prefix !== `${variable}.`) {
+        this.fail(`Property '${token.text}' must be prefixed with the lambda variable '${variable}'`, token);
+      }
+      text = text.slice(variable.length + 1);
+    }
+
+    const path = text.split('/');
+    const lastIndex = path.length - 1;
+    if (path.some((segment, index) => !isValidPropertyName(segment) && !(index === lastIndex && index > 0))) {
+      this.fail(`Invalid property name '${token.text}'`, token);
+    }
+    return path;
+  }
+
+  private parseLambda(prop: string, kind: 'any' | 'all', propToken: FilterToken): FilterLambdaNode {
+    this.expectPunctuation('(');
+
+    if (this.acceptPunctuation(')')) {
+      if (kind === 'all') {
+        this.fail(`'all' requires a lambda expression`, propToken);
+      }
+      return { kind, prop };
+    }
+
+    // The variable is written as "o:" and may be glued to the first property ("o:o/status")
+    const variableToken = this.next('lambda variable');
+    const match = variableToken.type === 'word' ? /^([A-Za-z_][A-Za-z0-9_]*):(.*)$/.exec(variableToken.value) : null;
+    if (!match) {
+      this.fail(`Expected lambda variable followed by ':' but found '${variableToken.text}'`, variableToken);
+    }
+    const [, variable, rest] = match;
+    if (rest) {
+      const position = variableToken.position + variable.length + 1;
+      this.tokens.splice(this.index, 0, { type: 'word', text: rest, value: rest, position });
+    }
+
+    this.variables.push(variable);
+    const predicate = this.nested(propToken, () => this.parseOr());
+    this.variables.pop();
+    this.expectPunctuation(')');
+
+    return { kind, prop, variable, predicate };
+  }
+
+  private parseLiteral(): FilterPrimitive {
+    const token = this.next('value');
+
+    const { maxStringLength } = this.limits;
+    if (maxStringLength !== undefined && token.value.length > maxStringLength) {
+      this.fail(`Value exceeds the maximum length of ${maxStringLength} characters`, token);
+    }
+
+    if (token.type === 'string') {
+      return token.value;
+    }
+    if (token.type === 'punctuation') {
+      this.fail(`Expected value but found '${token.text}'`, token);
+    }
+
+    // Typed literals: guid'...' and datetime'...'
+    const typed = this.peek();
+    const prefix = token.value.toLowerCase();
+    const isTyped = typed?.type === 'string' && typed.position === token.position + token.text.length;
+    if (isTyped && (prefix === 'guid' || prefix === 'datetime')) {
+      this.index++;
+      if (prefix === 'guid') {
+        if (!GUID_PATTERN.test(typed.value)) {
+          this.fail(`Invalid guid literal '${typed.value}'`, typed);
+        }
+        return typed.value.toLowerCase();
+      }
+      const date = parseDateTime(typed.value);
+      if (!date) {
+        this.fail(`Invalid datetime literal '${typed.value}'`, typed);
+      }
+      return date;
+    }
+
+    if (token.value === 'null') return null;
+    if (token.value === 'true') return true;
+    if (token.value === 'false') return false;
+    if (NUMBER_PATTERN.test(token.value)) {
+      return Number(token.value);
+    }
+
+    const date = parseDateTime(token.value);
+    if (date) {
+      return date;
+    }
+
+    // Unquoted words are accepted as strings (e.g. "status eq active")
+    return token.value;
+  }
+
+  private combine(kind: 'and' | 'or', operands: FilterNode[]): FilterNode {
+    if (operands.length === 1) {
+      return operands[0];
+    }
+    return {
+      kind,
+      operands: operands.flatMap((operand) => (operand.kind === kind ? operand.operands : [operand])),
+    };
+  }
+
+  private peek(): FilterToken | undefined {
+    return this.tokens[this.index];
+  }
+
+  private acceptPunctuation(text: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'punctuation' && token.text === text) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'word' && token.value.toLowerCase() === keyword) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunctuation(text: string): void {
+    if (!this.acceptPunctuation(text)) {
+      const token = this.peek();
+      this.fail(token ? `Expected '${text}' but found '${token.text}'` : `Expected '${text}'`, token);
+    }
+  }
+
+  private next(description: string): FilterToken {
+    const token = this.peek();
+    if (!token) {
+      this.fail(`Expected ${description} but reached end of expression`);
+    }
+    this.index++;
+    return token;
+  }
+
+  private fail(message: string, token?: FilterToken): never {
+    // Long tokens are truncated so error responses stay small
+    const text = token && token.text.length > 50 ? `${token.text.slice(0, 50)}...` : token?.text;
+    throw new FilterSyntaxError(message, token ? token.position : this.expressionLength, text);
+  }
+}
+
+/**
+ * Parse a filter expression into a FilterNode tree
+ * @param expression Filter expression (e.g., "status eq 'a' or (age gt 18 and not (isActive eq false))")
+ * @param limits Depth, predicate, list and string limits (none by default)
+ * @returns Expression tree, or null for an empty expression
+ * @throws FilterSyntaxError when the expression is malformed or exceeds a limit
+ */
+export function parseFilterExpression(expression: string, limits: FilterLimits = {}): FilterNode | null {
+  const tokens = tokenize(expression);
+  if (tokens.length === 0) {
+    return null;
+  }
+  return new FilterParser(tokens, expression.length, limits).parse();
+}
+
+/**
+ * Format a literal value for a filter expression. Strings are always quoted.
+ * @param value Literal value
+ * @returns Formatted literal
+ */
+export function formatFilterLiteral(value: FilterPrimitive): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "''")}'`;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
+
+/**
+ * Print a comparison node
+ * @param node Comparison node
+ * @param variable Variable of the enclosing lambda
+ * @returns Filter expression (e.g., "email eq 'test@test.com'")
+ */
+function printComparison(node: FilterComparisonNode, variable?: string): string {
+  const { operator, value } = node;
+  const prop = (node.functions ?? []).reduce(
+    (operand, name) => `${name}(${operand})`,
+    variable ? `${variable}/${node.prop}` : node.prop,
+  );
+
+  if (operator === FilterOperator.IS_NULL || operator === FilterOperator.IS_NOT_NULL) {
+    return `${prop} ${operator}`;
+  }
+
+  if (Array.isArray(value)) {
+    return `${prop} ${operator} (${value.map(formatFilterLiteral).join(', ')})`;
+  }
+
+  return `${prop} ${operator} ${formatFilterLiteral(value)}`;
+}
+
+/**
+ * Print a FilterNode tree as a filter expression.
+ * parseFilterExpression(printFilterExpression(node)) returns a tree equal to node
+ * for any tree produced by parseFilterExpression.
+ * @param node Expression tree
+ * @returns Filter expression
+ */
+export function printFilterExpression(node: FilterNode): string {
+  return printNode(node);
+}
+
+/**
+ * Print a node, prefixing properties with the variable of the enclosing lambda
+ */
+function printNode(node: FilterNode, variable?: string): string {
+  switch (node.kind) {
+    case 'comparison':
+      return printComparison(node, variable);
+
+    case 'any':
+    case 'all': {
+      const prop = variable ? `${variable}/${node.prop}` : node.prop;
+      const lambda = node.predicate
+        ? `${node.variable}: ${printNode(node.predicate, node.variable)}`
+        : '';
+      return `${prop}/${node.kind}(${lambda})`;
+    }
+
+    case 'not':
+      return node.operand.kind === 'not'
+        ? `not ${printNode(node.operand, variable)}`
+        : `not (${printNode(node.operand, variable)})`;
+
+    case 'and':
+      return node.operands
+        .map((operand) =>
+          operand.kind === 'or' ? `(${printNode(operand, variable)})` : printNode(operand, variable),
+        )
+        .join(' and ');
+
+    case 'or':
+      return node.operands.map((operand) => printNode(operand, variable)).join(' or ');
+  }
+}
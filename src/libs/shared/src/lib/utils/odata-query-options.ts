@@ -0,0 +1,589 @@
+/**
+ * OData Query Options Utilities
+ * Parse and build $filter, $orderby, $select, $expand, $apply, $search, $top, $skip and $count query parameters
+ */
+
+import {
+  AggregateExpression,
+  AggregateMethod,
+  ApplyGroupByTransformation,
+  ApplyTransformation,
+  ComputeExpression,
+  ExpandItem,
+  ODataQueryOptions,
+  OrderByItem,
+  SortDirection,
+} from '../models/odata-query.models';
+import { FilterFunction, FilterLimits, FilterNode } from '../models/odata-filter.models';
+import {
+  FilterSyntaxError,
+  isValidPropertyName,
+  parseFilterExpression,
+  printFilterExpression,
+} from './odata-filter-parser';
+
+/**
+ * Error thrown when a query option has an invalid value
+ */
+export class QueryOptionError extends Error {
+  constructor(
+    message: string,
+    public readonly option: string,
+  ) {
+    super(message);
+    this.name = 'QueryOptionError';
+    Object.setPrototypeOf(this, QueryOptionError.prototype);
+  }
+}
+
+/**
+ * Read a query option, accepting both the "$name" and the plain "name" form
+ * @param query Query parameters object
+ * @param name Option name without "$"
+ * @returns Option value, or undefined when absent
+ */
+function readOption(query: Record<string, unknown>, name: string): string | undefined {
+  const value = query[`$${name}`] ?? query[name];
+
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  if (typeof value !== 'string') {
+    throw new QueryOptionError(`$${name} must be specified once`, name);
+  }
+
+  return value;
+}
+
+/**
+ * Parse a non-negative integer option
+ * @param value Raw option value
+ * @param name Option name
+ * @returns Parsed integer
+ */
+function parseNonNegativeInteger(value: string, name: string): number {
+  const parsed = Number(value.trim());
+  // Larger values lose precision and overflow the bigint OFFSET/LIMIT of the database
+  if (!/^\d+$/.test(value.trim()) || !Number.isSafeInteger(parsed)) {
+    throw new QueryOptionError(`$${name} must be a non-negative integer up to ${Number.MAX_SAFE_INTEGER}`, name);
+  }
+  return parsed;
+}
+
+/**
+ * Parse a comma-separated list of property names
+ * @param value Raw option value
+ * @param name Option name
+ * @returns Property names
+ */
+function parsePropertyList(value: string, name: string): string[] {
+  return value.split(',').map((item) => {
+    const prop = item.trim();
+    if (!isValidPropertyName(prop)) {
+      throw new QueryOptionError(`Invalid property '${prop}' in $${name}`, name);
+    }
+    return prop;
+  });
+}
+
+/**
+ * Parse an $orderby expression (e.g., "createdAt desc, lastName")
+ * @param value Raw option value
+ * @returns Order by items
+ */
+export function parseOrderBy(value: string): OrderByItem[] {
+  return value.split(',').map((item) => {
+    const [prop, direction = 'asc', ...rest] = item.trim().split(/\s+/);
+    const normalizedDirection = direction.toLowerCase();
+
+    if (!isValidPropertyName(prop)) {
+      throw new QueryOptionError(`Invalid property '${prop}' in $orderby`, 'orderby');
+    }
+    if (rest.length > 0 || (normalizedDirection !== 'asc' && normalizedDirection !== 'desc')) {
+      throw new QueryOptionError(`Invalid sort direction in $orderby: '${item.trim()}'`, 'orderby');
+    }
+
+    return { prop, direction: normalizedDirection as SortDirection };
+  });
+}
+
+/**
+ * Print $orderby items
+ * @param orderBy Order by items
+ * @returns $orderby expression
+ */
+export function printOrderBy(orderBy: OrderByItem[]): string {
+  return orderBy.map(({ prop, direction }) => `${prop} ${direction}`).join(',');
+}
+
+/**
+ * Part of a split option value with its offset in the original value
+ */
+interface OptionPart {
+  text: string;
+  offset: number;
+}
+
+/**
+ * Trim a slice of a value, keeping track of where the trimmed text starts
+ */
+function trimmedPart(value: string, start: number, end: number): OptionPart {
+  const raw = value.slice(start, end);
+  const text = raw.trim();
+  return { text, offset: start + (text ? raw.indexOf(text) : 0) };
+}
+
+/**
+ * Split a value on a separator, ignoring separators inside quotes or parentheses
+ * @param value Raw option value
+ * @param separator Separator character
+ * @param option Option name used in error messages
+ * @returns Trimmed parts with their offsets
+ */
+function splitTopLevel(value: string, separator: string, option: string): OptionPart[] {
+  const parts: OptionPart[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+      if (depth < 0) {
+        throw new QueryOptionError(`Unbalanced parentheses in $${option}`, option);
+      }
+    } else if (char === separator && depth === 0) {
+      parts.push(trimmedPart(value, start, i));
+      start = i + 1;
+    }
+  }
+
+  if (depth !== 0 || quote) {
+    throw new QueryOptionError(`Unbalanced parentheses or quotes in $${option}`, option);
+  }
+
+  parts.push(trimmedPart(value, start, value.length));
+  return parts;
+}
+
+/**
+ * Parse a filter nested in $expand or $apply, reporting errors at their position in the option value
+ */
+function parseNestedFilter(
+  value: string,
+  offset: number,
+  limits: FilterLimits,
+  option = 'expand',
+): FilterNode | null {
+  try {
+    return parseFilterExpression(value, limits);
+  } catch (error) {
+    if (error instanceof FilterSyntaxError) {
+      throw new FilterSyntaxError(error.message, offset + error.position, error.token, option);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse an $expand expression (e.g., "orders($filter=total gt 10;$orderby=createdAt desc),profile")
+ * @param value Raw option value
+ * @param filterLimits Limits applied to nested $filter expressions
+ * @param baseOffset Offset of value in the top-level $expand value
+ * @returns Expand items
+ */
+export function parseExpand(value: string, filterLimits: FilterLimits = {}, baseOffset = 0): ExpandItem[] {
+  return splitTopLevel(value, ',', 'expand').map(({ text: part, offset: partOffset }) => {
+    const match = /^([^()\s]+)\s*(?:\(([\s\S]*)\))?$/.exec(part);
+    if (!match || !isValidPropertyName(match[1])) {
+      throw new QueryOptionError(`Invalid item '${part}' in $expand`, 'expand');
+    }
+
+    const item: ExpandItem = { prop: match[1] };
+    const nestedOptions = match[2];
+    if (!nestedOptions?.trim()) {
+      return item;
+    }
+    const nestedOffset = baseOffset + partOffset + part.indexOf('(', match[1].length) + 1;
+
+    splitTopLevel(nestedOptions, ';', 'expand').forEach(({ text: option, offset: optionOffset }) => {
+      const separatorIndex = option.indexOf('=');
+      const name = option.slice(0, separatorIndex).trim().replace(/^\$/, '').toLowerCase();
+      const { text: optionValue, offset: valueOffset } = trimmedPart(option, separatorIndex + 1, option.length);
+      const absoluteOffset = nestedOffset + optionOffset + valueOffset;
+
+      if (separatorIndex < 0 || !optionValue) {
+        throw new QueryOptionError(`Invalid option '${option}' in $expand of '${item.prop}'`, 'expand');
+      }
+
+      switch (name) {
+        case 'filter':
+          item.filter = parseNestedFilter(optionValue, absoluteOffset, filterLimits);
+          break;
+        case 'orderby':
+          item.orderBy = parseOrderBy(optionValue);
+          break;
+        case 'expand':
+          item.expand = parseExpand(optionValue, filterLimits, absoluteOffset);
+          break;
+        default:
+          throw new QueryOptionError(`Unsupported option '$${name}' in $expand of '${item.prop}'`, 'expand');
+      }
+    });
+
+    return item;
+  });
+}
+
+/**
+ * Print $expand items
+ * @param expand Expand items
+ * @returns $expand expression
+ */
+export function printExpand(expand: ExpandItem[]): string {
+  return expand
+    .map((item) => {
+      const nestedOptions: string[] = [];
+      if (item.filter) {
+        nestedOptions.push(`$filter=${printFilterExpression(item.filter)}`);
+      }
+      if (item.orderBy && item.orderBy.length > 0) {
+        nestedOptions.push(`$orderby=${printOrderBy(item.orderBy)}`);
+      }
+      if (item.expand && item.expand.length > 0) {
+        nestedOptions.push(`$expand=${printExpand(item.expand)}`);
+      }
+      return nestedOptions.length > 0 ? `${item.prop}(${nestedOptions.join(';')})` : item.prop;
+    })
+    .join(',');
+}
+
+/**
+ * Compute the nesting depth of $expand items
+ * @param expand Expand items
+ * @returns Depth (0 when nothing is expanded)
+ */
+export function getExpandDepth(expand: ExpandItem[] | undefined): number {
+  if (!expand || expand.length === 0) {
+    return 0;
+  }
+  return 1 + Math.max(...expand.map((item) => getExpandDepth(item.expand)));
+}
+
+const FILTER_FUNCTIONS: string[] = Object.values(FilterFunction);
+
+const AGGREGATE_METHODS: AggregateMethod[] = ['sum', 'avg', 'min', 'max', 'countdistinct'];
+
+/**
+ * Split an "<expression> as <alias>" item of $apply
+ * @param item Raw item
+ * @returns Expression and alias
+ */
+function splitAlias(item: string): [string, string] {
+  const match = /^([\s\S]+?)\s+as\s+(\S+)$/i.exec(item);
+  if (!match || !isValidPropertyName(match[2])) {
+    throw new QueryOptionError(`Missing or invalid alias in '${item}' in $apply`, 'apply');
+  }
+  return [match[1].trim(), match[2]];
+}
+
+/**
+ * Parse a compute expression (e.g., "month(createdAt) as month")
+ * @param item Raw item
+ * @returns Compute expression with functions innermost first
+ */
+function parseComputeExpression(item: string): ComputeExpression {
+  const [expression, alias] = splitAlias(item);
+  const functions: FilterFunction[] = [];
+  let operand = expression;
+  let match: RegExpExecArray | null;
+
+  while ((match = /^(\w+)\s*\(([\s\S]*)\)$/.exec(operand))) {
+    const name = match[1].toLowerCase();
+    if (!FILTER_FUNCTIONS.includes(name)) {
+      throw new QueryOptionError(`Unknown function '${match[1]}' in $apply`, 'apply');
+    }
+    functions.unshift(name as FilterFunction);
+    operand = match[2].trim();
+  }
+
+  if (!isValidPropertyName(operand) || functions.length === 0) {
+    throw new QueryOptionError(`Invalid compute expression '${expression}' in $apply`, 'apply');
+  }
+
+  return { prop: operand, functions, alias };
+}
+
+/**
+ * Parse a list of aggregate expressions (e.g., "$count as total,amount with sum as amount")
+ * @param value Raw list
+ * @returns Aggregate expressions
+ */
+function parseAggregateList(value: string): AggregateExpression[] {
+  return splitTopLevel(value, ',', 'apply').map(({ text }) => {
+    const [expression, alias] = splitAlias(text);
+    if (expression === '$count') {
+      return { method: 'count', alias };
+    }
+
+    const match = /^(\S+)\s+with\s+(\w+)$/i.exec(expression);
+    const method = match?.[2].toLowerCase() as AggregateMethod;
+    if (!match || !isValidPropertyName(match[1]) || !AGGREGATE_METHODS.includes(method)) {
+      throw new QueryOptionError(`Invalid aggregate expression '${expression}' in $apply`, 'apply');
+    }
+    return { prop: match[1], method, alias };
+  });
+}
+
+/**
+ * Parse an $apply pipeline (e.g., "filter(isActive eq true)/groupby((isActive),aggregate($count as total))").
+ * Transformations run in order; groupby and aggregate can only be the last one.
+ * @param value Raw option value
+ * @param filterLimits Limits applied to filter transformations
+ * @returns Transformations
+ */
+export function parseApply(value: string, filterLimits: FilterLimits = {}): ApplyTransformation[] {
+  const transformations = splitTopLevel(value, '/', 'apply').map(({ text, offset }): ApplyTransformation => {
+    const match = /^(\w+)\s*\(([\s\S]*)\)$/.exec(text);
+    if (!match) {
+      throw new QueryOptionError(`Invalid transformation '${text}' in $apply`, 'apply');
+    }
+    const args = match[2];
+
+    switch (match[1].toLowerCase()) {
+      case 'filter': {
+        const { text: expression, offset: expressionOffset } = trimmedPart(args, 0, args.length);
+        const argsOffset = offset + text.indexOf('(') + 1;
+        const filter = parseNestedFilter(expression, argsOffset + expressionOffset, filterLimits, 'apply');
+        if (!filter) {
+          throw new QueryOptionError('Empty filter transformation in $apply', 'apply');
+        }
+        return { kind: 'filter', filter };
+      }
+
+      case 'compute':
+        return {
+          kind: 'compute',
+          compute: splitTopLevel(args, ',', 'apply').map((item) => parseComputeExpression(item.text)),
+        };
+
+      case 'groupby': {
+        const [props, aggregate, ...rest] = splitTopLevel(args, ',', 'apply');
+        const propsMatch = /^\(([\s\S]*)\)$/.exec(props.text);
+        const aggregateMatch = aggregate ? /^aggregate\s*\(([\s\S]*)\)$/i.exec(aggregate.text) : null;
+        if (!propsMatch || (aggregate && !aggregateMatch) || rest.length > 0) {
+          throw new QueryOptionError(`Invalid transformation '${text}' in $apply`, 'apply');
+        }
+
+        const groupBy: ApplyGroupByTransformation = {
+          kind: 'groupby',
+          groupBy: parsePropertyList(propsMatch[1], 'apply'),
+        };
+        if (aggregateMatch) {
+          groupBy.aggregate = parseAggregateList(aggregateMatch[1]);
+        }
+        return groupBy;
+      }
+
+      case 'aggregate':
+        return { kind: 'aggregate', aggregate: parseAggregateList(args) };
+
+      default:
+        throw new QueryOptionError(`Unsupported transformation '${match[1]}' in $apply`, 'apply');
+    }
+  });
+
+  transformations.forEach(({ kind }, index) => {
+    if ((kind === 'groupby' || kind === 'aggregate') && index !== transformations.length - 1) {
+      throw new QueryOptionError(`'${kind}' must be the last transformation in $apply`, 'apply');
+    }
+  });
+
+  return transformations;
+}
+
+/**
+ * Print an aggregate expression
+ */
+function printAggregate({ prop, method, alias }: AggregateExpression): string {
+  return method === 'count' ? `$count as ${alias}` : `${prop} with ${method} as ${alias}`;
+}
+
+/**
+ * Print $apply transformations
+ * @param apply Transformations
+ * @returns $apply expression
+ */
+export function printApply(apply: ApplyTransformation[]): string {
+  return apply
+    .map((transformation) => {
+      switch (transformation.kind) {
+        case 'filter':
+          return `filter(${printFilterExpression(transformation.filter)})`;
+        case 'compute': {
+          const items = transformation.compute.map(({ prop, functions, alias }) => {
+            const expression = functions.reduce((inner, name) => `${name}(${inner})`, prop);
+            return `${expression} as ${alias}`;
+          });
+          return `compute(${items.join(',')})`;
+        }
+        case 'groupby': {
+          const aggregate = transformation.aggregate?.length
+            ? `,aggregate(${transformation.aggregate.map(printAggregate).join(',')})`
+            : '';
+          return `groupby((${transformation.groupBy.join(',')})${aggregate})`;
+        }
+        case 'aggregate':
+          return `aggregate(${transformation.aggregate.map(printAggregate).join(',')})`;
+      }
+    })
+    .join('/');
+}
+
+/**
+ * Parse OData query options from query parameters
+ * @param query Query parameters object
+ * @param filterLimits Limits applied to $filter, $expand and $apply filters; maxStringLength also bounds $search
+ * @returns Parsed query options (absent options are left undefined)
+ * @throws FilterSyntaxError when a filter is malformed or exceeds a limit
+ * @throws QueryOptionError when another option is invalid
+ */
+export function parseODataQueryOptions(
+  query: Record<string, unknown>,
+  filterLimits: FilterLimits = {},
+): ODataQueryOptions {
+  const options: ODataQueryOptions = {};
+
+  const filter = readOption(query, 'filter');
+  if (filter !== undefined) {
+    options.filter = parseFilterExpression(filter, filterLimits);
+  }
+
+  const orderBy = readOption(query, 'orderby');
+  if (orderBy !== undefined) {
+    options.orderBy = parseOrderBy(orderBy);
+  }
+
+  const select = readOption(query, 'select');
+  if (select !== undefined) {
+    options.select = parsePropertyList(select, 'select');
+  }
+
+  const expand = readOption(query, 'expand');
+  if (expand !== undefined) {
+    options.expand = parseExpand(expand, filterLimits);
+  }
+
+  const apply = readOption(query, 'apply');
+  if (apply !== undefined) {
+    options.apply = parseApply(apply, filterLimits);
+  }
+
+  const search = readOption(query, 'search')?.trim();
+  if (search) {
+    if (filterLimits.maxStringLength !== undefined && search.length > filterLimits.maxStringLength) {
+      throw new QueryOptionError(`$search cannot be longer than ${filterLimits.maxStringLength} characters`, 'search');
+    }
+    options.search = search;
+  }
+
+  const highlight = readOption(query, 'highlight');
+  if (highlight !== undefined) {
+    if (highlight !== 'true' && highlight !== 'false') {
+      throw new QueryOptionError('$highlight must be true or false', 'highlight');
+    }
+    if (!options.search) {
+      throw new QueryOptionError('$highlight requires $search', 'highlight');
+    }
+    options.highlight = highlight === 'true';
+  }
+
+  const top = readOption(query, 'top');
+  if (top !== undefined) {
+    options.top = parseNonNegativeInteger(top, 'top');
+  }
+
+  const skip = readOption(query, 'skip');
+  if (skip !== undefined) {
+    options.skip = parseNonNegativeInteger(skip, 'skip');
+  }
+
+  const count = readOption(query, 'count');
+  if (count !== undefined) {
+    if (count !== 'true' && count !== 'false') {
+      throw new QueryOptionError('$count must be true or false', 'count');
+    }
+    options.count = count === 'true';
+  }
+
+  return options;
+}
+
+/**
+ * Convert OData query options to query parameters
+ * @param options Query options
+ * @returns Object with "$"-prefixed query parameters
+ */
+export function buildODataQueryParams(options: ODataQueryOptions): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  if (options.filter) {
+    params['$filter'] = printFilterExpression(options.filter);
+  }
+  if (options.orderBy && options.orderBy.length > 0) {
+    params['$orderby'] = printOrderBy(options.orderBy);
+  }
+  if (options.select && options.select.length > 0) {
+    params['$select'] = options.select.join(',');
+  }
+  if (options.expand && options.expand.length > 0) {
+    params['$expand'] = printExpand(options.expand);
+  }
+  if (options.apply && options.apply.length > 0) {
+    params['$apply'] = printApply(options.apply);
+  }
+  if (options.search) {
+    params['$search'] = options.search;
+  }
+  if (options.highlight !== undefined) {
+    params['$highlight'] = String(options.highlight);
+  }
+  if (options.top !== undefined) {
+    params['$top'] = String(options.top);
+  }
+  if (options.skip !== undefined) {
+    params['$skip'] = String(options.skip);
+  }
+  if (options.count !== undefined) {
+    params['$count'] = String(options.count);
+  }
+
+  return params;
+}
+
+/**
+ * Convert OData query options to a query string
+ * @param options Query options
+ * @returns Query string (e.g., "$orderby=createdAt%20desc&$top=10")
+ */
+export function buildODataQueryString(options: ODataQueryOptions): string {
+  return Object.entries(buildODataQueryParams(options))
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join('&');
+}
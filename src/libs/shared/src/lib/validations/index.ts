@@ -2,6 +2,9 @@
  * Shared validation functions for both frontend and backend
  */
 
+import { FilterLimits } from '../models/odata-filter.models';
+import { FilterSyntaxError, parseFilterExpression } from '../utils/odata-filter-parser';
+
 export interface ValidationResult {
   isValid: boolean;
   message?: string;
@@ -119,6 +122,24 @@ export function validatePhone(phone: string): ValidationResult {
   return { isValid: true };
 }
 
+/**
+ * Validate OData filter expression syntax and, optionally, the backend limits
+ */
+export function validateFilterExpression(
+  expression: string,
+  limits: FilterLimits = {},
+): ValidationResult & { position?: number } {
+  try {
+    parseFilterExpression(expression, limits);
+    return { isValid: true };
+  } catch (error) {
+    if (error instanceof FilterSyntaxError) {
+      return { isValid: false, message: error.message, position: error.position };
+    }
+    throw error;
+  }
+}
+
 /**
  * Combined validation for user registration
  */